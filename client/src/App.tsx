@@ -1,32 +1,57 @@
-import { Switch, Route, Redirect } from "wouter";
+import { Switch, Route, Redirect, useLocation } from "wouter";
 import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { AuthProvider, useAuth } from "@/context/AuthProvider";
+import { ImpersonationBanner } from "@/components/impersonation-banner";
 
 // Pages
 import NotFound from "@/pages/not-found";
 import Login from "@/pages/login";
 import Register from "@/pages/register";
+import VerifyEmail from "@/pages/verify-email";
+import ForgotPassword from "@/pages/forgot-password";
 import Dashboard from "@/pages/dashboard";
 import Products from "@/pages/products";
 import Profile from "@/pages/profile";
 import Orders from "@/pages/reports";
+import VatReport from "@/pages/vat-report";
 import TransactionPage from "@/pages/TransactionPage";
+import TransactionHistory from "@/pages/transaction-history";
+import Shifts from "@/pages/shifts";
+import Promotions from "@/pages/promotions";
+import Readings from "@/pages/readings";
 import ResetStaffPassword from "@/pages/reset-staff-password";
+import AccountApprovals from "@/pages/account-approvals";
+import SecurityLog from "@/pages/security-log";
+import Roles from "@/pages/roles";
+import Invitations from "@/pages/invitations";
 
 /* --------------------------- Protected Routes --------------------------- */
-function ProtectedRoute({ component: Component, adminOnly = false }: any) {
-  const { user } = useAuth();
+// Client-side redirects only keep users away from screens they can't use.
+// The API enforces sessions and roles itself (see server/middleware.ts).
+function ProtectedRoute({ component: Component, permission }: any) {
+  const { user, can } = useAuth();
+  const [location] = useLocation();
 
   // If no user is logged in, redirect to login
   if (!user) {
     return <Redirect to="/login" />;
   }
 
-  // If admin-only route, block staff/supplier
-  if (adminOnly && user.role.toLowerCase() !== "admin") {
+  // Roles that require 2FA can only reach their profile until they enroll
+  if (user.twoFactorSetupRequired && location !== "/profile") {
+    return <Redirect to="/profile" />;
+  }
+
+  // Same after an admin set the password: change it before anything else
+  if (user.mustChangePassword && !user.impersonatedBy && location !== "/profile") {
+    return <Redirect to="/profile" />;
+  }
+
+  // Screens tied to a permission (or any of several) bounce everyone else to the dashboard
+  if (permission && ![].concat(permission).some((p) => can(p))) {
     return <Redirect to="/dashboard" />;
   }
 
@@ -41,6 +66,8 @@ function Router() {
       <Route path="/" component={Login} />
       <Route path="/login" component={Login} />
       <Route path="/register" component={Register} />
+      <Route path="/verify-email" component={VerifyEmail} />
+      <Route path="/forgot-password" component={ForgotPassword} />
 
       {/* Protected Routes */}
       <Route path="/dashboard">
@@ -55,13 +82,40 @@ function Router() {
       <Route path="/orders">
         <ProtectedRoute component={Orders} />
       </Route>
+      <Route path="/reports/vat">
+        <ProtectedRoute component={VatReport} permission="report.view_financials" />
+      </Route>
       <Route path="/transaction">
-        <ProtectedRoute component={TransactionPage} />
+        <ProtectedRoute component={TransactionPage} permission="sale.create" />
+      </Route>
+      <Route path="/transactions">
+        <ProtectedRoute component={TransactionHistory} permission={["sale.create", "report.view_financials"]} />
+      </Route>
+      <Route path="/shifts">
+        <ProtectedRoute component={Shifts} permission={["sale.create", "report.view_financials"]} />
+      </Route>
+      <Route path="/readings">
+        <ProtectedRoute component={Readings} permission={["sale.create", "report.view_financials", "report.z_reading"]} />
+      </Route>
+      <Route path="/promotions">
+        <ProtectedRoute component={Promotions} permission="promotion.manage" />
       </Route>
 
-      {/* ✅ Admin Only */}
+      {/* ✅ Administration */}
       <Route path="/reset-staff-password">
-        <ProtectedRoute component={ResetStaffPassword} adminOnly />
+        <ProtectedRoute component={ResetStaffPassword} permission="account.manage" />
+      </Route>
+      <Route path="/invitations">
+        <ProtectedRoute component={Invitations} permission="account.manage" />
+      </Route>
+      <Route path="/account-approvals">
+        <ProtectedRoute component={AccountApprovals} permission="account.approve" />
+      </Route>
+      <Route path="/security-log">
+        <ProtectedRoute component={SecurityLog} permission="security_log.view" />
+      </Route>
+      <Route path="/roles">
+        <ProtectedRoute component={Roles} permission="role.manage" />
       </Route>
 
       {/* Catch-all */}
@@ -77,6 +131,7 @@ function App() {
       <TooltipProvider>
         <AuthProvider>
           <Toaster />
+          <ImpersonationBanner />
           <Router />
         </AuthProvider>
       </TooltipProvider>
@@ -14,6 +14,7 @@ import {
   SelectContent,
   SelectItem,
 } from "@/components/ui/select";
+import { vatClasses, vatClassLabels, type VatClass } from "@shared/schema";
 
 export function AddProductDialog({ open, onClose }: { open: boolean; onClose: () => void }) {
   const queryClient = useQueryClient();
@@ -27,6 +28,7 @@ export function AddProductDialog({ open, onClose }: { open: boolean; onClose: ()
     quantity: "",
     weighted: false,
     category: "", // 🆕 Add category
+    vatClass: "vatable" as VatClass,
   });
 
   const resetForm = () =>
@@ -38,6 +40,7 @@ export function AddProductDialog({ open, onClose }: { open: boolean; onClose: ()
       quantity: "",
       weighted: false,
       category: "",
+      vatClass: "vatable",
     });
 
   const mutation = useMutation({
@@ -54,6 +57,7 @@ export function AddProductDialog({ open, onClose }: { open: boolean; onClose: ()
         quantity: parseInt(form.quantity),
         weighted: form.weighted,
         category: form.category, // 🆕 Send category to backend
+        vatClass: form.vatClass,
       });
     },
     onSuccess: () => {
@@ -144,6 +148,25 @@ export function AddProductDialog({ open, onClose }: { open: boolean; onClose: ()
             />
           </div>
 
+          <div>
+            <Label>VAT</Label>
+            <Select
+              value={form.vatClass}
+              onValueChange={(value) => setForm({ ...form, vatClass: value as VatClass })}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {vatClasses.map((vatClass) => (
+                  <SelectItem key={vatClass} value={vatClass}>
+                    {vatClassLabels[vatClass]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
           <div>
             <Label>Quantity *</Label>
             <Input
@@ -0,0 +1,222 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { apiJson } from "@/lib/queryClient";
+import { Copy, KeySquare, X } from "lucide-react";
+import type { ApiTokenScope } from "@shared/schema";
+
+interface TokenInfo {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: ApiTokenScope[];
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  lastUsedIp: string | null;
+  createdAt: string;
+  expired: boolean;
+}
+
+const EXPIRY_OPTIONS = [
+  { value: "30", label: "30 days" },
+  { value: "90", label: "90 days" },
+  { value: "365", label: "1 year" },
+  { value: "never", label: "Never" },
+];
+
+/**
+ * Personal API tokens for scripts and integrations, sent as
+ * `Authorization: Bearer <token>`
+ */
+export function ApiTokensPanel() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiTokenScope[]>([]);
+  const [expiry, setExpiry] = useState("90");
+  const [newToken, setNewToken] = useState<string | null>(null);
+
+  const { data: tokens = [], isLoading } = useQuery<TokenInfo[]>({
+    queryKey: ["/api/tokens"],
+    queryFn: () => apiJson("GET", "/api/tokens"),
+  });
+
+  const { data: availableScopes = [] } = useQuery<ApiTokenScope[]>({
+    queryKey: ["/api/tokens/scopes"],
+    queryFn: () => apiJson("GET", "/api/tokens/scopes"),
+  });
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      apiJson("POST", "/api/tokens", {
+        name,
+        scopes,
+        expiresInDays: expiry === "never" ? undefined : Number(expiry),
+      }),
+    onSuccess: (data) => {
+      setNewToken(data.token);
+      setName("");
+      setScopes([]);
+      queryClient.invalidateQueries({ queryKey: ["/api/tokens"] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (id: string) => apiJson("DELETE", `/api/tokens/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tokens"] });
+      toast({ title: "Token revoked", description: "It can no longer be used." });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const toggleScope = (scope: ApiTokenScope, checked: boolean) =>
+    setScopes((prev) => (checked ? [...prev, scope] : prev.filter((s) => s !== scope)));
+
+  const copyToken = async () => {
+    if (!newToken) return;
+    await navigator.clipboard.writeText(newToken);
+    toast({ title: "Copied", description: "Token copied to clipboard." });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-xl font-semibold flex items-center gap-2">
+          <KeySquare className="w-5 h-5" />
+          API Tokens
+        </CardTitle>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {newToken && (
+          <div className="border rounded-lg p-4 space-y-2">
+            <p className="text-sm font-medium">Copy your new token now. It won't be shown again.</p>
+            <div className="flex gap-2">
+              <Input readOnly value={newToken} className="font-mono text-xs" data-testid="input-new-token" />
+              <Button variant="outline" size="sm" onClick={copyToken} aria-label="Copy token">
+                <Copy className="w-4 h-4" />
+              </Button>
+            </div>
+            <Button size="sm" onClick={() => setNewToken(null)}>
+              Done
+            </Button>
+          </div>
+        )}
+
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            createMutation.mutate();
+          }}
+          className="grid grid-cols-1 sm:grid-cols-2 gap-4 border rounded-lg p-4"
+        >
+          <div className="space-y-1">
+            <Label htmlFor="token-name">Name</Label>
+            <Input
+              id="token-name"
+              placeholder="e.g. Inventory spreadsheet"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>Expires</Label>
+            <Select value={expiry} onValueChange={setExpiry}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPIRY_OPTIONS.map((o) => (
+                  <SelectItem key={o.value} value={o.value}>
+                    {o.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2 sm:col-span-2">
+            <Label>Scopes</Label>
+            <div className="flex flex-wrap gap-4">
+              {availableScopes.map((scope) => (
+                <label key={scope} className="flex items-center gap-2 text-sm font-mono">
+                  <Checkbox
+                    checked={scopes.includes(scope)}
+                    onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                  />
+                  {scope}
+                </label>
+              ))}
+            </div>
+          </div>
+          <div className="sm:col-span-2">
+            <Button
+              type="submit"
+              disabled={createMutation.isPending || !name.trim() || scopes.length === 0}
+              data-testid="button-create-token"
+            >
+              Create Token
+            </Button>
+          </div>
+        </form>
+
+        {isLoading && <p className="text-sm text-muted-foreground">Loading tokens...</p>}
+        {!isLoading && tokens.length === 0 && (
+          <p className="text-sm text-muted-foreground">You have no API tokens.</p>
+        )}
+
+        {tokens.map((t) => (
+          <div key={t.id} className="flex items-center justify-between border rounded-lg p-3 gap-4">
+            <div className="text-sm space-y-1">
+              <p className="font-medium flex flex-wrap items-center gap-2">
+                {t.name}
+                <span className="font-mono text-xs text-muted-foreground">{t.prefix}…</span>
+                {t.expired && <Badge variant="destructive">Expired</Badge>}
+              </p>
+              <div className="flex flex-wrap gap-1">
+                {t.scopes.map((scope) => (
+                  <Badge key={scope} variant="outline" className="font-mono">
+                    {scope}
+                  </Badge>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Created {new Date(t.createdAt).toLocaleDateString()} · Expires{" "}
+                {t.expiresAt ? new Date(t.expiresAt).toLocaleDateString() : "never"} · Last used{" "}
+                {t.lastUsedAt ? `${new Date(t.lastUsedAt).toLocaleString()} (${t.lastUsedIp || "unknown IP"})` : "never"}
+              </p>
+            </div>
+
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => revokeMutation.mutate(t.id)}
+              disabled={revokeMutation.isPending}
+              aria-label="Revoke token"
+            >
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
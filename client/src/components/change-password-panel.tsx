@@ -0,0 +1,103 @@
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/context/AuthProvider";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { AlertTriangle, KeyRound } from "lucide-react";
+import { BASE_API_URL } from "@/api";
+
+const emptyForm = { currentPassword: "", newPassword: "", confirmPassword: "" };
+
+/**
+ * Self-service password change. The server signs out every other session
+ * and moves this one to a new session id. Also where an account lands when
+ * an admin set its password and it must be changed before anything else.
+ */
+export function ChangePasswordPanel() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState(emptyForm);
+  const [busy, setBusy] = useState(false);
+
+  const field = (name: keyof typeof emptyForm, label: string) => (
+    <div className="space-y-1">
+      <Label htmlFor={name}>{label}</Label>
+      <Input
+        id={name}
+        type="password"
+        autoComplete={name === "currentPassword" ? "current-password" : "new-password"}
+        value={form[name]}
+        onChange={(e) => setForm((prev) => ({ ...prev, [name]: e.target.value }))}
+        data-testid={`input-${name}`}
+      />
+    </div>
+  );
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    try {
+      const res = await fetch(`${BASE_API_URL}/api/profile/password`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify(form),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.errors?.[0]?.message || data.message || "Failed to change password");
+      setForm(emptyForm);
+      // Clears mustChangePassword and with it the redirect to this page
+      await queryClient.invalidateQueries({ queryKey: ["/api/me"] });
+      toast({ title: "Password changed", description: data.message });
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-xl font-semibold flex items-center gap-2">
+          <KeyRound className="w-5 h-5" />
+          Change Password
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {user?.mustChangePassword && (
+            <p
+              className="text-sm flex items-center gap-2 rounded-md border border-amber-500 bg-amber-50 dark:bg-amber-950 p-3"
+              data-testid="notice-must-change-password"
+            >
+              <AlertTriangle className="w-4 h-4 text-amber-600" />
+              Your password was set by an administrator. Choose a new one to continue.
+            </p>
+          )}
+          {field("currentPassword", "Current Password")}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {field("newPassword", "New Password")}
+            {field("confirmPassword", "Confirm New Password")}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            At least 8 characters with uppercase, lowercase, a number and a special character. Common
+            passwords, your username and your recent passwords are refused. Your other devices will be
+            signed out.
+          </p>
+          <Button
+            type="submit"
+            disabled={busy || !form.currentPassword || !form.newPassword}
+            data-testid="button-change-password"
+          >
+            Change Password
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
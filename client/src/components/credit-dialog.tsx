@@ -0,0 +1,169 @@
+import { useEffect, useState } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { BASE_API_URL } from "@/api";
+import { returnConditions, type CreditKind, type CreditNote, type ReturnCondition, type Transaction } from "@shared/schema";
+
+interface CreditDialogProps {
+  transaction: Transaction;
+  kind: CreditKind | null;
+  onClose: () => void;
+  onDone: (credit: CreditNote, transaction: Transaction) => void;
+}
+
+type LineState = { quantity: string; condition: ReturnCondition };
+
+/**
+ * Void (the whole sale, current shift only) or return (chosen lines) against a
+ * stored transaction. The server restocks resellable items and answers with
+ * the credit note.
+ */
+export function CreditDialog({ transaction, kind, onClose, onDone }: CreditDialogProps) {
+  const { toast } = useToast();
+  const [reason, setReason] = useState("");
+  const [lines, setLines] = useState<Record<number, LineState>>({});
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    setReason("");
+    setLines({});
+  }, [kind, transaction.id]);
+
+  const remaining = (line: number) => {
+    const item = transaction.items[line];
+    return item.quantity - item.returnedQuantity;
+  };
+
+  const updateLine = (line: number, changes: Partial<LineState>) =>
+    setLines((prev) => ({
+      ...prev,
+      [line]: { ...(prev[line] ?? { quantity: "", condition: "resellable" }), ...changes },
+    }));
+
+  const handleSubmit = async () => {
+    const items = Object.entries(lines)
+      .map(([line, state]) => ({ line: Number(line), quantity: Number(state.quantity), condition: state.condition }))
+      .filter((item) => item.quantity > 0);
+
+    setBusy(true);
+    try {
+      const res = await fetch(`${BASE_API_URL}/api/sales/transactions/${transaction.id}/${kind}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify(kind === "void" ? { reason } : { reason, items }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.errors?.[0]?.message || data.message || "Request failed");
+      onDone(data.credit, data.transaction);
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!kind} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>
+            {kind === "void" ? "Void" : "Return items from"} receipt {transaction.receiptNumber}
+          </DialogTitle>
+        </DialogHeader>
+
+        {kind === "void" ? (
+          <p className="text-sm text-muted-foreground">
+            Every item not already returned goes back into stock and the full amount is credited.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Item</TableHead>
+                <TableHead className="w-20">Qty</TableHead>
+                <TableHead className="w-36">Condition</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {transaction.items.map((item, line) =>
+                remaining(line) > 0 ? (
+                  <TableRow key={line}>
+                    <TableCell>
+                      {item.productName}
+                      <span className="block text-xs text-muted-foreground">{remaining(line)} returnable</span>
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min={0}
+                        max={remaining(line)}
+                        value={lines[line]?.quantity ?? ""}
+                        onChange={(e) => updateLine(line, { quantity: e.target.value })}
+                        data-testid={`input-return-qty-${line}`}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        value={lines[line]?.condition ?? "resellable"}
+                        onValueChange={(value) => updateLine(line, { condition: value as ReturnCondition })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {returnConditions.map((condition) => (
+                            <SelectItem key={condition} value={condition} className="capitalize">
+                              {condition}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                  </TableRow>
+                ) : null,
+              )}
+            </TableBody>
+          </Table>
+        )}
+
+        <div className="space-y-1">
+          <Label htmlFor="credit-reason">Reason</Label>
+          <Input
+            id="credit-reason"
+            value={reason}
+            maxLength={200}
+            placeholder={kind === "void" ? "e.g. Wrong item scanned" : "e.g. Faulty on arrival"}
+            onChange={(e) => setReason(e.target.value)}
+            data-testid="input-credit-reason"
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={handleSubmit}
+            disabled={busy || !reason.trim()}
+            data-testid="button-confirm-credit"
+          >
+            {kind === "void" ? "Void Sale" : "Process Return"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
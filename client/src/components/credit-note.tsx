@@ -0,0 +1,80 @@
+import { forwardRef } from "react";
+import { VatSummary } from "@/components/receipt";
+import { paymentMethodLabels, type CreditNote } from "@shared/schema";
+import { peso } from "@/lib/utils";
+
+/** The printed credit note for a void or return, receipt-sized like the receipt */
+export const CreditNoteDocument = forwardRef<HTMLDivElement, { credit: CreditNote }>(function CreditNoteDocument(
+  { credit },
+  ref,
+) {
+  const date = new Date(credit.createdAt).toLocaleString("en-PH", {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+
+  return (
+    <div
+      ref={ref}
+      className="font-mono text-sm bg-white text-black p-4 sm:p-6 rounded-md border border-gray-300"
+      data-testid={`credit-note-${credit.creditNumber}`}
+    >
+      <h2 className="text-center font-bold text-lg mb-1">BLCM Hardware</h2>
+      <p className="text-center font-bold tracking-widest border-y border-black py-1 my-2">
+        {credit.kind === "void" ? "VOID" : "RETURN"} CREDIT NOTE
+      </p>
+      <div className="text-xs space-y-0.5 mb-2">
+        <div className="flex justify-between flex-wrap gap-2">
+          <span>Credit No: {credit.creditNumber}</span>
+          <span>{date}</span>
+        </div>
+        <div>Original receipt: {credit.receiptNumber}</div>
+        <div>Processed by: {credit.username ?? "—"}</div>
+        <div>Reason: {credit.reason}</div>
+      </div>
+      <hr className="my-2 border-gray-400" />
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="border-b border-gray-400">
+            <th className="text-left">Item</th>
+            <th className="text-center">Qty</th>
+            <th className="text-right">Amount</th>
+          </tr>
+        </thead>
+        <tbody>
+          {credit.items.map((item, index) => (
+            <tr key={`${item.line}-${index}`}>
+              <td>
+                {item.productName}
+                <span className="block text-[10px]">
+                  {item.condition}
+                  {item.restocked ? " · restocked" : " · not restocked"}
+                </span>
+              </td>
+              <td className="text-center align-top">{item.quantity}</td>
+              <td className="text-right align-top">{peso(item.lineTotal)}</td>
+            </tr>
+          ))}
+          <tr className="border-t border-gray-400 font-bold">
+            <td className="pt-2" colSpan={2}>Total Refund</td>
+            <td className="text-right pt-2">{peso(credit.total)}</td>
+          </tr>
+          {credit.refunds.map((refund, index) => (
+            <tr key={index}>
+              <td colSpan={2}>
+                Refunded to {paymentMethodLabels[refund.method]}
+                {refund.reference && <span className="block text-[10px]">Ref: {refund.reference}</span>}
+              </td>
+              <td className="text-right align-top">{peso(refund.amount)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <VatSummary vat={credit} />
+      <div className="mt-8 text-xs grid grid-cols-2 gap-6">
+        <div className="border-t border-black pt-1 text-center">Customer</div>
+        <div className="border-t border-black pt-1 text-center">Authorized by</div>
+      </div>
+    </div>
+  );
+});
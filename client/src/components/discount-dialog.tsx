@@ -0,0 +1,171 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { seniorPwdKinds, type DiscountRequest, type DiscountType, type SeniorPwd } from "@shared/schema";
+
+interface DiscountDialogProps {
+  title: string | null;
+  current?: DiscountRequest;
+  onClose: () => void;
+  onApply: (discount: DiscountRequest | undefined) => void;
+}
+
+/** A manual discount on one line or the whole sale, or removes the one already given. */
+export function DiscountDialog({ title, current, onClose, onApply }: DiscountDialogProps) {
+  const [type, setType] = useState<DiscountType>("percent");
+  const [value, setValue] = useState("");
+  const [reason, setReason] = useState("");
+
+  useEffect(() => {
+    if (!title) return;
+    setType(current?.type ?? "percent");
+    setValue(current ? String(current.value) : "");
+    setReason(current?.reason ?? "");
+  }, [title, current]);
+
+  const amount = Number(value) || 0;
+  const problem = amount <= 0 ? "Enter a discount" : type === "percent" && amount > 100 ? "Can't be more than 100%" : null;
+
+  return (
+    <Dialog open={!!title} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-3">
+          <div className="flex gap-2">
+            <Select value={type} onValueChange={(value) => setType(value as DiscountType)}>
+              <SelectTrigger className="w-28">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="percent">Percent</SelectItem>
+                <SelectItem value="fixed">Pesos</SelectItem>
+              </SelectContent>
+            </Select>
+            <Input
+              type="number"
+              min={0}
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              data-testid="input-discount-value"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="discount-reason">Reason (optional)</Label>
+            <Input
+              id="discount-reason"
+              maxLength={200}
+              placeholder="e.g. Damaged box"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+          </div>
+          {value && problem && <p className="text-sm text-destructive">{problem}</p>}
+        </div>
+        <DialogFooter className="gap-2">
+          {current && (
+            <Button variant="outline" onClick={() => onApply(undefined)}>
+              Remove
+            </Button>
+          )}
+          <Button
+            onClick={() => onApply({ type, value: amount, reason: reason.trim() || undefined })}
+            disabled={!!problem}
+            data-testid="button-apply-discount"
+          >
+            Apply
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface SeniorPwdDialogProps {
+  open: boolean;
+  current?: SeniorPwd;
+  onClose: () => void;
+  onApply: (seniorPwd: SeniorPwd | undefined) => void;
+}
+
+/**
+ * The senior citizen / PWD discount needs the customer's ID on the receipt.
+ * It replaces every other discount on the sale.
+ */
+export function SeniorPwdDialog({ open, current, onClose, onApply }: SeniorPwdDialogProps) {
+  const [form, setForm] = useState<SeniorPwd>({ kind: "senior", idNumber: "", name: "" });
+
+  useEffect(() => {
+    if (open) setForm(current ?? { kind: "senior", idNumber: "", name: "" });
+  }, [open, current]);
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !value && onClose()}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Senior Citizen / PWD Discount</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-3">
+          <Select value={form.kind} onValueChange={(kind) => setForm((prev) => ({ ...prev, kind: kind as SeniorPwd["kind"] }))}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {seniorPwdKinds.map((kind) => (
+                <SelectItem key={kind} value={kind}>
+                  {kind === "senior" ? "Senior citizen" : "Person with disability"}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="space-y-1">
+            <Label htmlFor="senior-pwd-id">ID number</Label>
+            <Input
+              id="senior-pwd-id"
+              maxLength={50}
+              value={form.idNumber}
+              onChange={(e) => setForm((prev) => ({ ...prev, idNumber: e.target.value }))}
+              data-testid="input-senior-pwd-id"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="senior-pwd-name">Name</Label>
+            <Input
+              id="senior-pwd-name"
+              maxLength={100}
+              value={form.name}
+              onChange={(e) => setForm((prev) => ({ ...prev, name: e.target.value }))}
+            />
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Removes VAT and takes 20% off. Other discounts and promotions don't apply.
+          </p>
+        </div>
+        <DialogFooter className="gap-2">
+          {current && (
+            <Button variant="outline" onClick={() => onApply(undefined)}>
+              Remove
+            </Button>
+          )}
+          <Button
+            onClick={() => onApply({ ...form, idNumber: form.idNumber.trim(), name: form.name.trim() })}
+            disabled={!form.idNumber.trim() || !form.name.trim()}
+            data-testid="button-apply-senior-pwd"
+          >
+            Apply
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
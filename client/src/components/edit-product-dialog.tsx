@@ -12,7 +12,14 @@ import { Button } from "@/components/ui/button";
 import { Switch } from "@/components/ui/switch";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import type { Product } from "@shared/schema";
+import {
+  Select,
+  SelectTrigger,
+  SelectValue,
+  SelectContent,
+  SelectItem,
+} from "@/components/ui/select";
+import { vatClasses, vatClassLabels, type Product, type VatClass } from "@shared/schema";
 
 interface EditProductDialogProps {
   open: boolean;
@@ -30,6 +37,7 @@ export function EditProductDialog({ open, onClose, product }: EditProductDialogP
     price: product.price.toString(),
     quantity: product.quantity.toString(),
     weighted: product.weighted || false,
+    vatClass: (product.vatClass || "vatable") as VatClass,
   });
 
   // 🧩 Ensure form resets when product changes (important!)
@@ -41,6 +49,7 @@ export function EditProductDialog({ open, onClose, product }: EditProductDialogP
         price: product.price.toString(),
         quantity: product.quantity.toString(),
         weighted: product.weighted || false,
+        vatClass: product.vatClass || "vatable",
       });
     }
   }, [product]);
@@ -105,6 +114,25 @@ export function EditProductDialog({ open, onClose, product }: EditProductDialogP
             />
           </div>
 
+          <div>
+            <Label>VAT</Label>
+            <Select
+              value={form.vatClass}
+              onValueChange={(value) => setForm({ ...form, vatClass: value as VatClass })}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {vatClasses.map((vatClass) => (
+                  <SelectItem key={vatClass} value={vatClass}>
+                    {vatClassLabels[vatClass]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
           <div>
             <Label>Quantity</Label>
             <Input
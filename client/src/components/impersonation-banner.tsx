@@ -0,0 +1,47 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { useAuth } from "@/context/AuthProvider";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Eye } from "lucide-react";
+
+/**
+ * Shown on every page while an admin is viewing the app as another account.
+ * Changes are blocked by the API for the whole session.
+ */
+export function ImpersonationBanner() {
+  const { user, stopImpersonating } = useAuth();
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+  const [busy, setBusy] = useState(false);
+
+  if (!user?.impersonatedBy) return null;
+
+  const stop = async () => {
+    setBusy(true);
+    try {
+      await stopImpersonating();
+      setLocation("/reset-staff-password");
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div
+      className="sticky top-0 z-50 bg-amber-500 text-black px-4 py-2 flex flex-wrap items-center justify-center gap-3 text-sm"
+      data-testid="impersonation-banner"
+    >
+      <Eye className="w-4 h-4" />
+      <span>
+        Viewing as <strong>{user.username}</strong> ({user.role}). Signed in as {user.impersonatedBy.username};
+        changes are disabled.
+      </span>
+      <Button size="sm" variant="outline" className="h-7 bg-white" onClick={stop} disabled={busy}>
+        Stop viewing
+      </Button>
+    </div>
+  );
+}
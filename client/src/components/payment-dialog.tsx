@@ -0,0 +1,167 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import { paymentMethodLabels, paymentMethods, type PaymentMethod, type TenderRequest } from "@shared/schema";
+import { peso } from "@/lib/utils";
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+type TenderRow = { method: PaymentMethod; amount: string; reference: string };
+
+interface PaymentDialogProps {
+  open: boolean;
+  total: number;
+  busy?: boolean;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (tenders: TenderRequest[]) => void;
+}
+
+/**
+ * Takes one or more tenders for a sale. Non-cash tenders pay exactly their
+ * amount; change is only given on cash, the same rule the server applies.
+ */
+export function PaymentDialog({ open, total, busy, onOpenChange, onConfirm }: PaymentDialogProps) {
+  const [rows, setRows] = useState<TenderRow[]>([]);
+
+  useEffect(() => {
+    if (open) setRows([{ method: "cash", amount: "", reference: "" }]);
+  }, [open]);
+
+  const amountOf = (row: TenderRow) => Number(row.amount) || 0;
+  const nonCash = round(rows.filter((row) => row.method !== "cash").reduce((sum, row) => sum + amountOf(row), 0));
+  const cashGiven = round(rows.filter((row) => row.method === "cash").reduce((sum, row) => sum + amountOf(row), 0));
+  const cashDue = round(total - nonCash);
+  const change = round(cashGiven - Math.max(cashDue, 0));
+
+  const problem =
+    cashDue < 0
+      ? "Non-cash payments are more than the total"
+      : cashGiven < cashDue
+        ? `${peso(round(cashDue - cashGiven))} still to pay`
+        : cashDue === 0 && cashGiven > 0
+          ? "Non-cash payments already cover the total"
+          : rows.some((row) => row.method !== "cash" && amountOf(row) > 0 && !row.reference.trim())
+            ? "Enter a reference number for each non-cash payment"
+            : null;
+
+  const updateRow = (index: number, changes: Partial<TenderRow>) =>
+    setRows((prev) => prev.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+
+  const handleConfirm = () =>
+    onConfirm(
+      rows
+        .filter((row) => amountOf(row) > 0)
+        .map((row) => ({
+          method: row.method,
+          amount: amountOf(row),
+          reference: row.method === "cash" ? undefined : row.reference.trim(),
+        })),
+    );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Payment · {peso(total)}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {rows.map((row, index) => (
+            <div key={index} className="flex gap-2 items-center" data-testid={`tender-row-${index}`}>
+              <Select value={row.method} onValueChange={(value) => updateRow(index, { method: value as PaymentMethod })}>
+                <SelectTrigger className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {paymentMethods.map((method) => (
+                    <SelectItem key={method} value={method}>
+                      {paymentMethodLabels[method]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                type="number"
+                min={0}
+                placeholder="Amount"
+                value={row.amount}
+                onChange={(e) => updateRow(index, { amount: e.target.value })}
+                className="w-28"
+              />
+              {row.method !== "cash" ? (
+                <Input
+                  placeholder="Reference no."
+                  maxLength={100}
+                  value={row.reference}
+                  onChange={(e) => updateRow(index, { reference: e.target.value })}
+                  className="flex-1"
+                />
+              ) : (
+                <div className="flex-1" />
+              )}
+              <Button
+                variant="ghost"
+                size="icon"
+                disabled={rows.length === 1}
+                onClick={() => setRows((prev) => prev.filter((_, i) => i !== index))}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() =>
+              setRows((prev) => [
+                ...prev,
+                // A second tender usually pays whatever is left
+                { method: "gcash", amount: cashDue - cashGiven > 0 ? String(round(cashDue - cashGiven)) : "", reference: "" },
+              ])
+            }
+          >
+            <Plus className="w-4 h-4 mr-1" /> Add payment
+          </Button>
+        </div>
+
+        <div className="text-sm space-y-1 border-t pt-3">
+          <div className="flex justify-between">
+            <span>Non-cash</span>
+            <span>{peso(nonCash)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span>Cash due</span>
+            <span>{peso(Math.max(cashDue, 0))}</span>
+          </div>
+          <div className="flex justify-between">
+            <span>Cash given</span>
+            <span>{peso(cashGiven)}</span>
+          </div>
+          <div className="flex justify-between font-semibold">
+            <span>Change</span>
+            <span>{peso(Math.max(change, 0))}</span>
+          </div>
+          {problem && <p className="text-destructive">{problem}</p>}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleConfirm} disabled={busy || !!problem} data-testid="button-confirm-payment">
+            Confirm
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,74 @@
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { apiJson } from "@/lib/queryClient";
+import { MailCheck } from "lucide-react";
+
+/**
+ * Confirmation step for a requested email change: the code goes to the new
+ * address, and the old one stays in use until it is entered
+ */
+export function PendingEmailNotice({ pendingEmail }: { pendingEmail: string }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [code, setCode] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    } finally {
+      setCode("");
+      setBusy(false);
+    }
+  };
+
+  const verify = () =>
+    run(async () => {
+      queryClient.setQueryData(["/api/me"], await apiJson("POST", "/api/profile/email/verify", { code }));
+      toast({ title: "Email updated", description: `Your email is now ${pendingEmail}.` });
+    });
+
+  const resend = () =>
+    run(async () => {
+      const data = await apiJson("POST", "/api/profile/email/resend");
+      toast({ title: "Code sent", description: data.message });
+    });
+
+  const cancel = () =>
+    run(async () => {
+      queryClient.setQueryData(["/api/me"], await apiJson("DELETE", "/api/profile/email"));
+    });
+
+  return (
+    <div className="border rounded-lg p-4 space-y-3" data-testid="pending-email">
+      <p className="text-sm flex items-center gap-2">
+        <MailCheck className="w-4 h-4" />
+        Enter the code we sent to <strong>{pendingEmail}</strong> to switch to that address.
+      </p>
+      <InputOTP maxLength={6} value={code} onChange={setCode}>
+        <InputOTPGroup>
+          {[0, 1, 2, 3, 4, 5].map((i) => (
+            <InputOTPSlot key={i} index={i} />
+          ))}
+        </InputOTPGroup>
+      </InputOTP>
+      <div className="flex flex-wrap gap-2">
+        <Button size="sm" onClick={verify} disabled={busy || code.length !== 6}>
+          Confirm
+        </Button>
+        <Button size="sm" variant="outline" onClick={resend} disabled={busy}>
+          Resend code
+        </Button>
+        <Button size="sm" variant="ghost" onClick={cancel} disabled={busy}>
+          Cancel change
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+import { forwardRef } from "react";
+import { VatSummary } from "@/components/receipt";
+import { discountSourceLabels, paymentMethodLabels, type SalesReading, type ZReading } from "@shared/schema";
+import { peso } from "@/lib/utils";
+
+const when = (date: Date | string) =>
+  new Date(date).toLocaleString("en-PH", { dateStyle: "medium", timeStyle: "short" });
+
+/**
+ * The printed X- or Z-reading, receipt-sized like the receipt. Without a Z
+ * number it's an X-reading: the same figures, but nothing was closed.
+ */
+export const ReadingReport = forwardRef<HTMLDivElement, { reading: SalesReading | ZReading }>(function ReadingReport(
+  { reading },
+  ref,
+) {
+  const z = "zNumber" in reading ? reading : null;
+
+  return (
+    <div
+      ref={ref}
+      className="font-mono text-sm bg-white text-black p-4 sm:p-6 rounded-md border border-gray-300"
+      data-testid={z ? `z-reading-${z.zNumber}` : "x-reading"}
+    >
+      <h2 className="text-center font-bold text-lg mb-1">BLCM Hardware</h2>
+      <p className="text-center font-bold tracking-widest border-y border-black py-1 my-2">
+        {z ? "Z-READING" : "X-READING"}
+      </p>
+      <div className="text-xs space-y-0.5 mb-2">
+        {z && <div>Z No: {z.zNumber}</div>}
+        <div>Store: {reading.storeCode}</div>
+        <div>From: {reading.periodStart ? when(reading.periodStart) : "—"}</div>
+        <div>To: {when(reading.periodEnd)}</div>
+        {z && <div>Generated by: {z.generatedByUsername ?? "—"}</div>}
+        <div>Beginning receipt: {reading.beginningReceipt ?? "—"}</div>
+        <div>Ending receipt: {reading.endingReceipt ?? "—"}</div>
+        <div>Transactions: {reading.transactionCount}</div>
+      </div>
+      <hr className="my-2 border-gray-400" />
+      <table className="w-full text-xs">
+        <tbody>
+          <tr>
+            <td>Gross sales</td>
+            <td className="text-right">{peso(reading.grossSales)}</td>
+          </tr>
+          <tr>
+            <td>Less discounts</td>
+            <td className="text-right">-{peso(reading.discountTotal)}</td>
+          </tr>
+          <tr>
+            <td>Less voids ({reading.voidCount})</td>
+            <td className="text-right">-{peso(reading.voidTotal)}</td>
+          </tr>
+          <tr>
+            <td>Less returns ({reading.returnCount})</td>
+            <td className="text-right">-{peso(reading.returnTotal)}</td>
+          </tr>
+          <tr className="border-t border-gray-400 font-bold">
+            <td className="pt-1">Net sales</td>
+            <td className="text-right pt-1">{peso(reading.netSales)}</td>
+          </tr>
+        </tbody>
+      </table>
+
+      <VatSummary vat={reading} />
+
+      {reading.discountTotal > 0 && (
+        <>
+          <hr className="my-2 border-gray-400" />
+          <p className="text-xs font-bold mb-1">Discounts</p>
+          <table className="w-full text-xs">
+            <tbody>
+              {reading.discounts
+                .filter((row) => row.total > 0)
+                .map((row) => (
+                  <tr key={row.source}>
+                    <td>{discountSourceLabels[row.source]}</td>
+                    <td className="text-right">{peso(row.total)}</td>
+                  </tr>
+                ))}
+            </tbody>
+          </table>
+        </>
+      )}
+
+      <hr className="my-2 border-gray-400" />
+      <p className="text-xs font-bold mb-1">Payments</p>
+      <table className="w-full text-xs">
+        <tbody>
+          {reading.paymentMethods.map((row) => (
+            <tr key={row.method}>
+              <td>{paymentMethodLabels[row.method]}</td>
+              <td className="text-center">{row.count}</td>
+              <td className="text-right">{peso(row.total)}</td>
+            </tr>
+          ))}
+          {reading.refunds
+            .filter((row) => row.total > 0)
+            .map((row) => (
+              <tr key={`refund-${row.method}`}>
+                <td colSpan={2}>Refunds: {paymentMethodLabels[row.method]}</td>
+                <td className="text-right">-{peso(row.total)}</td>
+              </tr>
+            ))}
+        </tbody>
+      </table>
+
+      <hr className="my-2 border-gray-400" />
+      <table className="w-full text-xs">
+        <tbody>
+          <tr>
+            <td>Previous grand total</td>
+            <td className="text-right">{peso(reading.previousGrandTotal)}</td>
+          </tr>
+          <tr className="font-bold">
+            <td>Accumulated grand total</td>
+            <td className="text-right">{peso(reading.grandTotal)}</td>
+          </tr>
+        </tbody>
+      </table>
+
+      {z && (
+        <div className="mt-8 text-xs grid grid-cols-2 gap-6">
+          <div className="border-t border-black pt-1 text-center">Prepared by</div>
+          <div className="border-t border-black pt-1 text-center">Verified by</div>
+        </div>
+      )}
+    </div>
+  );
+});
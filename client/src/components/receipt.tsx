@@ -0,0 +1,187 @@
+import { forwardRef } from "react";
+import jsPDF from "jspdf";
+import html2canvas from "html2canvas";
+import { paymentMethodLabels, type Transaction, type VatBreakdown } from "@shared/schema";
+import { peso } from "@/lib/utils";
+
+interface ReceiptProps {
+  transaction: Transaction;
+  // Any copy after the original sale
+  reprint?: boolean;
+}
+
+/** A printed receipt, rendered only from the stored transaction */
+export const Receipt = forwardRef<HTMLDivElement, ReceiptProps>(function Receipt({ transaction, reprint }, ref) {
+  const date = new Date(transaction.createdAt).toLocaleString("en-PH", {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+
+  return (
+    <div
+      ref={ref}
+      id="receipt"
+      className="font-mono text-sm bg-white text-black p-4 sm:p-6 rounded-md border border-gray-300 print:w-full print:shadow-none"
+      data-testid={`receipt-${transaction.receiptNumber}`}
+    >
+      {reprint && (
+        <p className="text-center font-bold tracking-widest border-y border-black py-1 mb-3" data-testid="receipt-reprint">
+          *** REPRINT ***
+          {transaction.lastReprintedAt && (
+            <span className="block text-[10px] font-normal tracking-normal">
+              Copy {transaction.reprintCount} ·{" "}
+              {new Date(transaction.lastReprintedAt).toLocaleString("en-PH", { dateStyle: "medium", timeStyle: "short" })}
+            </span>
+          )}
+        </p>
+      )}
+      <h2 className="text-center font-bold text-lg mb-1">
+        BLCM Hardware
+      </h2>
+      <p className="text-center text-xs mb-4">
+        Rizal Ave., Malitbog, Bongabong Oriental Mindoro
+        <br />
+        Cellphone No: 09283160373
+      </p>
+      <div className="flex justify-between text-xs mb-1 flex-wrap gap-2">
+        <span>Receipt No: {transaction.receiptNumber}</span>
+        <span>{date}</span>
+      </div>
+      <div className="text-xs mb-2">Cashier: {transaction.cashierUsername ?? "—"}</div>
+      {transaction.voidedAt && (
+        <p className="text-center font-bold tracking-widest my-2" data-testid="receipt-voided">
+          *** VOIDED ***
+        </p>
+      )}
+      <hr className="my-2 border-gray-400" />
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="border-b border-gray-400">
+            <th className="text-left">Item</th>
+            <th className="text-center">Qty</th>
+            <th className="text-right">Price</th>
+            <th className="text-right">Subtotal</th>
+          </tr>
+        </thead>
+        <tbody>
+          {transaction.items.map((item, index) => (
+            <tr key={`${item.productId}-${index}`}>
+              <td>
+                {item.productName}
+                {item.returnedQuantity > 0 && !transaction.voidedAt && (
+                  <span className="block text-[10px]">({item.returnedQuantity} returned)</span>
+                )}
+              </td>
+              <td className="text-center">{item.quantity}</td>
+              <td className="text-right">{peso(item.unitPrice)}</td>
+              <td className="text-right align-top">
+                {peso(item.lineTotal)}
+                {item.discounts.map((discount, i) => (
+                  <span key={i} className="block text-[10px]">
+                    {discount.label} -{peso(discount.amount)}
+                  </span>
+                ))}
+              </td>
+            </tr>
+          ))}
+          {transaction.discountTotal > 0 && (
+            <>
+              <tr className="border-t border-gray-400">
+                <td className="pt-2" colSpan={3}>Subtotal</td>
+                <td className="text-right pt-2">{peso(transaction.subtotal)}</td>
+              </tr>
+              {transaction.vatExemption > 0 && (
+                <tr>
+                  <td colSpan={3}>Less VAT exemption</td>
+                  <td className="text-right">-{peso(transaction.vatExemption)}</td>
+                </tr>
+              )}
+              <tr>
+                <td colSpan={3}>Less discounts</td>
+                <td className="text-right">-{peso(transaction.discountTotal - transaction.vatExemption)}</td>
+              </tr>
+            </>
+          )}
+          <tr className="border-t border-gray-400 font-bold">
+            <td className="pt-2" colSpan={3}>Total</td>
+            <td className="text-right pt-2">{peso(transaction.total)}</td>
+          </tr>
+          {transaction.tenders
+            .filter((tender) => tender.method !== "cash")
+            .map((tender, index) => (
+              <tr key={index}>
+                <td colSpan={3}>
+                  {paymentMethodLabels[tender.method]}
+                  {tender.reference && <span className="block text-[10px]">Ref: {tender.reference}</span>}
+                </td>
+                <td className="text-right align-top">{peso(tender.amount)}</td>
+              </tr>
+            ))}
+          {transaction.tenders.some((tender) => tender.method === "cash") && (
+            <>
+              <tr className="font-bold">
+                <td colSpan={3}>Cash Given</td>
+                <td className="text-right">{peso(transaction.cashTendered)}</td>
+              </tr>
+              <tr className="font-bold">
+                <td colSpan={3}>Change</td>
+                <td className="text-right">{peso(transaction.change)}</td>
+              </tr>
+            </>
+          )}
+        </tbody>
+      </table>
+      <VatSummary vat={transaction} />
+      {transaction.seniorPwd && (
+        <div className="text-xs mt-3" data-testid="receipt-senior-pwd">
+          <p>{transaction.seniorPwd.kind === "senior" ? "Senior Citizen" : "PWD"} Name: {transaction.seniorPwd.name}</p>
+          <p>ID No: {transaction.seniorPwd.idNumber}</p>
+          <p className="mt-4 border-t border-black w-3/4">Signature</p>
+        </div>
+      )}
+      <hr className="my-3 border-gray-400" />
+      <p className="text-center text-xs">
+        Thank you for shopping at BLCM Hardware!
+        <br />
+        Please come again.
+      </p>
+      {reprint && <p className="text-center font-bold tracking-widest mt-3">*** REPRINT ***</p>}
+    </div>
+  );
+});
+
+/** The VAT lines printed under a receipt or credit note total */
+export function VatSummary({ vat }: { vat: VatBreakdown }) {
+  return (
+    <table className="w-full text-xs mt-3" data-testid="vat-summary">
+      <tbody>
+        <tr>
+          <td>VATable Sales</td>
+          <td className="text-right">{peso(vat.vatableSales)}</td>
+        </tr>
+        <tr>
+          <td>VAT Amount (12%)</td>
+          <td className="text-right">{peso(vat.vatAmount)}</td>
+        </tr>
+        <tr>
+          <td>VAT-Exempt Sales</td>
+          <td className="text-right">{peso(vat.vatExemptSales)}</td>
+        </tr>
+        <tr>
+          <td>Zero-Rated Sales</td>
+          <td className="text-right">{peso(vat.zeroRatedSales)}</td>
+        </tr>
+      </tbody>
+    </table>
+  );
+}
+
+/** The receipt as an 80 mm wide PDF, the width of a receipt printer roll */
+export async function receiptPdf(element: HTMLElement) {
+  const canvas = await html2canvas(element, { scale: 2, backgroundColor: "#ffffff" });
+  const width = 80;
+  const height = (canvas.height * width) / canvas.width;
+  const pdf = new jsPDF({ orientation: "p", unit: "mm", format: [width, height] });
+  pdf.addImage(canvas.toDataURL("image/png"), "PNG", 0, 0, width, height);
+  return pdf;
+}
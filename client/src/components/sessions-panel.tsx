@@ -0,0 +1,130 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/context/AuthProvider";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { LogOut, MonitorSmartphone, X } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+
+interface SessionInfo {
+  id: string;
+  userAgent: string | null;
+  ip: string | null;
+  rememberMe: boolean;
+  createdAt: string;
+  lastSeenAt: string | null;
+  expiresAt: string;
+  current: boolean;
+}
+
+// Rough "Browser on OS" label; the raw user agent is shown as a tooltip
+function describeAgent(userAgent: string | null) {
+  if (!userAgent) return "Unknown device";
+  const browser =
+    /Edg\//.test(userAgent) ? "Edge"
+    : /Chrome\//.test(userAgent) ? "Chrome"
+    : /Firefox\//.test(userAgent) ? "Firefox"
+    : /Safari\//.test(userAgent) ? "Safari"
+    : "Browser";
+  const os =
+    /Android/.test(userAgent) ? "Android"
+    : /iPhone|iPad/.test(userAgent) ? "iOS"
+    : /Windows/.test(userAgent) ? "Windows"
+    : /Mac OS X/.test(userAgent) ? "macOS"
+    : /Linux/.test(userAgent) ? "Linux"
+    : "Unknown OS";
+  return `${browser} on ${os}`;
+}
+
+export function SessionsPanel() {
+  const { toast } = useToast();
+  const { logout } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: sessions = [], isLoading } = useQuery<SessionInfo[]>({
+    queryKey: ["/api/sessions"],
+    queryFn: async () => (await apiRequest("GET", "/api/sessions")).json(),
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest("DELETE", `/api/sessions/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+      toast({ title: "Session revoked", description: "That device has been signed out." });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const logoutEverywhereMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", "/api/sessions");
+      await logout();
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-xl font-semibold flex items-center gap-2">
+            <MonitorSmartphone className="w-5 h-5" />
+            Active Sessions
+          </CardTitle>
+          <Button
+            variant="outline"
+            className="h-10 px-4 text-red-500"
+            onClick={() => logoutEverywhereMutation.mutate()}
+            disabled={logoutEverywhereMutation.isPending}
+            data-testid="button-logout-everywhere"
+          >
+            <LogOut className="w-4 h-4 mr-2" />
+            Log out everywhere
+          </Button>
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-3">
+        {isLoading && <p className="text-sm text-muted-foreground">Loading sessions...</p>}
+
+        {sessions.map((s) => (
+          <div
+            key={s.id}
+            className="flex items-center justify-between border rounded-lg p-3 gap-4"
+          >
+            <div className="text-sm space-y-1">
+              <p className="font-medium flex items-center gap-2" title={s.userAgent ?? undefined}>
+                {describeAgent(s.userAgent)}
+                {s.current && <Badge>This device</Badge>}
+                {s.rememberMe && <Badge variant="outline">Remembered</Badge>}
+              </p>
+              <p className="text-muted-foreground">
+                IP {s.ip || "unknown"} · Signed in {new Date(s.createdAt).toLocaleString()}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                Last active {s.lastSeenAt ? new Date(s.lastSeenAt).toLocaleString() : "—"}
+              </p>
+            </div>
+
+            {!s.current && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => revokeMutation.mutate(s.id)}
+                disabled={revokeMutation.isPending}
+                aria-label="Revoke session"
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,249 @@
+import { useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ArrowDownUp, Download, Lock, Printer, Unlock } from "lucide-react";
+import { ShiftReport } from "@/components/shift-report";
+import { receiptPdf } from "@/components/receipt";
+import { cashDenominations, type CashMovementType, type Shift } from "@shared/schema";
+import { peso } from "@/lib/utils";
+import { apiJson } from "@/lib/queryClient";
+
+/**
+ * The drawer side of the POS: open a shift with a float, record cash in/out
+ * and close it with a denomination count. Expected cash and over/short are
+ * not shown until the closing report.
+ */
+export function ShiftControls({ shift }: { shift: Shift | null }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [openingFloat, setOpeningFloat] = useState("");
+  const [cashOpen, setCashOpen] = useState(false);
+  const [cashType, setCashType] = useState<CashMovementType>("out");
+  const [cashAmount, setCashAmount] = useState("");
+  const [cashReason, setCashReason] = useState("");
+  const [closeOpen, setCloseOpen] = useState(false);
+  const [counts, setCounts] = useState<Record<number, string>>({});
+  const [closingNote, setClosingNote] = useState("");
+  const [closedShift, setClosedShift] = useState<Shift | null>(null);
+  const [busy, setBusy] = useState(false);
+  const reportRef = useRef<HTMLDivElement>(null);
+
+  const counted = cashDenominations.reduce((sum, d) => sum + d * (Number(counts[d]) || 0), 0);
+
+  const run = async (work: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await work();
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const updateShift = (updated: Shift | null) => {
+    queryClient.setQueryData(["/api/shifts/current"], updated);
+    queryClient.invalidateQueries({ queryKey: ["/api/shifts"] });
+  };
+
+  const handleOpen = () =>
+    run(async () => {
+      const opened: Shift = await apiJson("POST", "/api/shifts", { openingFloat: Number(openingFloat) || 0 });
+      updateShift(opened);
+      setOpeningFloat("");
+      toast({ title: "Shift opened", description: `Shift #${opened.shiftNumber} with a ${peso(opened.openingFloat)} float` });
+    });
+
+  const handleCash = () =>
+    run(async () => {
+      const updated: Shift = await apiJson("POST", `/api/shifts/${shift!.id}/cash`, {
+        type: cashType,
+        amount: Number(cashAmount),
+        reason: cashReason,
+      });
+      updateShift(updated);
+      setCashOpen(false);
+      setCashAmount("");
+      setCashReason("");
+      toast({ title: cashType === "in" ? "Cash in recorded" : "Cash out recorded", description: peso(Number(cashAmount)) });
+    });
+
+  const handleClose = () =>
+    run(async () => {
+      const closed: Shift = await apiJson("POST", `/api/shifts/${shift!.id}/close`, {
+        counts: cashDenominations.map((denomination) => ({ denomination, count: Number(counts[denomination]) || 0 })),
+        note: closingNote || undefined,
+      });
+      updateShift(null);
+      setCloseOpen(false);
+      setCounts({});
+      setClosingNote("");
+      setClosedShift(closed);
+    });
+
+  const handlePdf = async (print: boolean) => {
+    if (!closedShift || !reportRef.current) return;
+    const pdf = await receiptPdf(reportRef.current);
+    if (print) {
+      pdf.autoPrint();
+      window.open(pdf.output("bloburl"), "_blank");
+    } else {
+      pdf.save(`shift-${closedShift.storeCode}-${closedShift.shiftNumber}.pdf`);
+    }
+  };
+
+  return (
+    <>
+      {shift ? (
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 rounded-md border bg-muted/40 px-4 py-2 text-sm">
+          <span data-testid="text-shift-status">
+            <Unlock className="inline w-4 h-4 mr-1" />
+            Shift #{shift.shiftNumber} opened by {shift.openedByUsername ?? "—"} at{" "}
+            {new Date(shift.openedAt).toLocaleTimeString("en-PH", { timeStyle: "short" })} · Float {peso(shift.openingFloat)}
+          </span>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => setCashOpen(true)} data-testid="button-cash-movement">
+              <ArrowDownUp className="w-4 h-4 mr-1" /> Cash In/Out
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setCloseOpen(true)} data-testid="button-close-shift">
+              <Lock className="w-4 h-4 mr-1" /> Close Shift
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <Card>
+          <CardContent className="pt-6 space-y-3">
+            <p className="text-sm text-muted-foreground">
+              No shift is open. Count the float into the drawer and open a shift to start selling.
+            </p>
+            <div className="flex flex-col sm:flex-row gap-2 sm:items-end">
+              <div className="space-y-1 flex-1">
+                <Label htmlFor="opening-float">Opening float</Label>
+                <Input
+                  id="opening-float"
+                  type="number"
+                  min={0}
+                  value={openingFloat}
+                  onChange={(e) => setOpeningFloat(e.target.value)}
+                  data-testid="input-opening-float"
+                />
+              </div>
+              <Button onClick={handleOpen} disabled={busy} data-testid="button-open-shift">
+                <Unlock className="w-4 h-4 mr-2" /> Open Shift
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={cashOpen} onOpenChange={setCashOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Cash In / Out</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3">
+            <Select value={cashType} onValueChange={(value) => setCashType(value as CashMovementType)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="out">Cash out (petty cash, supplier COD)</SelectItem>
+                <SelectItem value="in">Cash in</SelectItem>
+              </SelectContent>
+            </Select>
+            <div className="space-y-1">
+              <Label htmlFor="cash-amount">Amount</Label>
+              <Input id="cash-amount" type="number" min={0} value={cashAmount} onChange={(e) => setCashAmount(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="cash-reason">Reason</Label>
+              <Input
+                id="cash-reason"
+                maxLength={200}
+                placeholder="e.g. COD for cement delivery"
+                value={cashReason}
+                onChange={(e) => setCashReason(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCashOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleCash} disabled={busy || !(Number(cashAmount) > 0) || !cashReason.trim()}>
+              Record
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={closeOpen} onOpenChange={setCloseOpen}>
+        <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Close Shift #{shift?.shiftNumber}</DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-muted-foreground">Count everything in the drawer, including the float.</p>
+          <div className="grid grid-cols-2 gap-2">
+            {cashDenominations.map((denomination) => (
+              <div key={denomination} className="flex items-center gap-2">
+                <Label htmlFor={`count-${denomination}`} className="w-16 text-right">
+                  {peso(denomination)}
+                </Label>
+                <Input
+                  id={`count-${denomination}`}
+                  type="number"
+                  min={0}
+                  step={1}
+                  value={counts[denomination] ?? ""}
+                  onChange={(e) => setCounts((prev) => ({ ...prev, [denomination]: e.target.value }))}
+                />
+              </div>
+            ))}
+          </div>
+          <p className="text-right font-semibold">Counted: {peso(counted)}</p>
+          <div className="space-y-1">
+            <Label htmlFor="closing-note">Note</Label>
+            <Input id="closing-note" maxLength={500} value={closingNote} onChange={(e) => setClosingNote(e.target.value)} />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCloseOpen(false)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleClose} disabled={busy} data-testid="button-confirm-close-shift">
+              Close Shift
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!closedShift} onOpenChange={(open) => !open && setClosedShift(null)}>
+        <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Shift #{closedShift?.shiftNumber} closed</DialogTitle>
+          </DialogHeader>
+          {closedShift && <ShiftReport ref={reportRef} shift={closedShift} />}
+          <DialogFooter className="gap-2">
+            <Button variant="outline" onClick={() => handlePdf(false)}>
+              <Download className="w-4 h-4 mr-2" /> PDF
+            </Button>
+            <Button onClick={() => handlePdf(true)}>
+              <Printer className="w-4 h-4 mr-2" /> Print
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,135 @@
+import { forwardRef } from "react";
+import type { Shift } from "@shared/schema";
+import { peso } from "@/lib/utils";
+
+const when = (date: Date | string) =>
+  new Date(date).toLocaleString("en-PH", { dateStyle: "medium", timeStyle: "short" });
+
+/**
+ * The printed drawer reconciliation for a shift, receipt-sized like the
+ * receipt. Expected cash and over/short only exist once the shift is closed.
+ */
+export const ShiftReport = forwardRef<HTMLDivElement, { shift: Shift }>(function ShiftReport({ shift }, ref) {
+  const closed = shift.status === "closed";
+  const overShort = shift.overShort ?? 0;
+
+  return (
+    <div
+      ref={ref}
+      className="font-mono text-sm bg-white text-black p-4 sm:p-6 rounded-md border border-gray-300"
+      data-testid={`shift-report-${shift.shiftNumber}`}
+    >
+      <h2 className="text-center font-bold text-lg mb-1">BLCM Hardware</h2>
+      <p className="text-center font-bold tracking-widest border-y border-black py-1 my-2">
+        SHIFT {closed ? "CLOSING" : "STATUS"} REPORT
+      </p>
+      <div className="text-xs space-y-0.5 mb-2">
+        <div>
+          Shift #{shift.shiftNumber} · {shift.storeCode}
+        </div>
+        <div>
+          Opened: {when(shift.openedAt)} by {shift.openedByUsername ?? "—"}
+        </div>
+        {shift.closedAt && (
+          <div>
+            Closed: {when(shift.closedAt)} by {shift.closedByUsername ?? "—"}
+          </div>
+        )}
+        <div>Transactions: {shift.transactionCount}</div>
+      </div>
+      <hr className="my-2 border-gray-400" />
+      <table className="w-full text-xs">
+        <tbody>
+          <tr>
+            <td>Opening float</td>
+            <td className="text-right">{peso(shift.openingFloat)}</td>
+          </tr>
+          <tr>
+            <td>Cash sales</td>
+            <td className="text-right">{peso(shift.cashSales)}</td>
+          </tr>
+          <tr>
+            <td>Cash refunds</td>
+            <td className="text-right">-{peso(shift.cashRefunds)}</td>
+          </tr>
+          <tr>
+            <td>Cash in</td>
+            <td className="text-right">{peso(shift.cashIn)}</td>
+          </tr>
+          <tr>
+            <td>Cash out</td>
+            <td className="text-right">-{peso(shift.cashOut)}</td>
+          </tr>
+          {closed && (
+            <>
+              <tr className="border-t border-gray-400 font-bold">
+                <td className="pt-1">Expected cash</td>
+                <td className="text-right pt-1">{peso(shift.expectedCash ?? 0)}</td>
+              </tr>
+              <tr className="font-bold">
+                <td>Counted cash</td>
+                <td className="text-right">{peso(shift.countedCash ?? 0)}</td>
+              </tr>
+              <tr className="font-bold">
+                <td>{overShort > 0 ? "Over" : overShort < 0 ? "Short" : "Over/Short"}</td>
+                <td className="text-right">{peso(Math.abs(overShort))}</td>
+              </tr>
+            </>
+          )}
+        </tbody>
+      </table>
+
+      {shift.cashMovements.length > 0 && (
+        <>
+          <hr className="my-2 border-gray-400" />
+          <p className="text-xs font-bold mb-1">Cash in / out</p>
+          <table className="w-full text-xs">
+            <tbody>
+              {shift.cashMovements.map((movement, index) => (
+                <tr key={index}>
+                  <td>
+                    {movement.reason}
+                    <span className="block text-[10px]">
+                      {when(movement.createdAt)} · {movement.username ?? "—"}
+                    </span>
+                  </td>
+                  <td className="text-right align-top">
+                    {movement.type === "out" ? "-" : ""}
+                    {peso(movement.amount)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+
+      {shift.denominations && shift.denominations.length > 0 && (
+        <>
+          <hr className="my-2 border-gray-400" />
+          <p className="text-xs font-bold mb-1">Denomination count</p>
+          <table className="w-full text-xs">
+            <tbody>
+              {shift.denominations.map(({ denomination, count }) => (
+                <tr key={denomination}>
+                  <td>{peso(denomination)}</td>
+                  <td className="text-center">× {count}</td>
+                  <td className="text-right">{peso(denomination * count)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+
+      {shift.closingNote && <p className="text-xs mt-2">Note: {shift.closingNote}</p>}
+
+      {closed && (
+        <div className="mt-8 text-xs grid grid-cols-2 gap-6">
+          <div className="border-t border-black pt-1 text-center">Cashier</div>
+          <div className="border-t border-black pt-1 text-center">Verified by</div>
+        </div>
+      )}
+    </div>
+  );
+});
@@ -0,0 +1,145 @@
+import { useQuery } from "@tanstack/react-query";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Select,
+  SelectTrigger,
+  SelectValue,
+  SelectContent,
+  SelectItem,
+} from "@/components/ui/select";
+import { History } from "lucide-react";
+import { BASE_API_URL } from "@/api";
+import type { Product, StockMovement, StockMovementType } from "@shared/schema";
+
+const movementLabels: Record<StockMovementType, string> = {
+  sale: "Sale",
+  manual_edit: "Manual edit",
+  receipt: "Receipt",
+  adjustment: "Adjustment",
+  return: "Return",
+};
+
+const chartConfig = {
+  balance: { label: "On stock", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+interface StockHistoryProps {
+  products: Product[];
+  productId: string | null;
+  onProductChange: (id: string) => void;
+}
+
+/**
+ * A product's stock ledger: every quantity change with the balance it left,
+ * charted oldest to newest and listed newest first
+ */
+export function StockHistory({ products, productId, onProductChange }: StockHistoryProps) {
+  const { data, isLoading, error } = useQuery<{ movements: StockMovement[]; total: number }>({
+    queryKey: ["/api/products", productId, "movements"],
+    queryFn: async () => {
+      const res = await fetch(`${BASE_API_URL}/api/products/${encodeURIComponent(productId!)}/movements?pageSize=500`, {
+        credentials: "include",
+        cache: "no-store",
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(body.message || "Failed to load stock history");
+      return body;
+    },
+    enabled: !!productId,
+    staleTime: 0,
+  });
+
+  const movements = data?.movements ?? [];
+  const points = [...movements].reverse().map((m) => ({
+    at: new Date(m.createdAt).toLocaleDateString(),
+    balance: m.balance,
+  }));
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <History className="w-5 h-5" />
+          Stock History
+        </CardTitle>
+        <Select value={productId ?? ""} onValueChange={onProductChange}>
+          <SelectTrigger className="w-full sm:w-[260px]" data-testid="select-history-product">
+            <SelectValue placeholder="Choose a product" />
+          </SelectTrigger>
+          <SelectContent>
+            {products.map((p) => (
+              <SelectItem key={p.id} value={p.id}>
+                {p.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {!productId ? (
+          <p className="text-center py-8 text-muted-foreground">Choose a product to see its stock movements.</p>
+        ) : isLoading ? (
+          <p className="text-center py-8">Loading stock history...</p>
+        ) : error ? (
+          <p className="text-center py-8 text-red-500">{(error as Error).message}</p>
+        ) : movements.length === 0 ? (
+          <p className="text-center py-8 text-muted-foreground">No stock movements recorded yet.</p>
+        ) : (
+          <>
+            <ChartContainer config={chartConfig} className="h-[220px] w-full">
+              <LineChart data={points} margin={{ left: 4, right: 12 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="at" tickLine={false} axisLine={false} minTickGap={24} />
+                <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={40} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Line dataKey="balance" type="stepAfter" stroke="var(--color-balance)" strokeWidth={2} dot={false} />
+              </LineChart>
+            </ChartContainer>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>When</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead className="text-right">Change</TableHead>
+                  <TableHead className="text-right">Balance</TableHead>
+                  <TableHead>Reference</TableHead>
+                  <TableHead>By</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {movements.map((m) => (
+                  <TableRow key={m.id} data-testid={`row-movement-${m.id}`}>
+                    <TableCell className="whitespace-nowrap">{new Date(m.createdAt).toLocaleString()}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{movementLabels[m.type as StockMovementType] ?? m.type}</Badge>
+                    </TableCell>
+                    <TableCell className={`text-right font-mono ${m.delta < 0 ? "text-red-500" : "text-green-600"}`}>
+                      {m.delta > 0 ? `+${m.delta}` : m.delta}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">{m.balance}</TableCell>
+                    <TableCell className="text-xs">
+                      {m.reference && <span className="font-mono">{m.reference}</span>}
+                      {m.note && <span className="block text-muted-foreground">{m.note}</span>}
+                      {!m.reference && !m.note && "—"}
+                    </TableCell>
+                    <TableCell>{m.username ?? "—"}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            {data && data.total > movements.length && (
+              <p className="text-xs text-muted-foreground">
+                Showing the latest {movements.length} of {data.total} movements.
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
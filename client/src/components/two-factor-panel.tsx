@@ -0,0 +1,254 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { Download, ShieldCheck } from "lucide-react";
+import { BASE_API_URL } from "@/api";
+import { apiJson } from "@/lib/queryClient";
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  enabledAt: string | null;
+  recoveryCodesRemaining: number;
+}
+
+interface SetupData {
+  secret: string;
+  otpauthUri: string;
+  qrCode: string;
+}
+
+// Actions on an enrolled account that need a fresh code first
+type ConfirmAction = "recovery-codes" | "disable";
+
+function CodeInput({ value, onChange }: { value: string; onChange: (value: string) => void }) {
+  return (
+    <InputOTP maxLength={6} value={value} onChange={onChange}>
+      <InputOTPGroup>
+        {[0, 1, 2, 3, 4, 5].map((i) => (
+          <InputOTPSlot key={i} index={i} />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
+
+/**
+ * Authenticator-app (TOTP) enrollment for admin and staff accounts:
+ * setup via QR code, recovery codes, and disabling when the role allows it
+ */
+export function TwoFactorPanel() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [setup, setSetup] = useState<SetupData | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [confirmAction, setConfirmAction] = useState<ConfirmAction | null>(null);
+  const [code, setCode] = useState("");
+  const [recoveryCode, setRecoveryCode] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/2fa"],
+    queryFn: async () => {
+      const res = await fetch(`${BASE_API_URL}/api/2fa`, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to load two-factor status");
+      return res.json();
+    },
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/2fa"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/me"] });
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    } finally {
+      setCode("");
+      setRecoveryCode("");
+      setBusy(false);
+    }
+  };
+
+  const startSetup = () =>
+    run(async () => {
+      setSetup(await apiJson("POST", "/api/2fa/setup"));
+    });
+
+  const confirmSetup = () =>
+    run(async () => {
+      const data = await apiJson("POST", "/api/2fa/enable", { code });
+      setSetup(null);
+      setRecoveryCodes(data.recoveryCodes);
+      refresh();
+      toast({ title: "Two-factor enabled", description: "Save your recovery codes somewhere safe." });
+    });
+
+  const confirm = () =>
+    run(async () => {
+      const body = recoveryCode.trim() ? { recoveryCode: recoveryCode.trim() } : { code };
+      const data = await apiJson("POST", `/api/2fa/${confirmAction}`, body);
+      if (confirmAction === "recovery-codes") {
+        setRecoveryCodes(data.recoveryCodes);
+      } else {
+        toast({ title: "Two-factor disabled", description: data.message });
+      }
+      setConfirmAction(null);
+      refresh();
+    });
+
+  const downloadRecoveryCodes = () => {
+    if (!recoveryCodes) return;
+    const url = URL.createObjectURL(new Blob([recoveryCodes.join("\n")], { type: "text/plain" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "recovery-codes.txt";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-xl font-semibold flex items-center gap-2">
+          <ShieldCheck className="w-5 h-5" />
+          Two-Factor Authentication
+          {status?.enabled && <Badge>On</Badge>}
+          {status?.required && <Badge variant="outline">Required</Badge>}
+        </CardTitle>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {isLoading && <p className="text-sm text-muted-foreground">Loading...</p>}
+
+        {status?.required && !status.enabled && (
+          <div className="bg-destructive/10 border border-destructive/20 text-destructive rounded-lg p-3 text-sm">
+            Your role requires two-factor authentication. Set it up to continue using the system.
+          </div>
+        )}
+
+        {recoveryCodes && (
+          <div className="border rounded-lg p-4 space-y-3">
+            <p className="text-sm font-medium">
+              Recovery codes — each works once if you lose your authenticator. They won't be shown again.
+            </p>
+            <div className="grid grid-cols-2 gap-2 font-mono text-sm" data-testid="recovery-codes">
+              {recoveryCodes.map((c) => (
+                <span key={c}>{c}</span>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={downloadRecoveryCodes}>
+                <Download className="w-4 h-4 mr-1" />
+                Download
+              </Button>
+              <Button size="sm" onClick={() => setRecoveryCodes(null)}>
+                I've saved them
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {status && !status.enabled && !setup && (
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-sm text-muted-foreground">
+              Protect your account with a code from an authenticator app at every login.
+            </p>
+            <Button onClick={startSetup} disabled={busy} data-testid="button-setup-2fa">
+              Set up
+            </Button>
+          </div>
+        )}
+
+        {setup && (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Scan this QR code with Google Authenticator, Microsoft Authenticator or a similar app,
+              then enter the 6-digit code it shows.
+            </p>
+            <img src={setup.qrCode} alt="Two-factor QR code" className="w-44 h-44 mx-auto" />
+            <p className="text-xs text-center text-muted-foreground">
+              Can't scan? Enter this key manually:
+              <span className="block font-mono text-sm text-foreground break-all mt-1">{setup.secret}</span>
+            </p>
+            <div className="flex justify-center">
+              <CodeInput value={code} onChange={setCode} />
+            </div>
+            <div className="flex justify-center gap-2">
+              <Button variant="outline" onClick={() => setSetup(null)} disabled={busy}>
+                Cancel
+              </Button>
+              <Button onClick={confirmSetup} disabled={busy || code.length !== 6} data-testid="button-enable-2fa">
+                Enable
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {status?.enabled && !confirmAction && (
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+            <p className="text-sm text-muted-foreground">
+              Enabled{status.enabledAt ? ` since ${new Date(status.enabledAt).toLocaleDateString()}` : ""} ·{" "}
+              {status.recoveryCodesRemaining} recovery code(s) left
+            </p>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={() => setConfirmAction("recovery-codes")}>
+                New recovery codes
+              </Button>
+              {!status.required && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="text-red-500"
+                  onClick={() => setConfirmAction("disable")}
+                >
+                  Disable
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {confirmAction && (
+          <div className="space-y-3">
+            <p className="text-sm text-muted-foreground">
+              {confirmAction === "disable"
+                ? "Enter a code from your authenticator app (or a recovery code) to disable two-factor authentication."
+                : "Enter a code from your authenticator app (or a recovery code) to replace your recovery codes."}
+            </p>
+            <div className="flex justify-center">
+              <CodeInput value={code} onChange={setCode} />
+            </div>
+            <Input
+              placeholder="or a recovery code"
+              value={recoveryCode}
+              onChange={(e) => setRecoveryCode(e.target.value)}
+              className="font-mono"
+            />
+            <div className="flex justify-center gap-2">
+              <Button variant="outline" onClick={() => setConfirmAction(null)} disabled={busy}>
+                Cancel
+              </Button>
+              <Button
+                variant={confirmAction === "disable" ? "destructive" : "default"}
+                onClick={confirm}
+                disabled={busy || (code.length !== 6 && !recoveryCode.trim())}
+              >
+                Confirm
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
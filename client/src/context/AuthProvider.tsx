@@ -1,12 +1,24 @@
 import { createContext, useContext, ReactNode } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { BASE_API_URL } from "@/api";
-import { User } from "@shared/schema";
+import { apiJson } from "@/lib/queryClient";
+import type { CurrentUser, Permission, TwoFactorVerifyRequest } from "@shared/schema";
+
+interface LoginResult {
+  // Password accepted; finish with verifyTwoFactor
+  twoFactorRequired: boolean;
+}
 
 interface AuthContextType {
-  user: User | null;
-  login: (username: string, password: string) => Promise<void>;
+  user: CurrentUser | null;
+  // Whether the signed-in user's role grants `permission` (from /api/me)
+  can: (permission: Permission) => boolean;
+  login: (username: string, password: string, rememberMe?: boolean) => Promise<LoginResult>;
+  verifyTwoFactor: (input: TwoFactorVerifyRequest) => Promise<void>;
   logout: () => Promise<void>;
+  // Admin "view as": switches the session to another account and back
+  impersonate: (userId: string) => Promise<void>;
+  stopImpersonating: () => Promise<void>;
   isLoading: boolean;
   isLoginPending: boolean;
   loginError: Error | null;
@@ -18,7 +30,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const queryClient = useQueryClient();
 
   // Fetch current user
-  const { data: user, isLoading } = useQuery<User | null>({
+  const { data: user, isLoading } = useQuery<CurrentUser | null>({
     queryKey: ["/api/me"],
     queryFn: async () => {
       try {
@@ -37,16 +49,52 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   // Login mutation
   const loginMutation = useMutation({
-    mutationFn: async ({ username, password }: { username: string; password: string }) => {
+    mutationFn: async ({
+      username,
+      password,
+      rememberMe,
+    }: {
+      username: string;
+      password: string;
+      rememberMe?: boolean;
+    }) => {
       const res = await fetch(`${BASE_API_URL}/api/login`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         credentials: "include",
-        body: JSON.stringify({ username, password }),
+        body: JSON.stringify({ username, password, rememberMe }),
       });
 
       const data = await res.json();
-      if (!res.ok) throw new Error(data.message || "Login failed");
+      if (!res.ok) {
+        // Keep the response body so pages can react to flags like emailVerificationRequired
+        const error: any = new Error(data.message || "Login failed");
+        error.details = data;
+        throw error;
+      }
+      return data;
+    },
+    onSuccess: (data) => {
+      if (data.user) queryClient.setQueryData(["/api/me"], data.user);
+    },
+  });
+
+  // Second login step for accounts with 2FA; the pending session lives in the cookie
+  const twoFactorMutation = useMutation({
+    mutationFn: async (input: TwoFactorVerifyRequest) => {
+      const res = await fetch(`${BASE_API_URL}/api/login/2fa`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify(input),
+      });
+
+      const data = await res.json();
+      if (!res.ok) {
+        const error: any = new Error(data.message || "Verification failed");
+        error.details = data;
+        throw error;
+      }
       return data;
     },
     onSuccess: (data) => {
@@ -67,22 +115,49 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     },
   });
 
-  const login = async (username: string, password: string) => {
-    await loginMutation.mutateAsync({ username, password });
+  // Everything cached so far belongs to the other account, so refetch it all
+  const switchUser = (next: CurrentUser | null) => {
+    queryClient.setQueryData(["/api/me"], next);
+    queryClient.invalidateQueries({ predicate: (query) => query.queryKey[0] !== "/api/me" });
+  };
+
+  const impersonate = async (userId: string) => {
+    const data = await apiJson("POST", `/api/admin/accounts/${userId}/impersonate`);
+    switchUser(data.user);
+  };
+
+  const stopImpersonating = async () => {
+    const data = await apiJson("POST", "/api/impersonation/stop");
+    switchUser(data.user ?? null);
+  };
+
+  const login = async (username: string, password: string, rememberMe = false) => {
+    const data = await loginMutation.mutateAsync({ username, password, rememberMe });
+    return { twoFactorRequired: !!data.twoFactorRequired };
+  };
+
+  const verifyTwoFactor = async (input: TwoFactorVerifyRequest) => {
+    await twoFactorMutation.mutateAsync(input);
   };
 
   const logout = async () => {
     await logoutMutation.mutateAsync();
   };
 
+  const can = (permission: Permission) => !!user?.permissions?.includes(permission);
+
   return (
     <AuthContext.Provider
       value={{
         user: user ?? null,
+        can,
         login,
+        verifyTwoFactor,
         logout,
+        impersonate,
+        stopImpersonating,
         isLoading,
-        isLoginPending: loginMutation.isPending, // ✅ fixed
+        isLoginPending: loginMutation.isPending || twoFactorMutation.isPending, // ✅ fixed
         loginError: (loginMutation.error as Error) ?? null,
       }}
     >
@@ -8,22 +8,34 @@ import { QueryClient, QueryFunction } from "@tanstack/react-query";
     }
   }
 
-  export async function apiRequest(
-    method: string,
-    url: string,
-    data?: unknown | undefined,
-  ): Promise<Response> {
-    const res = await fetch(`${BASE_API_URL}${url}`, {
+  function send(method: string, url: string, data?: unknown) {
+    return fetch(`${BASE_API_URL}${url}`, {
       method,
       headers: data ? { "Content-Type": "application/json" } : {},
       body: data ? JSON.stringify(data) : undefined,
       credentials: "include",
     });
+  }
+
+  export async function apiRequest(
+    method: string,
+    url: string,
+    data?: unknown | undefined,
+  ): Promise<Response> {
+    const res = await send(method, url, data);
 
     await throwIfResNotOk(res);
     return res;
   }
 
+  /** Like apiRequest, but returns the parsed body and throws the server's `message` on failure. */
+  export async function apiJson<T = any>(method: string, url: string, data?: unknown): Promise<T> {
+    const res = await send(method, url, data);
+    const body = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(body.message || "Request failed");
+    return body;
+  }
+
   type UnauthorizedBehavior = "returnNull" | "throw";
   export const getQueryFn: <T>(options: {
     on401: UnauthorizedBehavior;
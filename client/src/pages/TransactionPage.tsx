@@ -1,12 +1,20 @@
 import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { useToast } from "@/hooks/use-toast";
-import { DollarSign, Printer, ArrowLeft } from "lucide-react";
+import { DollarSign, Printer, ArrowLeft, Percent, UserCheck } from "lucide-react";
 import { useLocation } from "wouter";
-import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog"; // Add a Dialog component
+import { BASE_API_URL } from "@/api";
+import { Receipt } from "@/components/receipt";
+import { ShiftControls } from "@/components/shift-controls";
+import { PaymentDialog } from "@/components/payment-dialog";
+import { DiscountDialog, SeniorPwdDialog } from "@/components/discount-dialog";
+import { useAuth } from "@/context/AuthProvider";
+import type { DiscountRequest, SeniorPwd, Shift, TenderRequest, Transaction, TransactionItem } from "@shared/schema";
+import { peso } from "@/lib/utils";
 
 interface Product {
   id: string;
@@ -14,19 +22,72 @@ interface Product {
   price: number;
   quantity: number;
   purchaseQty?: number;
+  discount?: DiscountRequest;
+}
+
+// What POST /api/sales/quote answers with
+interface Quote {
+  items: TransactionItem[];
+  subtotal: number;
+  discountTotal: number;
+  vatExemption: number;
+  total: number;
 }
 
 export default function TransactionPage() {
   const [productId, setProductId] = useState("");
   const [cart, setCart] = useState<Product[]>([]);
-  const [isPaid, setIsPaid] = useState(false);
-  const [cashGiven, setCashGiven] = useState<number | "">("");
-  const [showCashModal, setShowCashModal] = useState(false);
+  // The server's record of the sale; the receipt renders from this alone
+  const [receipt, setReceipt] = useState<Transaction | null>(null);
+  const [showPayment, setShowPayment] = useState(false);
+  const [paying, setPaying] = useState(false);
+  const [saleDiscount, setSaleDiscount] = useState<DiscountRequest>();
+  const [seniorPwd, setSeniorPwd] = useState<SeniorPwd>();
+  // The cart line being discounted, or "sale" for the whole sale
+  const [discounting, setDiscounting] = useState<string | null>(null);
+  const [showSeniorPwd, setShowSeniorPwd] = useState(false);
+  const { can } = useAuth();
   const { toast } = useToast();
   const [, setLocation] = useLocation();
+  const queryClient = useQueryClient();
+
+  // Sales need an open shift; the server refuses them otherwise
+  const { data: shift = null, isLoading: shiftLoading } = useQuery<Shift | null>({
+    queryKey: ["/api/shifts/current"],
+    queryFn: async () => {
+      const res = await fetch(`${BASE_API_URL}/api/shifts/current`, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch the current shift");
+      return res.json();
+    },
+  });
+
+  const sale = {
+    items: cart.map((item) => ({ id: item.id, quantity: item.purchaseQty || 1, discount: item.discount })),
+    discount: saleDiscount,
+    seniorPwd,
+  };
+
+  // The server prices the cart so promotions and discounts match the receipt exactly
+  const { data: quote, error: quoteError } = useQuery<Quote>({
+    queryKey: ["/api/sales/quote", sale],
+    queryFn: async () => {
+      const res = await fetch(`${BASE_API_URL}/api/sales/quote`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify(sale),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.message || "Failed to price sale");
+      return data;
+    },
+    enabled: cart.length > 0 && !receipt,
+    placeholderData: (previous) => previous,
+    retry: false,
+  });
 
   const fetchProduct = async (id: string): Promise<Product> => {
-    const res = await fetch(`/api/products/${id}`);
+    const res = await fetch(`${BASE_API_URL}/api/products/${encodeURIComponent(id)}`, { credentials: "include" });
     if (!res.ok) throw new Error("Product not found");
     return res.json();
   };
@@ -62,18 +123,23 @@ export default function TransactionPage() {
     );
   };
 
-  const deductStock = async () => {
-    try {
-      for (const item of cart) {
-        await fetch(`/api/products/${item.id}/deduct`, {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ quantity: item.purchaseQty || 1 }),
-        });
-      }
-    } catch (error) {
-      console.error("Stock deduction error:", error);
-    }
+  const applyDiscount = (discount: DiscountRequest | undefined) => {
+    if (discounting === "sale") setSaleDiscount(discount);
+    else setCart((prev) => prev.map((item) => (item.id === discounting ? { ...item, discount } : item)));
+    setDiscounting(null);
+  };
+
+  // One request for the whole cart: the server deducts every line or none
+  const checkout = async (tenders: TenderRequest[]) => {
+    const res = await fetch(`${BASE_API_URL}/api/sales`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      credentials: "include",
+      body: JSON.stringify({ ...sale, tenders }),
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(data.message || "Failed to complete sale");
+    return data.transaction as Transaction;
   };
 
   const handlePayClick = () => {
@@ -85,52 +151,57 @@ export default function TransactionPage() {
       });
       return;
     }
-    setShowCashModal(true);
+    setShowPayment(true);
   };
 
-  const handleConfirmPayment = async () => {
-    if (typeof cashGiven !== "number" || cashGiven < total) {
+  const handleConfirmPayment = async (tenders: TenderRequest[]) => {
+    let transaction: Transaction;
+    setPaying(true);
+    try {
+      transaction = await checkout(tenders);
+    } catch (error: any) {
+      // The shift may have been closed from another till
+      queryClient.invalidateQueries({ queryKey: ["/api/shifts/current"] });
       toast({
-        title: "Invalid Amount",
-        description: "Cash given must be greater than or equal to total",
+        title: "Payment Failed",
+        description: `${error.message}. No stock was deducted.`,
         variant: "destructive",
       });
       return;
+    } finally {
+      setPaying(false);
     }
-
-    await deductStock();
-    setIsPaid(true);
-    setShowCashModal(false);
+    setReceipt(transaction);
+    setShowPayment(false);
+    queryClient.invalidateQueries({ queryKey: ["/api/shifts/current"] });
     toast({
       title: "Payment Successful",
-      description: "Transaction completed — receipt ready.",
+      description: `Receipt ${transaction.receiptNumber} is ready.`,
     });
   };
 
   const handlePrint = () => window.print();
   const handleReset = () => {
     setCart([]);
-    setIsPaid(false);
-    setCashGiven("");
+    setReceipt(null);
+    setSaleDiscount(undefined);
+    setSeniorPwd(undefined);
   };
 
-  const total = cart.reduce(
-    (sum, item) => sum + item.price * (item.purchaseQty || 1),
-    0
-  );
-  const change = cashGiven === "" ? 0 : Number(cashGiven) - total;
-  const transactionId = Math.floor(100000 + Math.random() * 900000);
-  const date = new Date().toLocaleString("en-PH", {
-    dateStyle: "medium",
-    timeStyle: "short",
-  });
+  const canDiscount = can("sale.discount");
+  const lineOf = (index: number) => (quote?.items.length === cart.length ? quote.items[index] : undefined);
 
   return (
     <div className="container mx-auto px-4 py-6">
+      {!shiftLoading && (
+        <div className="max-w-3xl mx-auto mb-4">
+          <ShiftControls shift={shift} />
+        </div>
+      )}
       <Card className="max-w-3xl mx-auto shadow-lg">
         <CardHeader className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-2 sm:gap-0">
           <CardTitle>Create New Transaction</CardTitle>
-          {isPaid && (
+          {receipt && (
             <div className="flex flex-col sm:flex-row gap-2 w-full sm:w-auto">
               <Button onClick={handlePrint} variant="outline" size="sm">
                 <Printer className="w-4 h-4 mr-2" /> Print
@@ -150,7 +221,7 @@ export default function TransactionPage() {
         </CardHeader>
 
         <CardContent>
-          {!isPaid ? (
+          {!receipt ? (
             <>
               <div className="flex flex-col sm:flex-row gap-2 mb-4">
                 <Input
@@ -172,10 +243,11 @@ export default function TransactionPage() {
                         <TableHead>Name</TableHead>
                         <TableHead className="text-center">Qty</TableHead>
                         <TableHead className="text-right">Subtotal</TableHead>
+                        {canDiscount && <TableHead className="w-12" />}
                       </TableRow>
                     </TableHeader>
                     <TableBody>
-                      {cart.map((item) => (
+                      {cart.map((item, index) => (
                         <TableRow key={item.id}>
                           <TableCell>{item.id}</TableCell>
                           <TableCell>{item.name}</TableCell>
@@ -192,24 +264,54 @@ export default function TransactionPage() {
                             />
                           </TableCell>
                           <TableCell className="text-right">
-                            ₱
-                            {(item.price * (item.purchaseQty || 1)).toLocaleString(
-                              "en-PH",
-                              { minimumFractionDigits: 2 }
-                            )}
+                            {peso(item.price * (item.purchaseQty || 1))}
+                            {lineOf(index)?.discounts.map((discount, i) => (
+                              <span key={i} className="block text-xs text-green-600">
+                                {discount.label} −{peso(discount.amount)}
+                              </span>
+                            ))}
                           </TableCell>
+                          {canDiscount && (
+                            <TableCell>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                disabled={!!seniorPwd}
+                                onClick={() => setDiscounting(item.id)}
+                                aria-label="Discount line"
+                              >
+                                <Percent className="w-4 h-4" />
+                              </Button>
+                            </TableCell>
+                          )}
                         </TableRow>
                       ))}
+                      {quote && quote.discountTotal > 0 && (
+                        <>
+                          <TableRow>
+                            <TableCell colSpan={3} className="text-right">
+                              Subtotal
+                            </TableCell>
+                            <TableCell className="text-right">{peso(quote.subtotal)}</TableCell>
+                            {canDiscount && <TableCell />}
+                          </TableRow>
+                          <TableRow>
+                            <TableCell colSpan={3} className="text-right">
+                              Discounts
+                            </TableCell>
+                            <TableCell className="text-right text-green-600">−{peso(quote.discountTotal)}</TableCell>
+                            {canDiscount && <TableCell />}
+                          </TableRow>
+                        </>
+                      )}
                       <TableRow>
                         <TableCell colSpan={3} className="font-bold text-right">
                           Total
                         </TableCell>
                         <TableCell className="text-right font-bold">
-                          ₱
-                          {total.toLocaleString("en-PH", {
-                            minimumFractionDigits: 2,
-                          })}
+                          {quote ? peso(quote.total) : "—"}
                         </TableCell>
+                        {canDiscount && <TableCell />}
                       </TableRow>
                     </TableBody>
                   </Table>
@@ -220,9 +322,33 @@ export default function TransactionPage() {
                 </p>
               )}
 
+              {quoteError && (
+                <p className="text-sm text-destructive mt-2">{(quoteError as Error).message}</p>
+              )}
+
               <div className="flex flex-col sm:flex-row justify-end mt-4 gap-2">
+                {canDiscount && (
+                  <Button
+                    variant="outline"
+                    disabled={cart.length === 0 || !!seniorPwd}
+                    onClick={() => setDiscounting("sale")}
+                    className="gap-2 w-full sm:w-auto"
+                  >
+                    <Percent className="w-4 h-4" /> {saleDiscount ? "Edit" : "Sale"} Discount
+                  </Button>
+                )}
                 <Button
+                  variant={seniorPwd ? "secondary" : "outline"}
                   disabled={cart.length === 0}
+                  onClick={() => setShowSeniorPwd(true)}
+                  className="gap-2 w-full sm:w-auto"
+                  data-testid="button-senior-pwd"
+                >
+                  <UserCheck className="w-4 h-4" />
+                  {seniorPwd ? `${seniorPwd.kind === "senior" ? "Senior" : "PWD"}: ${seniorPwd.name}` : "Senior / PWD"}
+                </Button>
+                <Button
+                  disabled={cart.length === 0 || !shift || !quote || !!quoteError}
                   onClick={handlePayClick}
                   className="gap-2 w-full sm:w-auto"
                 >
@@ -231,105 +357,37 @@ export default function TransactionPage() {
               </div>
 
               {/* Payment Modal */}
-              <Dialog open={showCashModal} onOpenChange={setShowCashModal}>
-                <DialogContent>
-                  <DialogHeader>
-                    <DialogTitle>Enter Cash Received</DialogTitle>
-                  </DialogHeader>
-                  <div className="mt-2">
-                    <Input
-                      type="number"
-                      placeholder="Cash given"
-                      value={cashGiven}
-                      min={total}
-                      onChange={(e) =>
-                        setCashGiven(e.target.value === "" ? "" : Number(e.target.value))
-                      }
-                      className="h-10 w-full"
-                    />
-                    <p className="text-sm mt-1 text-muted-foreground">
-                      Total: ₱{total.toLocaleString("en-PH", { minimumFractionDigits: 2 })}
-                    </p>
-                  </div>
-                  <DialogFooter className="mt-4 flex justify-end gap-2">
-                    <Button variant="outline" onClick={() => setShowCashModal(false)}>
-                      Cancel
-                    </Button>
-                    <Button onClick={handleConfirmPayment}>Confirm</Button>
-                  </DialogFooter>
-                </DialogContent>
-              </Dialog>
+              <PaymentDialog
+                open={showPayment}
+                total={quote?.total ?? 0}
+                busy={paying}
+                onOpenChange={setShowPayment}
+                onConfirm={handleConfirmPayment}
+              />
+              <DiscountDialog
+                title={
+                  discounting === "sale"
+                    ? "Discount the whole sale"
+                    : discounting
+                      ? `Discount ${cart.find((item) => item.id === discounting)?.name ?? "line"}`
+                      : null
+                }
+                current={discounting === "sale" ? saleDiscount : cart.find((item) => item.id === discounting)?.discount}
+                onClose={() => setDiscounting(null)}
+                onApply={applyDiscount}
+              />
+              <SeniorPwdDialog
+                open={showSeniorPwd}
+                current={seniorPwd}
+                onClose={() => setShowSeniorPwd(false)}
+                onApply={(value) => {
+                  setSeniorPwd(value);
+                  setShowSeniorPwd(false);
+                }}
+              />
             </>
           ) : (
-            <div
-              id="receipt"
-              className="font-mono text-sm bg-white text-black p-4 sm:p-6 rounded-md border border-gray-300 print:w-full print:shadow-none"
-            >
-              <h2 className="text-center font-bold text-lg mb-1">
-                BLCM Hardware
-              </h2>
-              <p className="text-center text-xs mb-4">
-                Rizal Ave., Malitbog, Bongabong Oriental Mindoro
-                <br />
-                Cellphone No: 09283160373
-              </p>
-              <div className="flex justify-between text-xs mb-2 flex-wrap gap-2">
-                <span>Transaction ID: {transactionId}</span>
-                <span>{date}</span>
-              </div>
-              <hr className="my-2 border-gray-400" />
-              <table className="w-full text-xs">
-                <thead>
-                  <tr className="border-b border-gray-400">
-                    <th className="text-left">Item</th>
-                    <th className="text-center">Qty</th>
-                    <th className="text-right">Subtotal</th>
-                  </tr>
-                </thead>
-                <tbody>
-                  {cart.map((item) => (
-                    <tr key={item.id}>
-                      <td>{item.name}</td>
-                      <td className="text-center">{item.purchaseQty}</td>
-                      <td className="text-right">
-                        ₱
-                        {(item.price * (item.purchaseQty || 1)).toLocaleString(
-                          "en-PH",
-                          { minimumFractionDigits: 2 }
-                        )}
-                      </td>
-                    </tr>
-                  ))}
-                  <tr className="border-t border-gray-400 font-bold">
-                    <td className="pt-2">Total</td>
-                    <td></td>
-                    <td className="text-right pt-2">
-                      ₱{total.toLocaleString("en-PH", { minimumFractionDigits: 2 })}
-                    </td>
-                  </tr>
-                  <tr className="font-bold">
-                    <td>Cash Given</td>
-                    <td></td>
-                    <td className="text-right">
-                      ₱{Number(cashGiven).toLocaleString("en-PH", { minimumFractionDigits: 2 })}
-                    </td>
-                  </tr>
-                  <tr className="font-bold">
-                    <td>Change</td>
-                    <td></td>
-                    <td className="text-right">
-                      ₱{change.toLocaleString("en-PH", { minimumFractionDigits: 2 })}
-                    </td>
-                  </tr>
-                </tbody>
-              </table>
-              <hr className="my-3 border-gray-400" />
-              <p className="text-center text-xs">
-                Thank you for shopping at BLCM Hardware!
-                <br />
-                Please come again.
-              </p>
-            </div>
+            <Receipt transaction={receipt} />
           )}
         </CardContent>
       </Card>
@@ -0,0 +1,166 @@
+import { useEffect, useState } from "react";
+import { Link } from "wouter";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardHeader, CardContent, CardTitle } from "@/components/ui/card";
+import { ArrowLeft, Check, RefreshCcw, UserCheck, X } from "lucide-react";
+import type { SafeUser } from "@shared/schema";
+
+/**
+ * Admin queue for self-registered staff, supplier and admin accounts
+ * that are waiting to be approved or rejected
+ */
+export default function AccountApprovals() {
+  const [applicants, setApplicants] = useState<SafeUser[]>([]);
+  const [reasons, setReasons] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  const adminRequest = async (method: string, url: string, body?: unknown) => {
+    const res = await fetch(url, {
+      method,
+      headers: body ? { "Content-Type": "application/json" } : {},
+      body: body ? JSON.stringify(body) : undefined,
+      credentials: "include",
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(data.message || "Request failed");
+    return data;
+  };
+
+  const fetchApplicants = async () => {
+    try {
+      setLoading(true);
+      setApplicants(await adminRequest("GET", "/api/admin/approvals"));
+    } catch (err: any) {
+      toast({
+        title: "Error",
+        description: err.message || "Failed to load pending registrations",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchApplicants();
+  }, []);
+
+  const handleDecision = async (applicant: SafeUser, decision: "approve" | "reject") => {
+    try {
+      setLoading(true);
+      await adminRequest(
+        "POST",
+        `/api/admin/approvals/${applicant.id}/${decision}`,
+        decision === "reject" ? { reason: reasons[applicant.id] || undefined } : undefined
+      );
+      setApplicants((prev) => prev.filter((a) => a.id !== applicant.id));
+      toast({
+        title: decision === "approve" ? "Approved" : "Rejected",
+        description: `${applicant.username} has been ${decision === "approve" ? "approved" : "rejected"}.`,
+      });
+    } catch (err: any) {
+      toast({
+        title: "Error",
+        description: err.message || "Action failed",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background py-10 px-4">
+      <div className="max-w-4xl mx-auto space-y-6">
+        <Link href="/dashboard">
+          <Button variant="ghost" size="sm">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Dashboard
+          </Button>
+        </Link>
+
+        <Card className="shadow-md border">
+          <CardHeader className="flex items-center justify-between">
+            <CardTitle className="text-xl font-semibold flex items-center gap-2">
+              <UserCheck className="w-5 h-5" />
+              Pending Registrations
+            </CardTitle>
+            <Button variant="outline" size="sm" onClick={fetchApplicants} disabled={loading}>
+              <RefreshCcw className="w-4 h-4 mr-1" />
+              Refresh
+            </Button>
+          </CardHeader>
+
+          <CardContent>
+            {loading && (
+              <p className="text-sm text-muted-foreground">Loading registrations...</p>
+            )}
+
+            {!loading && applicants.length === 0 && (
+              <p className="text-sm text-muted-foreground">No registrations are waiting for approval.</p>
+            )}
+
+            {!loading &&
+              applicants.map((a) => (
+                <div key={a.id} className="border-b py-4 flex flex-col gap-3">
+                  <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-2">
+                    <div className="space-y-1 text-sm">
+                      <p className="font-semibold text-foreground flex items-center gap-2">
+                        {a.firstName} {a.lastName}
+                        <span className="text-muted-foreground font-normal">@{a.username}</span>
+                        <Badge variant="outline">
+                          {String(a.role).charAt(0).toUpperCase() + String(a.role).slice(1)}
+                        </Badge>
+                      </p>
+                      <p className="text-muted-foreground">Email: {a.email || "—"}</p>
+                      <p className="text-muted-foreground">Phone: {a.phone || "—"}</p>
+                      {String(a.role).toLowerCase() === "supplier" && (
+                        <p className="text-muted-foreground">
+                          Supplies: {a.supply || "—"} (qty {a.supplyQuantity ?? "—"})
+                        </p>
+                      )}
+                      <p className="text-xs text-muted-foreground">
+                        Registered:{" "}
+                        {a.createdAt ? new Date(a.createdAt).toLocaleString() : "Unknown"}
+                      </p>
+                    </div>
+
+                    <Button
+                      size="sm"
+                      disabled={loading}
+                      onClick={() => handleDecision(a, "approve")}
+                    >
+                      <Check className="w-4 h-4 mr-1" />
+                      Approve
+                    </Button>
+                  </div>
+
+                  <div className="flex flex-col sm:flex-row gap-2">
+                    <Input
+                      placeholder="Rejection reason (optional)"
+                      value={reasons[a.id] || ""}
+                      onChange={(e) => setReasons((prev) => ({ ...prev, [a.id]: e.target.value }))}
+                      className="sm:flex-1"
+                    />
+                    <Button
+                      variant="destructive"
+                      size="sm"
+                      disabled={loading}
+                      onClick={() => handleDecision(a, "reject")}
+                    >
+                      <X className="w-4 h-4 mr-1" />
+                      Reject
+                    </Button>
+                  </div>
+                </div>
+              ))}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
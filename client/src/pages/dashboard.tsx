@@ -16,6 +16,14 @@ import {
   LayoutDashboard,
   Moon,
   Sun,
+  UserCheck,
+  MailPlus,
+  ReceiptText,
+  Vault,
+  Tag,
+  FileClock,
+  ShieldAlert,
+  Users,
 } from "lucide-react";
 
 interface Stats {
@@ -27,7 +35,7 @@ interface Stats {
 
 export default function Dashboard() {
   const [, setLocation] = useLocation();
-  const { user, logout } = useAuth();
+  const { user, logout, can } = useAuth();
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [darkMode, setDarkMode] = useState(false); // dark mode toggle
 
@@ -53,7 +61,7 @@ export default function Dashboard() {
 
   if (!user) return null;
 
-  const isAdminOrStaff = user.role === "admin" || user.role === "staff";
+  const canViewFinancials = can("report.view_financials");
 
   const formatPeso = (value: number | null | undefined) => {
     if (value == null) return "₱0.00";
@@ -102,23 +110,81 @@ export default function Dashboard() {
               <Package className="w-4 h-4 mr-2" /> Products
             </Button>
           </Link>
-          <Link href="/orders">
-            <Button variant="ghost" className="w-full justify-start">
-              <ShoppingCart className="w-4 h-4 mr-2" /> Reports
-            </Button>
-          </Link>
+          {canViewFinancials && (
+            <Link href="/orders">
+              <Button variant="ghost" className="w-full justify-start">
+                <ShoppingCart className="w-4 h-4 mr-2" /> Reports
+              </Button>
+            </Link>
+          )}
           <Link href="/profile">
             <Button variant="ghost" className="w-full justify-start">
               <User className="w-4 h-4 mr-2" /> Profile
             </Button>
           </Link>
-          {user.role === "staff" && (
+          {can("account.approve") && (
+            <Link href="/account-approvals">
+              <Button variant="ghost" className="w-full justify-start">
+                <UserCheck className="w-4 h-4 mr-2" /> Pending Registrations
+              </Button>
+            </Link>
+          )}
+          {can("account.manage") && (
+            <Link href="/invitations">
+              <Button variant="ghost" className="w-full justify-start">
+                <MailPlus className="w-4 h-4 mr-2" /> Invitations
+              </Button>
+            </Link>
+          )}
+          {can("role.manage") && (
+            <Link href="/roles">
+              <Button variant="ghost" className="w-full justify-start">
+                <Users className="w-4 h-4 mr-2" /> Roles & Permissions
+              </Button>
+            </Link>
+          )}
+          {can("security_log.view") && (
+            <Link href="/security-log">
+              <Button variant="ghost" className="w-full justify-start">
+                <ShieldAlert className="w-4 h-4 mr-2" /> Security Log
+              </Button>
+            </Link>
+          )}
+          {can("sale.create") && (
             <Link href="/transaction">
               <Button variant="ghost" className="w-full justify-start">
                 <DollarSign className="w-4 h-4 mr-2" /> Create New Transaction
               </Button>
             </Link>
           )}
+          {(can("sale.create") || canViewFinancials) && (
+            <Link href="/transactions">
+              <Button variant="ghost" className="w-full justify-start">
+                <ReceiptText className="w-4 h-4 mr-2" /> Transaction History
+              </Button>
+            </Link>
+          )}
+          {(can("sale.create") || canViewFinancials) && (
+            <Link href="/shifts">
+              <Button variant="ghost" className="w-full justify-start">
+                <Vault className="w-4 h-4 mr-2" /> Cash Drawer Shifts
+              </Button>
+            </Link>
+          )}
+          {(can("sale.create") || canViewFinancials || can("report.z_reading")) && (
+            <Link href="/readings">
+              <Button variant="ghost" className="w-full justify-start">
+                <FileClock className="w-4 h-4 mr-2" /> X & Z Readings
+              </Button>
+            </Link>
+          )}
+          {can("promotion.manage") && (
+            <Link href="/promotions">
+              <Button variant="ghost" className="w-full justify-start">
+                <Tag className="w-4 h-4 mr-2" /> Promotions
+              </Button>
+            </Link>
+          )}
           <Button
             variant="ghost"
             className="w-full justify-start text-red-500"
@@ -153,7 +219,7 @@ export default function Dashboard() {
       <main className="flex-1 p-6 mt-14 lg:mt-0 transition-colors">
         <div
           className={`grid grid-cols-1 ${
-            isAdminOrStaff ? "md:grid-cols-3" : "md:grid-cols-2"
+            canViewFinancials ? "md:grid-cols-3" : "md:grid-cols-2"
           } gap-6 mb-8`}
         >
           <Card className="bg-white dark:bg-gray-800 border dark:border-gray-700">
@@ -180,7 +246,7 @@ export default function Dashboard() {
             </CardContent>
           </Card>
 
-          {isAdminOrStaff && (
+          {canViewFinancials && (
             <Card className="bg-white dark:bg-gray-800 border dark:border-gray-700">
               <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
                 <CardTitle className="text-sm font-medium">Total Value</CardTitle>
@@ -0,0 +1,206 @@
+import { useState } from "react";
+import { useLocation, Link } from "wouter";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { KeyRound, Loader2 } from "lucide-react";
+import { BASE_API_URL } from "@/api";
+import blcmLogo from "@/assets/blcm-logo.png";
+
+/**
+ * Self-service password recovery
+ * - Step 1: request a reset code for a username
+ * - Step 2: enter the emailed code and a new password
+ */
+export default function ForgotPassword() {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const [step, setStep] = useState<"request" | "reset">("request");
+  const [username, setUsername] = useState("");
+  const [code, setCode] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+
+  const post = async (path: string, body: unknown) => {
+    const res = await fetch(`${BASE_API_URL}${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      credentials: "include",
+      body: JSON.stringify(body),
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      throw new Error(data.errors?.[0]?.message || data.message || "Request failed");
+    }
+    return data;
+  };
+
+  const handleRequest = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    if (!username) {
+      toast({ title: "Error", description: "Please enter your username", variant: "destructive" });
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const data = await post("/api/password/forgot", { username });
+      toast({ title: "Check your email", description: data.message });
+      setStep("reset");
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleReset = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (code.length !== 6) {
+      toast({ title: "Error", description: "Enter the 6-digit code", variant: "destructive" });
+      return;
+    }
+    if (newPassword !== confirmPassword) {
+      toast({ title: "Error", description: "Passwords do not match", variant: "destructive" });
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const data = await post("/api/password/reset", { username, code, newPassword, confirmPassword });
+      toast({ title: "Success", description: data.message });
+      setLocation("/login");
+    } catch (error: any) {
+      setCode("");
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-red-700">
+      <div className="w-full max-w-sm">
+        <div className="login-container shadow-2xl border-0 rounded-lg">
+          <div className="p-8">
+            <div className="text-center mb-8">
+              <div className="w-16 h-16 bg-white rounded-xl flex items-center justify-center mx-auto mb-4">
+                <img src={blcmLogo} alt="BLCM Logo" className="w-30 h-30 object-contain" />
+              </div>
+              <h1 className="text-2xl font-bold text-foreground mb-2">Forgot Password</h1>
+              <p className="text-muted-foreground text-sm">
+                {step === "request"
+                  ? "We'll email a reset code to the address on your account."
+                  : "Enter the code from your email and choose a new password."}
+              </p>
+            </div>
+
+            {step === "request" ? (
+              <form onSubmit={handleRequest} className="space-y-6">
+                <div className="space-y-2">
+                  <Label htmlFor="username" className="text-foreground font-medium text-sm">
+                    Username
+                  </Label>
+                  <Input
+                    id="username"
+                    value={username}
+                    onChange={(e) => setUsername(e.target.value)}
+                    autoComplete="username"
+                    data-testid="input-username"
+                    className="h-12"
+                  />
+                </div>
+
+                <Button
+                  type="submit"
+                  disabled={isLoading}
+                  className="w-full h-12 font-medium bg-red-700 text-white hover:bg-red-600"
+                  data-testid="button-send-reset-code"
+                >
+                  {isLoading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Send Reset Code
+                </Button>
+              </form>
+            ) : (
+              <form onSubmit={handleReset} className="space-y-6">
+                <div className="flex justify-center">
+                  <InputOTP maxLength={6} value={code} onChange={setCode} data-testid="input-code">
+                    <InputOTPGroup>
+                      {[0, 1, 2, 3, 4, 5].map((i) => (
+                        <InputOTPSlot key={i} index={i} />
+                      ))}
+                    </InputOTPGroup>
+                  </InputOTP>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="newPassword" className="text-foreground font-medium text-sm">
+                    New Password
+                  </Label>
+                  <Input
+                    id="newPassword"
+                    type="password"
+                    value={newPassword}
+                    onChange={(e) => setNewPassword(e.target.value)}
+                    autoComplete="new-password"
+                    data-testid="input-newPassword"
+                    className="h-12"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="confirmPassword" className="text-foreground font-medium text-sm">
+                    Confirm Password
+                  </Label>
+                  <Input
+                    id="confirmPassword"
+                    type="password"
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                    autoComplete="new-password"
+                    data-testid="input-confirmPassword"
+                    className="h-12"
+                  />
+                </div>
+
+                <Button
+                  type="submit"
+                  disabled={isLoading}
+                  className="w-full h-12 font-medium bg-red-700 text-white hover:bg-red-600"
+                  data-testid="button-reset-password"
+                >
+                  {isLoading ? (
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  ) : (
+                    <KeyRound className="w-4 h-4 mr-2" />
+                  )}
+                  Reset Password
+                </Button>
+
+                <button
+                  type="button"
+                  onClick={() => handleRequest()}
+                  disabled={isLoading}
+                  className="w-full text-red-500 hover:text-red-600 text-sm font-medium underline disabled:opacity-50"
+                >
+                  Resend code
+                </button>
+              </form>
+            )}
+
+            <div className="mt-6 text-center">
+              <Link href="/login">
+                <button type="button" className="text-muted-foreground text-sm underline">
+                  Back to login
+                </button>
+              </Link>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
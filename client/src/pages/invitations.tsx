@@ -0,0 +1,295 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { apiJson } from "@/lib/queryClient";
+import { ArrowLeft, Copy, MailPlus, RefreshCw, X } from "lucide-react";
+import type { InvitationStatus } from "@shared/schema";
+
+interface InvitationInfo {
+  id: string;
+  role: string;
+  email: string | null;
+  createdByUsername: string;
+  expiresAt: string;
+  sendCount: number;
+  lastSentAt: string | null;
+  usedAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+  status: InvitationStatus;
+  token: string | null;
+}
+
+interface RoleOption {
+  name: string;
+  label: string;
+}
+
+const EXPIRY_OPTIONS = [
+  { value: "1", label: "1 day" },
+  { value: "7", label: "7 days" },
+  { value: "14", label: "14 days" },
+  { value: "30", label: "30 days" },
+];
+
+const STATUS_BADGE: Record<InvitationStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  pending: "default",
+  expired: "secondary",
+  used: "outline",
+  revoked: "destructive",
+};
+
+// Links open the register page of this app, wherever the API lives
+const inviteLink = (token: string) => `${window.location.origin}/register?invite=${encodeURIComponent(token)}`;
+
+/**
+ * Admin page for invitation links: single-use, expiring sign-up links with
+ * the role (and optionally the email) chosen up front
+ */
+export default function Invitations() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState({ role: "", email: "", expiresInDays: "7" });
+  const [showClosed, setShowClosed] = useState(false);
+
+  const { data: invitations = [], isLoading } = useQuery<InvitationInfo[]>({
+    queryKey: ["/api/admin/invitations"],
+    queryFn: () => apiJson("GET", "/api/admin/invitations"),
+  });
+
+  const { data: roles = [] } = useQuery<RoleOption[]>({
+    queryKey: ["/api/admin/roles"],
+    queryFn: () => apiJson("GET", "/api/admin/roles"),
+  });
+
+  const roleLabel = (name: string) => roles.find((r) => r.name === name)?.label ?? name;
+
+  const onError = (error: any) =>
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ["/api/admin/invitations"] });
+
+  const copyLink = async (token: string) => {
+    await navigator.clipboard.writeText(inviteLink(token));
+    toast({ title: "Copied", description: "Invitation link copied to clipboard." });
+  };
+
+  const sentMessage = (invitation: InvitationInfo & { emailSent: boolean }) =>
+    invitation.emailSent
+      ? `Emailed to ${invitation.email}.`
+      : "Copy the link and share it with the new user.";
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      apiJson("POST", "/api/admin/invitations", {
+        role: form.role,
+        email: form.email.trim() || undefined,
+        expiresInDays: Number(form.expiresInDays),
+      }),
+    onSuccess: (invitation) => {
+      setForm((prev) => ({ ...prev, email: "" }));
+      refresh();
+      toast({ title: "Invitation created", description: sentMessage(invitation) });
+    },
+    onError,
+  });
+
+  const resendMutation = useMutation({
+    mutationFn: (id: string) => apiJson("POST", `/api/admin/invitations/${id}/resend`, {}),
+    onSuccess: (invitation) => {
+      refresh();
+      toast({ title: "New link issued", description: `The previous link no longer works. ${sentMessage(invitation)}` });
+    },
+    onError,
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (id: string) => apiJson("POST", `/api/admin/invitations/${id}/revoke`),
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Invitation revoked", description: "The link can no longer be used." });
+    },
+    onError,
+  });
+
+  const visible = showClosed
+    ? invitations
+    : invitations.filter((i) => i.status === "pending" || i.status === "expired");
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="bg-card shadow-sm border-b">
+        <div className="container mx-auto px-4 py-4 flex items-center gap-3">
+          <Link href="/dashboard">
+            <Button variant="ghost" size="sm">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back
+            </Button>
+          </Link>
+          <div className="flex items-center gap-2">
+            <div className="w-10 h-10 bg-primary rounded-full flex items-center justify-center">
+              <MailPlus className="w-5 h-5 text-white" />
+            </div>
+            <div>
+              <h1 className="text-xl font-semibold">Invitations</h1>
+              <p className="text-sm text-muted-foreground">Invite staff with a preset role</p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 py-6 space-y-4 max-w-4xl">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">New Invitation</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                createMutation.mutate();
+              }}
+              className="grid grid-cols-1 sm:grid-cols-3 gap-4"
+            >
+              <div className="space-y-1">
+                <Label>Role</Label>
+                <Select value={form.role} onValueChange={(role) => setForm((prev) => ({ ...prev, role }))}>
+                  <SelectTrigger data-testid="select-invite-role">
+                    <SelectValue placeholder="Select a role" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {roles.map((r) => (
+                      <SelectItem key={r.name} value={r.name}>
+                        {r.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="invite-email">Email (optional)</Label>
+                <Input
+                  id="invite-email"
+                  type="email"
+                  placeholder="name@example.com"
+                  value={form.email}
+                  onChange={(e) => setForm((prev) => ({ ...prev, email: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Expires after</Label>
+                <Select
+                  value={form.expiresInDays}
+                  onValueChange={(expiresInDays) => setForm((prev) => ({ ...prev, expiresInDays }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {EXPIRY_OPTIONS.map((o) => (
+                      <SelectItem key={o.value} value={o.value}>
+                        {o.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="sm:col-span-3">
+                <Button
+                  type="submit"
+                  disabled={createMutation.isPending || !form.role}
+                  data-testid="button-create-invitation"
+                >
+                  Create Invitation
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
+        <div className="flex items-center justify-between">
+          <h2 className="font-semibold">{showClosed ? "All invitations" : "Pending and expired"}</h2>
+          <Button variant="ghost" size="sm" onClick={() => setShowClosed((prev) => !prev)}>
+            {showClosed ? "Hide used and revoked" : "Show used and revoked"}
+          </Button>
+        </div>
+
+        {isLoading && <p className="text-sm text-muted-foreground">Loading invitations...</p>}
+        {!isLoading && visible.length === 0 && (
+          <p className="text-sm text-muted-foreground">No invitations to show.</p>
+        )}
+
+        {visible.map((i) => {
+          const open = i.status === "pending" || i.status === "expired";
+          return (
+            <Card key={i.id}>
+              <CardContent className="pt-6 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                <div className="text-sm space-y-1">
+                  <p className="font-medium flex flex-wrap items-center gap-2">
+                    {roleLabel(i.role)}
+                    <Badge variant={STATUS_BADGE[i.status]} className="capitalize">
+                      {i.status}
+                    </Badge>
+                  </p>
+                  <p className="text-muted-foreground">{i.email || "Any email address"}</p>
+                  <p className="text-xs text-muted-foreground">
+                    Invited by {i.createdByUsername} on {new Date(i.createdAt).toLocaleDateString()} ·{" "}
+                    {i.status === "used" && i.usedAt
+                      ? `Used ${new Date(i.usedAt).toLocaleString()}`
+                      : i.status === "revoked" && i.revokedAt
+                        ? `Revoked ${new Date(i.revokedAt).toLocaleString()}`
+                        : `${i.status === "expired" ? "Expired" : "Expires"} ${new Date(i.expiresAt).toLocaleString()}`}
+                    {i.sendCount > 0 && ` · Emailed ${i.sendCount} time(s)`}
+                  </p>
+                </div>
+
+                {open && (
+                  <div className="flex gap-2">
+                    {i.token && (
+                      <Button variant="outline" size="sm" onClick={() => copyLink(i.token!)}>
+                        <Copy className="w-4 h-4 mr-1" />
+                        Copy link
+                      </Button>
+                    )}
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => resendMutation.mutate(i.id)}
+                      disabled={resendMutation.isPending}
+                    >
+                      <RefreshCw className="w-4 h-4 mr-1" />
+                      {i.email ? "Resend" : "New link"}
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="text-red-500"
+                      onClick={() => revokeMutation.mutate(i.id)}
+                      disabled={revokeMutation.isPending}
+                      aria-label="Revoke invitation"
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
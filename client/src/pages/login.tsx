@@ -5,19 +5,26 @@ import { useToast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Card, CardContent } from "@/components/ui/card";
-import { Lock, UserPlus, Loader2 } from "lucide-react";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { Lock, UserPlus, Loader2, ShieldCheck } from "lucide-react";
 import blcmLogo from "@/assets/blcm-logo.png";
 
 import { Link } from "wouter";
 
 export default function Login() {
   const [, setLocation] = useLocation();
-  const { user, login, isLoginPending, loginError } = useAuth();
+  const { user, login, verifyTwoFactor, isLoginPending, loginError } = useAuth();
   const { toast } = useToast();
   const [username, setUsername] = useState("");
   const [password, setPassword] = useState("");
+  const [rememberMe, setRememberMe] = useState(false);
   const [cooldownTime, setCooldownTime] = useState(0);
+  const [twoFactorStep, setTwoFactorStep] = useState(false);
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [twoFactorCode, setTwoFactorCode] = useState("");
+  const [recoveryCode, setRecoveryCode] = useState("");
 
   useEffect(() => {
     if (user) {
@@ -48,14 +55,23 @@ export default function Login() {
     }
 
     try {
-      await login(username, password);
+      const { twoFactorRequired } = await login(username, password, rememberMe);
+      if (twoFactorRequired) {
+        setTwoFactorStep(true);
+        return;
+      }
       toast({
         title: "Success",
         description: "Login successful!",
       });
       setLocation("/dashboard");
     } catch (error: any) {
-      if (error.message.includes("cooldown") || error.message.includes("locked")) {
+      if (error.details?.emailVerificationRequired) {
+        setLocation(`/verify-email?email=${encodeURIComponent(error.details.email ?? "")}`);
+      }
+      if (typeof error.details?.remainingSeconds === "number") {
+        setCooldownTime(error.details.remainingSeconds);
+      } else if (error.message.includes("cooldown") || error.message.includes("locked")) {
         setCooldownTime(300); // 5 minutes
       }
       toast({
@@ -66,6 +82,38 @@ export default function Login() {
     }
   };
 
+  const handleTwoFactorSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (useRecoveryCode ? !recoveryCode.trim() : twoFactorCode.length !== 6) return;
+
+    try {
+      await verifyTwoFactor(
+        useRecoveryCode ? { recoveryCode: recoveryCode.trim() } : { code: twoFactorCode }
+      );
+      toast({
+        title: "Success",
+        description: "Login successful!",
+      });
+      setLocation("/dashboard");
+    } catch (error: any) {
+      setTwoFactorCode("");
+      setRecoveryCode("");
+      // The pending sign-in expired or the account got locked: start over
+      if (error.details?.twoFactorExpired || typeof error.details?.remainingSeconds === "number") {
+        setTwoFactorStep(false);
+        setPassword("");
+      }
+      if (typeof error.details?.remainingSeconds === "number") {
+        setCooldownTime(error.details.remainingSeconds);
+      }
+      toast({
+        title: "Error",
+        description: error.message || "Verification failed",
+        variant: "destructive",
+      });
+    }
+  };
+
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
     const secs = seconds % 60;
@@ -95,68 +143,165 @@ export default function Login() {
               </p>
             </div>
 
-            <form onSubmit={handleSubmit} className="space-y-6">
-              {loginError && (
-                <div className="bg-destructive/10 border border-destructive/20 text-destructive rounded-lg p-3">
-                  <p className="text-sm">{loginError.message}</p>
+            {twoFactorStep ? (
+              <form onSubmit={handleTwoFactorSubmit} className="space-y-6">
+                <div className="text-center space-y-1">
+                  <p className="font-medium text-foreground flex items-center justify-center gap-2">
+                    <ShieldCheck className="w-4 h-4" />
+                    Two-factor authentication
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    {useRecoveryCode
+                      ? "Enter one of your recovery codes."
+                      : "Enter the 6-digit code from your authenticator app."}
+                  </p>
                 </div>
-              )}
-
-              <div className="space-y-2">
-                <Label htmlFor="username" className="text-foreground font-medium text-sm">
-                  Username
-                </Label>
-                <Input
-                  id="username"
-                  type="text"
-                  placeholder="Enter your username"
-                  value={username}
-                  onChange={(e) => setUsername(e.target.value)}
-                  autoComplete="username"
-                  data-testid="input-username"
-                  className="h-12 transition-all duration-200  "
-                />
-              </div>
 
-              <div className="space-y-2">
-                <Label htmlFor="password" className="text-foreground font-medium text-sm">
-                  Password
-                </Label>
-                <Input
-                  id="password"
-                  type="password"
-                  placeholder="Enter your password"
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
-                  autoComplete="current-password"
-                  data-testid="input-password"
-                  className="h-12 transition-all duration-200"
-                />
-              </div>
+                {useRecoveryCode ? (
+                  <Input
+                    placeholder="xxxxx-xxxxx"
+                    value={recoveryCode}
+                    onChange={(e) => setRecoveryCode(e.target.value)}
+                    autoComplete="off"
+                    data-testid="input-recovery-code"
+                    className="h-12 text-center font-mono"
+                  />
+                ) : (
+                  <div className="flex justify-center">
+                    <InputOTP
+                      maxLength={6}
+                      value={twoFactorCode}
+                      onChange={setTwoFactorCode}
+                      autoFocus
+                      data-testid="input-two-factor-code"
+                    >
+                      <InputOTPGroup>
+                        {[0, 1, 2, 3, 4, 5].map((i) => (
+                          <InputOTPSlot key={i} index={i} />
+                        ))}
+                      </InputOTPGroup>
+                    </InputOTP>
+                  </div>
+                )}
 
-              {cooldownTime > 0 && (
-                <div className="bg-accent/10 border border-accent/20 text-accent-foreground rounded-lg p-3" data-testid="cooldown-message">
-                  <div className="text-center">
-                    <p className="font-medium mb-2">⏳ Please wait before trying again.</p>
-                    <div className="text-lg font-mono" data-testid="timer-display">
-                      {formatTime(cooldownTime)}
-                    </div>
+                <Button
+                  type="submit"
+                  disabled={isLoginPending}
+                  className="w-full h-12 font-medium bg-red-700 text-white transition-all duration-200 hover:bg-red-600"
+                  data-testid="button-verify-two-factor"
+                >
+                  {isLoginPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  <span>{isLoginPending ? "Verifying..." : "Verify"}</span>
+                </Button>
+
+                <div className="flex justify-between text-xs">
+                  <button
+                    type="button"
+                    onClick={() => setUseRecoveryCode((v) => !v)}
+                    className="text-red-500 hover:text-red-600 font-medium underline"
+                    data-testid="button-toggle-recovery-code"
+                  >
+                    {useRecoveryCode ? "Use authenticator app" : "Use a recovery code"}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setTwoFactorStep(false);
+                      setPassword("");
+                    }}
+                    className="text-muted-foreground underline"
+                  >
+                    Back to login
+                  </button>
+                </div>
+              </form>
+            ) : (
+              <form onSubmit={handleSubmit} className="space-y-6">
+                {loginError && (
+                  <div className="bg-destructive/10 border border-destructive/20 text-destructive rounded-lg p-3">
+                    <p className="text-sm">{loginError.message}</p>
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <Label htmlFor="username" className="text-foreground font-medium text-sm">
+                    Username
+                  </Label>
+                  <Input
+                    id="username"
+                    type="text"
+                    placeholder="Enter your username"
+                    value={username}
+                    onChange={(e) => setUsername(e.target.value)}
+                    autoComplete="username"
+                    data-testid="input-username"
+                    className="h-12 transition-all duration-200  "
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="password" className="text-foreground font-medium text-sm">
+                      Password
+                    </Label>
+                    <Link href="/forgot-password">
+                      <button
+                        type="button"
+                        className="text-red-500 hover:text-red-600 text-xs font-medium underline"
+                        data-testid="link-forgot-password"
+                      >
+                        Forgot password?
+                      </button>
+                    </Link>
                   </div>
+                  <Input
+                    id="password"
+                    type="password"
+                    placeholder="Enter your password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    autoComplete="current-password"
+                    data-testid="input-password"
+                    className="h-12 transition-all duration-200"
+                  />
                 </div>
-              )}
-
-              <Button
-                type="submit"
-                disabled={isLoginPending || cooldownTime > 0}
-               className="w-full h-12 font-medium bg-red-700 text-white transition-all duration-200 hover:bg-red-600"
-                data-testid="button-login"
-              >
-                {isLoginPending && (
-                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="rememberMe"
+                    checked={rememberMe}
+                    onCheckedChange={(checked) => setRememberMe(checked === true)}
+                    data-testid="checkbox-remember-me"
+                  />
+                  <Label htmlFor="rememberMe" className="text-sm text-muted-foreground">
+                    Keep me signed in for 30 days
+                  </Label>
+                </div>
+
+                {cooldownTime > 0 && (
+                  <div className="bg-accent/10 border border-accent/20 text-accent-foreground rounded-lg p-3" data-testid="cooldown-message">
+                    <div className="text-center">
+                      <p className="font-medium mb-2">⏳ Please wait before trying again.</p>
+                      <div className="text-lg font-mono" data-testid="timer-display">
+                        {formatTime(cooldownTime)}
+                      </div>
+                    </div>
+                  </div>
                 )}
-                <span>{isLoginPending ? "Signing In..." : "Sign In"}</span>
-              </Button>
-            </form>
+
+                <Button
+                  type="submit"
+                  disabled={isLoginPending || cooldownTime > 0}
+                 className="w-full h-12 font-medium bg-red-700 text-white transition-all duration-200 hover:bg-red-600"
+                  data-testid="button-login"
+                >
+                  {isLoginPending && (
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  )}
+                  <span>{isLoginPending ? "Signing In..." : "Sign In"}</span>
+                </Button>
+              </form>
+            )}
 
             <div className="mt-6 text-center space-y-4">
               <div className="flex items-center justify-center space-x-2">
@@ -3,11 +3,13 @@ import { useLocation, Link } from "wouter";
 import { useAuth } from "@/context/AuthProvider";
 import { useQuery } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
+import { BASE_API_URL } from "@/api";
 
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Package, Plus, Edit, ArrowLeft, ShoppingCart } from "lucide-react";
+import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
+import { Package, Plus, Edit, ArrowLeft, ShoppingCart, History } from "lucide-react";
 import { DataTable } from "@/components/ui/data-table";
 import {
   Select,
@@ -20,12 +22,13 @@ import {
 import { AddProductDialog } from "@/components/add-product-dialog";
 import { EditProductDialog } from "@/components/edit-product-dialog";
 import { PlaceOrderDialog } from "@/components/place-order-dialog";
+import { StockHistory } from "@/components/stock-history";
 
-import type { Product } from "@shared/schema";
+import { vatClassLabels, type Product } from "@shared/schema";
 
 export default function Products() {
   const [, setLocation] = useLocation();
-  const { user } = useAuth();
+  const { user, can } = useAuth();
   const { toast } = useToast();
 
   const [showAddDialog, setShowAddDialog] = useState(false);
@@ -34,6 +37,8 @@ export default function Products() {
   const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
 
   const [filterCategory, setFilterCategory] = useState("all");
+  const [tab, setTab] = useState("inventory");
+  const [historyProductId, setHistoryProductId] = useState<string | null>(null);
 
   // 🔒 Redirect to login if not authenticated
   useEffect(() => {
@@ -48,7 +53,7 @@ export default function Products() {
   } = useQuery<Product[]>({
     queryKey: ["products"],
     queryFn: async () => {
-      const res = await fetch("/api/products", { cache: "no-store" });
+      const res = await fetch(`${BASE_API_URL}/api/products`, { cache: "no-store", credentials: "include" });
       if (!res.ok) throw new Error(`Failed to fetch products: ${res.status}`);
       return res.json();
     },
@@ -79,11 +84,15 @@ export default function Products() {
     setShowOrderDialog(true);
   };
 
-  // 👤 Permissions
-  const canManageProducts = ["admin", "staff", "supplier"].includes(
-    user?.role ?? ""
-  );
-  const canPlaceOrders = user?.role === "user";
+  const handleHistory = (product: Product) => {
+    setHistoryProductId(product.id);
+    setTab("history");
+  };
+
+  // 👤 Permissions (from /api/me)
+  const canAddProducts = can("product.create");
+  const canEditProducts = can("product.edit");
+  const canPlaceOrders = can("order.place");
 
   // 🧱 Table columns
   const columns = [
@@ -168,7 +177,7 @@ export default function Products() {
               Order
             </Button>
           )}
-          {canManageProducts && (
+          {canEditProducts && (
             <Button
               variant="outline"
               size="sm"
@@ -198,7 +207,7 @@ export default function Products() {
         </p>
       </div>
       <div className="flex flex-col sm:flex-row gap-2">
-        {canManageProducts && (
+        {canAddProducts && (
           <Button onClick={() => setShowAddDialog(true)} className="w-full sm:w-auto">
             <Plus className="w-4 h-4 mr-2" />
             Add Product
@@ -213,6 +222,13 @@ export default function Products() {
       </div>
     </div>
 
+    <Tabs value={tab} onValueChange={setTab} className="space-y-6">
+    <TabsList>
+      <TabsTrigger value="inventory">Inventory</TabsTrigger>
+      <TabsTrigger value="history" data-testid="tab-stock-history">Stock History</TabsTrigger>
+    </TabsList>
+
+    <TabsContent value="inventory" className="space-y-6">
     {/* Category Filter */}
     <div className="flex flex-col sm:flex-row gap-2 items-start sm:items-center">
       <span className="font-medium">Filter by Category:</span>
@@ -288,6 +304,7 @@ export default function Products() {
                 <p>Category: <span className="font-medium">{product.category || "Uncategorized"}</span></p>
                 <p>Description: {product.description || "—"}</p>
                 <p>Price: ₱{product.price.toFixed(2)} {product.weighted ? "/ kilo" : ""}</p>
+                <p>VAT: {vatClassLabels[product.vatClass] ?? vatClassLabels.vatable}</p>
                 <p>Stock: {product.quantity}</p>
                 <div className="flex flex-wrap gap-2 mt-2">
                   {canPlaceOrders && (
@@ -301,11 +318,14 @@ export default function Products() {
                       Order
                     </Button>
                   )}
-                  {canManageProducts && (
+                  {canEditProducts && (
                     <Button size="sm" variant="outline" onClick={() => handleEdit(product)}>
                       <Edit className="w-4 h-4" />
                     </Button>
                   )}
+                  <Button size="sm" variant="outline" onClick={() => handleHistory(product)} aria-label="Stock history">
+                    <History className="w-4 h-4" />
+                  </Button>
                 </div>
               </CardContent>
             </Card>
@@ -313,6 +333,12 @@ export default function Products() {
         })}
       </div>
     )}
+    </TabsContent>
+
+    <TabsContent value="history">
+      <StockHistory products={products} productId={historyProductId} onProductChange={setHistoryProductId} />
+    </TabsContent>
+    </Tabs>
   </div>
 </div>
   );
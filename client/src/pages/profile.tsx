@@ -21,6 +21,11 @@ import {
   Sun,
 } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
+import { SessionsPanel } from "@/components/sessions-panel";
+import { TwoFactorPanel } from "@/components/two-factor-panel";
+import { ApiTokensPanel } from "@/components/api-tokens-panel";
+import { ChangePasswordPanel } from "@/components/change-password-panel";
+import { PendingEmailNotice } from "@/components/pending-email-notice";
 
 /**
  * Profile page
@@ -55,7 +60,7 @@ function DarkModeToggle() {
 
 export default function Profile() {
   const [, setLocation] = useLocation();
-  const { user, logout } = useAuth();
+  const { user, logout, can } = useAuth();
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -102,7 +107,14 @@ export default function Profile() {
     },
     onSuccess: (updatedUser) => {
       queryClient.setQueryData(["/api/me"], updatedUser);
-      toast({ title: "Success", description: "Profile updated successfully!" });
+      // A new email only takes effect after its confirmation code is entered
+      const emailPending = updatedUser.pendingEmail && updatedUser.pendingEmail !== user?.pendingEmail;
+      toast({
+        title: "Success",
+        description: emailPending
+          ? `Profile updated. We sent a code to ${updatedUser.pendingEmail} to confirm your new email.`
+          : "Profile updated successfully!",
+      });
       setIsEditing(false);
     },
     onError: (error: any) => {
@@ -153,6 +165,9 @@ export default function Profile() {
 
   if (!user) return null;
 
+  // The API rejects changes during "view as"; don't offer them either
+  const impersonating = !!user.impersonatedBy;
+
   return (
     <div className="min-h-screen bg-background dark:bg-slate-900 dark:text-slate-100">
       {/* Header */}
@@ -182,8 +197,8 @@ export default function Profile() {
             </div>
 
             <div className="flex items-center gap-2">
-              {/* Reset password available only to admins */}
-              {String(user?.role || "").toLowerCase() === "admin" && (
+              {/* Account management (including password resets) */}
+              {can("account.manage") && (
                 <Link href="/reset-staff-password">
                   <Button
                     variant="outline"
@@ -229,14 +244,14 @@ export default function Profile() {
 
       {/* Content */}
       <main className="container mx-auto px-4 py-8">
-        <div className="max-w-2xl mx-auto">
+        <div className="max-w-2xl mx-auto space-y-6">
           <Card>
             <CardHeader>
               <div className="flex items-center justify-between">
                 <CardTitle className="text-xl font-semibold">Profile Information</CardTitle>
 
                 <div className="flex gap-2">
-                  {!isEditing ? (
+                  {impersonating ? null : !isEditing ? (
                     <Button
                       variant="outline"
                       onClick={() => setIsEditing(true)}
@@ -342,6 +357,7 @@ export default function Profile() {
                     className={!isEditing ? "bg-muted text-muted-foreground" : ""}
                     data-testid="input-email"
                   />
+                  {user.pendingEmail && !impersonating && <PendingEmailNotice pendingEmail={user.pendingEmail} />}
                 </div>
 
                 <div className="space-y-2">
@@ -404,6 +420,18 @@ export default function Profile() {
               </form>
             </CardContent>
           </Card>
+
+          {!impersonating && (
+            <>
+              <TwoFactorPanel />
+
+              <ChangePasswordPanel />
+
+              <SessionsPanel />
+
+              <ApiTokensPanel />
+            </>
+          )}
         </div>
       </main>
 
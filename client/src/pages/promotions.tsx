@@ -0,0 +1,345 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ArrowLeft, Tag, X } from "lucide-react";
+import {
+  discountTypes,
+  promotionKindLabels,
+  promotionKinds,
+  type DiscountType,
+  type Promotion,
+  type PromotionKind,
+} from "@shared/schema";
+import { peso } from "@/lib/utils";
+import { apiJson } from "@/lib/queryClient";
+
+const emptyForm = {
+  name: "",
+  kind: "category_sale" as PromotionKind,
+  productIds: "",
+  category: "",
+  discountType: "percent" as DiscountType,
+  discountValue: "",
+  minQuantity: "",
+  buyQuantity: "",
+  freeQuantity: "",
+  startsAt: "",
+  endsAt: "",
+};
+
+const optionalNumber = (value: string) => (value.trim() ? Number(value) : undefined);
+
+function describe(promotion: Promotion) {
+  const off =
+    promotion.discountType === "percent"
+      ? `${promotion.discountValue}% off`
+      : `${peso(promotion.discountValue ?? 0)} off each`;
+  switch (promotion.kind) {
+    case "buy_x_get_y":
+      return `Buy ${promotion.buyQuantity}, get ${promotion.freeQuantity} free`;
+    case "quantity_break":
+      return `${off} when buying ${promotion.minQuantity} or more`;
+    default:
+      return off;
+  }
+}
+
+function status(promotion: Promotion, now = new Date()) {
+  if (!promotion.active) return { label: "Ended", variant: "outline" as const };
+  if (new Date(promotion.startsAt) > now) return { label: "Scheduled", variant: "secondary" as const };
+  if (new Date(promotion.endsAt) <= now) return { label: "Expired", variant: "outline" as const };
+  return { label: "Running", variant: "default" as const };
+}
+
+/**
+ * Managers schedule promotions here. The POS picks up whichever are running
+ * when a sale is priced; each line gets the best one that applies.
+ */
+export default function Promotions() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState(emptyForm);
+
+  const { data: promotions = [], isLoading } = useQuery<Promotion[]>({
+    queryKey: ["/api/promotions"],
+    queryFn: () => apiJson("GET", "/api/promotions"),
+  });
+
+  const update = (changes: Partial<typeof emptyForm>) => setForm((prev) => ({ ...prev, ...changes }));
+
+  const onError = (error: any) =>
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ["/api/promotions"] });
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      apiJson("POST", "/api/promotions", {
+        name: form.name,
+        kind: form.kind,
+        productIds: form.productIds
+          .split(",")
+          .map((id) => id.trim())
+          .filter(Boolean),
+        category: form.category.trim() || undefined,
+        ...(form.kind === "buy_x_get_y"
+          ? { buyQuantity: optionalNumber(form.buyQuantity), freeQuantity: optionalNumber(form.freeQuantity) }
+          : { discountType: form.discountType, discountValue: optionalNumber(form.discountValue) }),
+        minQuantity: form.kind === "quantity_break" ? optionalNumber(form.minQuantity) : undefined,
+        startsAt: form.startsAt ? new Date(form.startsAt).toISOString() : undefined,
+        endsAt: form.endsAt ? new Date(form.endsAt).toISOString() : undefined,
+      }),
+    onSuccess: () => {
+      setForm(emptyForm);
+      refresh();
+      toast({ title: "Promotion created" });
+    },
+    onError,
+  });
+
+  const endMutation = useMutation({
+    mutationFn: (id: string) => apiJson("POST", `/api/promotions/${id}/end`),
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Promotion ended", description: "New sales no longer get it." });
+    },
+    onError,
+  });
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="bg-card shadow-sm border-b">
+        <div className="container mx-auto px-4 py-4 flex items-center gap-3">
+          <Link href="/dashboard">
+            <Button variant="ghost" size="sm">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back
+            </Button>
+          </Link>
+          <div className="flex items-center gap-2">
+            <div className="w-10 h-10 bg-primary rounded-full flex items-center justify-center">
+              <Tag className="w-5 h-5 text-white" />
+            </div>
+            <div>
+              <h1 className="text-xl font-semibold">Promotions</h1>
+              <p className="text-sm text-muted-foreground">Scheduled discounts the POS applies automatically</p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 py-6 space-y-4 max-w-4xl">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">New Promotion</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                createMutation.mutate();
+              }}
+              className="grid grid-cols-1 sm:grid-cols-2 gap-4"
+            >
+              <div className="space-y-1">
+                <Label htmlFor="promotion-name">Name</Label>
+                <Input
+                  id="promotion-name"
+                  maxLength={100}
+                  placeholder="e.g. Rainy season sale"
+                  value={form.name}
+                  onChange={(e) => update({ name: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Type</Label>
+                <Select value={form.kind} onValueChange={(kind) => update({ kind: kind as PromotionKind })}>
+                  <SelectTrigger data-testid="select-promotion-kind">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {promotionKinds.map((kind) => (
+                      <SelectItem key={kind} value={kind}>
+                        {promotionKindLabels[kind]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="promotion-category">Category</Label>
+                <Input
+                  id="promotion-category"
+                  placeholder="e.g. Beverages"
+                  value={form.category}
+                  onChange={(e) => update({ category: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="promotion-products">
+                  Product IDs{form.kind === "category_sale" ? "" : " (instead of a category)"}
+                </Label>
+                <Input
+                  id="promotion-products"
+                  placeholder="Comma-separated"
+                  disabled={form.kind === "category_sale"}
+                  value={form.kind === "category_sale" ? "" : form.productIds}
+                  onChange={(e) => update({ productIds: e.target.value })}
+                />
+              </div>
+
+              {form.kind === "buy_x_get_y" ? (
+                <>
+                  <div className="space-y-1">
+                    <Label htmlFor="promotion-buy">Buy</Label>
+                    <Input
+                      id="promotion-buy"
+                      type="number"
+                      min={1}
+                      value={form.buyQuantity}
+                      onChange={(e) => update({ buyQuantity: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="promotion-free">Get free</Label>
+                    <Input
+                      id="promotion-free"
+                      type="number"
+                      min={1}
+                      value={form.freeQuantity}
+                      onChange={(e) => update({ freeQuantity: e.target.value })}
+                    />
+                  </div>
+                </>
+              ) : (
+                <>
+                  <div className="space-y-1">
+                    <Label>Discount</Label>
+                    <div className="flex gap-2">
+                      <Select
+                        value={form.discountType}
+                        onValueChange={(discountType) => update({ discountType: discountType as DiscountType })}
+                      >
+                        <SelectTrigger className="w-32">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {discountTypes.map((type) => (
+                            <SelectItem key={type} value={type}>
+                              {type === "percent" ? "Percent" : "Pesos per unit"}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Input
+                        type="number"
+                        min={0}
+                        value={form.discountValue}
+                        onChange={(e) => update({ discountValue: e.target.value })}
+                      />
+                    </div>
+                  </div>
+                  {form.kind === "quantity_break" ? (
+                    <div className="space-y-1">
+                      <Label htmlFor="promotion-min">Minimum quantity</Label>
+                      <Input
+                        id="promotion-min"
+                        type="number"
+                        min={2}
+                        value={form.minQuantity}
+                        onChange={(e) => update({ minQuantity: e.target.value })}
+                      />
+                    </div>
+                  ) : (
+                    <div />
+                  )}
+                </>
+              )}
+
+              <div className="space-y-1">
+                <Label htmlFor="promotion-starts">Starts</Label>
+                <Input
+                  id="promotion-starts"
+                  type="datetime-local"
+                  value={form.startsAt}
+                  onChange={(e) => update({ startsAt: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="promotion-ends">Ends</Label>
+                <Input
+                  id="promotion-ends"
+                  type="datetime-local"
+                  value={form.endsAt}
+                  onChange={(e) => update({ endsAt: e.target.value })}
+                />
+              </div>
+              <div className="sm:col-span-2">
+                <Button
+                  type="submit"
+                  disabled={createMutation.isPending || !form.name.trim() || !form.startsAt || !form.endsAt}
+                  data-testid="button-create-promotion"
+                >
+                  Create Promotion
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
+        {isLoading && <p className="text-sm text-muted-foreground">Loading promotions...</p>}
+        {!isLoading && promotions.length === 0 && (
+          <p className="text-sm text-muted-foreground">No promotions yet.</p>
+        )}
+
+        {promotions.map((promotion) => {
+          const current = status(promotion);
+          return (
+            <Card key={promotion.id}>
+              <CardContent className="pt-6 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                <div className="text-sm space-y-1">
+                  <p className="font-medium flex flex-wrap items-center gap-2">
+                    {promotion.name}
+                    <Badge variant={current.variant}>{current.label}</Badge>
+                  </p>
+                  <p className="text-muted-foreground">
+                    {promotionKindLabels[promotion.kind as PromotionKind]} · {describe(promotion)} ·{" "}
+                    {promotion.productIds.length ? promotion.productIds.join(", ") : promotion.category}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {new Date(promotion.startsAt).toLocaleString()} – {new Date(promotion.endsAt).toLocaleString()}
+                  </p>
+                </div>
+                {promotion.active && new Date(promotion.endsAt) > new Date() && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="text-red-500"
+                    onClick={() => endMutation.mutate(promotion.id)}
+                    disabled={endMutation.isPending}
+                  >
+                    <X className="w-4 h-4 mr-1" />
+                    End
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
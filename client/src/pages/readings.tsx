@@ -0,0 +1,268 @@
+import { useRef, useState } from "react";
+import { Link } from "wouter";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/context/AuthProvider";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, Download, FileClock, Printer, RefreshCw } from "lucide-react";
+import { ReadingReport } from "@/components/reading-report";
+import { receiptPdf } from "@/components/receipt";
+import type { SalesReading, ZReading } from "@shared/schema";
+import { peso } from "@/lib/utils";
+import { apiJson } from "@/lib/queryClient";
+
+const PAGE_SIZE = 50;
+
+/**
+ * The X-reading for the day so far, generating the Z-reading that closes the
+ * day, and every Z-reading since.
+ */
+export default function Readings() {
+  const { can } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [page, setPage] = useState(1);
+  // What the report dialog shows: the X-reading or a stored Z-reading
+  const [shown, setShown] = useState<SalesReading | ZReading | null>(null);
+  const [confirming, setConfirming] = useState(false);
+  const [generating, setGenerating] = useState(false);
+  const reportRef = useRef<HTMLDivElement>(null);
+
+  const canViewZ = can("report.view_financials") || can("report.z_reading");
+
+  const {
+    data: xReading,
+    isFetching: xLoading,
+    error: xError,
+    refetch: refetchX,
+  } = useQuery<SalesReading>({
+    queryKey: ["/api/readings/x"],
+    queryFn: () => apiJson("GET", "/api/readings/x"),
+    staleTime: 0,
+  });
+
+  const { data, isLoading, error } = useQuery<{ readings: ZReading[]; total: number }>({
+    queryKey: ["/api/readings/z", page],
+    queryFn: () => apiJson("GET", `/api/readings/z?page=${page}&pageSize=${PAGE_SIZE}`),
+    enabled: canViewZ,
+    staleTime: 0,
+  });
+
+  const readings = data?.readings ?? [];
+  const totalPages = Math.max(1, Math.ceil((data?.total ?? 0) / PAGE_SIZE));
+
+  const handleGenerate = async () => {
+    setGenerating(true);
+    try {
+      const reading: ZReading = await apiJson("POST", "/api/readings/z");
+      setConfirming(false);
+      setShown(reading);
+      queryClient.invalidateQueries({ queryKey: ["/api/readings/x"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/readings/z"] });
+      toast({ title: "Z-reading generated", description: `${reading.zNumber} closes the business day.` });
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const handlePdf = async (print: boolean) => {
+    if (!shown || !reportRef.current) return;
+    const pdf = await receiptPdf(reportRef.current);
+    if (print) {
+      pdf.autoPrint();
+      window.open(pdf.output("bloburl"), "_blank");
+    } else {
+      pdf.save("zNumber" in shown ? `z-reading-${shown.zNumber}.pdf` : `x-reading-${new Date().toISOString().slice(0, 10)}.pdf`);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="bg-card shadow-sm border-b">
+        <div className="container mx-auto px-4 py-4 flex items-center gap-3">
+          <Link href="/dashboard">
+            <Button variant="ghost" size="sm">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back
+            </Button>
+          </Link>
+          <div className="flex items-center gap-2">
+            <div className="w-10 h-10 bg-primary rounded-full flex items-center justify-center">
+              <FileClock className="w-5 h-5 text-white" />
+            </div>
+            <div>
+              <h1 className="text-xl font-semibold">X & Z Readings</h1>
+              <p className="text-sm text-muted-foreground">Sales so far, and the end-of-day readings</p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 py-6 space-y-4">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between gap-4">
+            <CardTitle className="text-lg">Since the last Z-reading</CardTitle>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={() => refetchX()} disabled={xLoading}>
+                <RefreshCw className="w-4 h-4 mr-1" />
+                Refresh
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => xReading && setShown(xReading)} disabled={!xReading}>
+                <Printer className="w-4 h-4 mr-1" />
+                X-Reading
+              </Button>
+              {can("report.z_reading") && (
+                <Button size="sm" onClick={() => setConfirming(true)} data-testid="button-generate-z">
+                  Generate Z-Reading
+                </Button>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent>
+            {xError ? (
+              <div className="text-center py-4 text-red-500">{(xError as Error).message}</div>
+            ) : !xReading ? (
+              <div className="text-center py-4 text-muted-foreground">Loading X-reading...</div>
+            ) : (
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                <div>
+                  <p className="text-muted-foreground">Transactions</p>
+                  <p className="text-xl font-bold">{xReading.transactionCount}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Gross sales</p>
+                  <p className="text-xl font-bold">{peso(xReading.grossSales)}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Net sales</p>
+                  <p className="text-xl font-bold">{peso(xReading.netSales)}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Receipts</p>
+                  <p className="font-mono">
+                    {xReading.beginningReceipt ?? "—"} – {xReading.endingReceipt ?? "—"}
+                  </p>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {canViewZ && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">{data ? `${data.total} Z-reading(s)` : "Z-readings"}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div className="text-center py-8 text-muted-foreground">Loading Z-readings...</div>
+              ) : error ? (
+                <div className="text-center py-8 text-red-500">{(error as Error).message}</div>
+              ) : readings.length === 0 ? (
+                <div className="text-center py-8 text-muted-foreground">No Z-readings yet.</div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Z No.</TableHead>
+                        <TableHead>Generated</TableHead>
+                        <TableHead>Receipts</TableHead>
+                        <TableHead className="text-right">Net Sales</TableHead>
+                        <TableHead className="text-right">Grand Total</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {readings.map((reading) => (
+                        <TableRow
+                          key={reading.id}
+                          className="cursor-pointer"
+                          onClick={() => setShown(reading)}
+                          data-testid={`row-z-reading-${reading.sequence}`}
+                        >
+                          <TableCell className="font-mono">{reading.zNumber}</TableCell>
+                          <TableCell className="whitespace-nowrap">
+                            {new Date(reading.createdAt).toLocaleString()}
+                            <span className="block text-xs text-muted-foreground">{reading.generatedByUsername ?? "—"}</span>
+                          </TableCell>
+                          <TableCell className="font-mono text-xs">
+                            {reading.beginningReceipt ?? "—"} – {reading.endingReceipt ?? "—"}
+                          </TableCell>
+                          <TableCell className="text-right">{peso(reading.netSales)}</TableCell>
+                          <TableCell className="text-right">{peso(reading.grandTotal)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+
+              <div className="flex items-center justify-between mt-4 text-sm">
+                <span className="text-muted-foreground">
+                  Page {page} of {totalPages}
+                </span>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage((p) => p - 1)}>
+                    Previous
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={page >= totalPages}
+                    onClick={() => setPage((p) => p + 1)}
+                  >
+                    Next
+                  </Button>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      <Dialog open={confirming} onOpenChange={setConfirming}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Generate Z-reading?</DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-muted-foreground">
+            This closes the business day. The Z-reading can't be changed or generated again for the same sales, and
+            the next X-reading starts from zero. Close the cash drawer shift first.
+          </p>
+          <DialogFooter className="gap-2">
+            <Button variant="outline" onClick={() => setConfirming(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleGenerate} disabled={generating} data-testid="button-confirm-z">
+              Generate
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!shown} onOpenChange={(open) => !open && setShown(null)}>
+        <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{shown && "zNumber" in shown ? `Z-reading ${shown.zNumber}` : "X-reading"}</DialogTitle>
+          </DialogHeader>
+          {shown && <ReadingReport ref={reportRef} reading={shown} />}
+          <DialogFooter className="gap-2">
+            <Button variant="outline" onClick={() => handlePdf(false)} data-testid="button-export-reading">
+              <Download className="w-4 h-4 mr-2" />
+              PDF
+            </Button>
+            <Button onClick={() => handlePdf(true)} data-testid="button-print-reading">
+              <Printer className="w-4 h-4 mr-2" />
+              Print
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
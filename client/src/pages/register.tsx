@@ -1,6 +1,6 @@
 // src/pages/register.tsx (or wherever your component lives)
-import { useState } from "react";
-import { useLocation } from "wouter";
+import { useEffect, useState } from "react";
+import { useLocation, useSearch } from "wouter";
 import { useToast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -9,6 +9,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { UserPlus, Loader2 } from "lucide-react";
 import { Link } from "wouter";
 import { apiRequest } from "@/lib/queryClient";
+import { BASE_API_URL } from "@/api";
 import blcmLogo from "@/assets/blcm-logo.png";
 
 interface RegisterData {
@@ -25,10 +26,22 @@ interface RegisterData {
    supplyCompany?: string;
 }
 
+// What the invitation link fixes in advance
+interface InvitationPreview {
+  role: string;
+  roleLabel: string;
+  email: string | null;
+  expiresAt: string;
+}
+
 export default function Register() {
   const [, setLocation] = useLocation();
+  const search = useSearch();
+  const invitationToken = new URLSearchParams(search).get("invite");
   const { toast } = useToast();
   const [isLoading, setIsLoading] = useState(false);
+  const [invitation, setInvitation] = useState<InvitationPreview | null>(null);
+  const [invitationError, setInvitationError] = useState<string | null>(null);
   const [formData, setFormData] = useState<RegisterData>({
     firstName: "",
     lastName: "",
@@ -40,6 +53,19 @@ export default function Register() {
     role: "user",
   });
 
+  // Invitation links lock the role (and the email, when the invite names one)
+  useEffect(() => {
+    if (!invitationToken) return;
+    fetch(`${BASE_API_URL}/api/invitations/${encodeURIComponent(invitationToken)}`, { credentials: "include" })
+      .then(async (res) => {
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(data.message || "This invitation is not valid");
+        setInvitation(data);
+        setFormData((prev) => ({ ...prev, role: data.role, email: data.email ?? prev.email }));
+      })
+      .catch((error: Error) => setInvitationError(error.message));
+  }, [invitationToken]);
+
   const handleInputChange = (field: keyof RegisterData, value: string | number | undefined) => {
     setFormData(prev => {
       // Keep types consistent: supplyQuantity as number | undefined
@@ -57,7 +83,7 @@ export default function Register() {
     if (data.password.length < 8) {
       throw new Error("Password must be at least 8 characters");
     }
-    if (!/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])/.test(data.password)) {
+    if (!/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[^A-Za-z0-9])/.test(data.password)) {
       throw new Error("Password must include uppercase, lowercase, number, and special character");
     }
 
@@ -88,17 +114,27 @@ export default function Register() {
       const payload: any = {
         ...formData,
         supplyQuantity: formData.supplyQuantity === undefined ? undefined : Number(formData.supplyQuantity),
+        invitationToken: invitation ? invitationToken : undefined,
       };
 
       // Keep confirmPassword — server's registerSchema expects it (server will strip before persisting)
       const response = await apiRequest("POST", "/api/register", payload);
+      const data = await response.json().catch(() => ({}));
 
       toast({
         title: "Success",
-        description: "Account created successfully! You can now login.",
+        description: data.emailVerificationRequired
+          ? "Account created! Enter the code we emailed you to verify your address."
+          : data.pendingApproval
+            ? "Account created! An administrator must approve it before you can login."
+            : "Account created successfully! You can now login.",
       });
 
-      setLocation("/login");
+      setLocation(
+        data.emailVerificationRequired
+          ? `/verify-email?email=${encodeURIComponent(formData.email)}`
+          : "/login"
+      );
     } catch (error: any) {
       toast({
         title: "Error",
@@ -131,6 +167,19 @@ export default function Register() {
               </p>
             </div>
 
+            {invitation && (
+              <div className="mb-4 rounded-lg border p-3 text-sm" data-testid="invitation-banner">
+                You've been invited to join as <strong>{invitation.roleLabel}</strong>. This link expires{" "}
+                {new Date(invitation.expiresAt).toLocaleString()}.
+              </div>
+            )}
+            {invitationError && (
+              <div className="mb-4 bg-destructive/10 border border-destructive/20 text-destructive rounded-lg p-3 text-sm">
+                {invitationError} You can still register as a user or supplier, or ask an
+                administrator for a new invitation.
+              </div>
+            )}
+
             <form onSubmit={handleSubmit} className="space-y-4">
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
@@ -221,6 +270,7 @@ export default function Register() {
                   placeholder="Enter email address"
                   value={formData.email}
                   onChange={(e) => handleInputChange("email", e.target.value)}
+                  readOnly={!!invitation?.email}
                   data-testid="input-email"
                   className="h-10 transition-all duration-200"
                 />
@@ -250,20 +300,26 @@ export default function Register() {
                 <Label htmlFor="role" className="text-foreground font-medium text-sm ">
                   Role
                 </Label>
-                <Select
-                  value={formData.role}
-                  onValueChange={(value) => handleInputChange("role", value)}
-                  data-testid="select-role"
-                >
-                  <SelectTrigger className="h-10 ">
-                    <SelectValue placeholder="Select a role" />
-                  </SelectTrigger>
-                  <SelectContent >
-                    <SelectItem value="staff" className="hover:bg-red-500 hover:text-white data-[state=checked]:bg-red-500 data-[state=checked]:text-white">Staff</SelectItem>
-                    <SelectItem value="admin" className="hover:bg-red-500 hover:text-white data-[state=checked]:bg-red-500 data-[state=checked]:text-white">Admin</SelectItem>
-                    <SelectItem value="supplier" className="hover:bg-red-500 hover:text-white data-[state=checked]:bg-red-500 data-[state=checked]:text-white">Supplier</SelectItem>
-                  </SelectContent>
-                </Select>
+                {invitation ? (
+                  <Input id="role" value={invitation.roleLabel} readOnly data-testid="input-role-locked" className="h-10" />
+                ) : (
+                  <Select
+                    value={formData.role}
+                    onValueChange={(value) => handleInputChange("role", value)}
+                    data-testid="select-role"
+                  >
+                    <SelectTrigger className="h-10 ">
+                      <SelectValue placeholder="Select a role" />
+                    </SelectTrigger>
+                    <SelectContent >
+                      <SelectItem value="user" className="hover:bg-red-500 hover:text-white data-[state=checked]:bg-red-500 data-[state=checked]:text-white">User</SelectItem>
+                      <SelectItem value="supplier" className="hover:bg-red-500 hover:text-white data-[state=checked]:bg-red-500 data-[state=checked]:text-white">Supplier</SelectItem>
+                    </SelectContent>
+                  </Select>
+                )}
+                {!invitation && (
+                  <p className="text-xs text-muted-foreground">Staff accounts are created by invitation from an administrator.</p>
+                )}
               </div>
 
              {formData.role === "supplier" && (
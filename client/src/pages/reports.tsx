@@ -7,10 +7,11 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { BarChart3, ArrowLeft, Download } from "lucide-react";
+import { BarChart3, ArrowLeft, Download, Landmark } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import jsPDF from "jspdf";
 import html2canvas from "html2canvas";
+import { discountSourceLabels, paymentMethodLabels, type DiscountSource, type PaymentMethod } from "@shared/schema";
 
 interface Order {
   id: string;
@@ -33,9 +34,18 @@ interface Product {
   price: number;
 }
 
+// The part of GET /api/reports/:period this page shows
+interface SalesReport {
+  totalSales: number;
+  paymentMethods: Array<{ method: PaymentMethod; total: number; count: number }>;
+  refunds: Array<{ method: PaymentMethod; total: number }>;
+  totalDiscounts: number;
+  discounts: Array<{ source: DiscountSource; total: number }>;
+}
+
 export default function Reports() {
   const [, setLocation] = useLocation();
-  const { user } = useAuth();
+  const { user, can } = useAuth();
   const { toast } = useToast();
   const [reportType, setReportType] = useState("daily");
   const reportRef = useRef<HTMLDivElement>(null);
@@ -72,6 +82,13 @@ export default function Reports() {
     return filteredOrders.reduce((sum, o) => sum + ((o.product?.price || 0) * (o.quantity || 0)), 0);
   }, [filteredOrders]);
 
+  // POS takings by tender, for whoever may see the financials
+  const { data: salesReport } = useQuery<SalesReport>({
+    queryKey: ["/api/reports", reportType],
+    enabled: !!user && can("report.view_financials"),
+    staleTime: 0,
+  });
+
   const lowStock = useMemo(() => products.filter(p => p.quantity < 10), [products]);
   const timestamp = new Date().toLocaleString();
 
@@ -121,10 +138,20 @@ export default function Reports() {
             </div>
           </div>
 
-          <Button onClick={handleExportPDF}>
-            <Download className="w-4 h-4 mr-2" />
-            Export to PDF
-          </Button>
+          <div className="flex gap-2">
+            {can("report.view_financials") && (
+              <Link href="/reports/vat">
+                <Button variant="outline">
+                  <Landmark className="w-4 h-4 mr-2" />
+                  VAT Summary
+                </Button>
+              </Link>
+            )}
+            <Button onClick={handleExportPDF}>
+              <Download className="w-4 h-4 mr-2" />
+              Export to PDF
+            </Button>
+          </div>
         </div>
       </header>
 
@@ -164,6 +191,62 @@ export default function Reports() {
                     </Card>
                   </div>
 
+                  {salesReport && (
+                    <div className="mb-6">
+                      <h2 className="text-lg font-semibold mb-2">POS Sales by Payment Method</h2>
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Method</TableHead>
+                            <TableHead className="text-right">Payments</TableHead>
+                            <TableHead className="text-right">Amount</TableHead>
+                            <TableHead className="text-right">Refunded</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {salesReport.paymentMethods.map((row) => (
+                            <TableRow key={row.method}>
+                              <TableCell>{paymentMethodLabels[row.method]}</TableCell>
+                              <TableCell className="text-right">{row.count}</TableCell>
+                              <TableCell className="text-right">₱{row.total.toFixed(2)}</TableCell>
+                              <TableCell className="text-right">
+                                -₱{(salesReport.refunds.find((refund) => refund.method === row.method)?.total ?? 0).toFixed(2)}
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                          <TableRow className="font-bold">
+                            <TableCell colSpan={3}>Net sales</TableCell>
+                            <TableCell className="text-right">₱{salesReport.totalSales.toFixed(2)}</TableCell>
+                          </TableRow>
+                        </TableBody>
+                      </Table>
+
+                      <h2 className="text-lg font-semibold mt-6 mb-2">Discounts Given</h2>
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Source</TableHead>
+                            <TableHead className="text-right">Amount</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {salesReport.discounts
+                            .filter((row) => row.total > 0)
+                            .map((row) => (
+                              <TableRow key={row.source}>
+                                <TableCell>{discountSourceLabels[row.source]}</TableCell>
+                                <TableCell className="text-right">₱{row.total.toFixed(2)}</TableCell>
+                              </TableRow>
+                            ))}
+                          <TableRow className="font-bold">
+                            <TableCell>Total discounts</TableCell>
+                            <TableCell className="text-right">₱{salesReport.totalDiscounts.toFixed(2)}</TableCell>
+                          </TableRow>
+                        </TableBody>
+                      </Table>
+                    </div>
+                  )}
+
                   <h2 className="text-lg font-semibold mb-2">Products Needing Restock</h2>
                   {lowStock.length > 0 ? (
                     <Table>
@@ -1,28 +1,72 @@
 import * as React from "react";
 import { useEffect, useState } from "react";
+import { Link, useLocation } from "wouter";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/context/AuthProvider";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
 import { Card, CardHeader, CardContent, CardTitle } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
-import { KeyRound, RefreshCcw } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ArrowLeft, Eye, KeyRound, LogOut, RefreshCcw, ShieldOff, Unlock, UserPlus } from "lucide-react";
+import type { SafeUser } from "@shared/schema";
+
+// GET /api/admin/accounts
+type Account = SafeUser & { isLocked: boolean };
+
+interface RoleOption {
+  name: string;
+  label: string;
+}
+
+const emptyNewAccount = {
+  username: "",
+  password: "",
+  firstName: "",
+  lastName: "",
+  role: "staff",
+};
 
 /**
- * Admin page to reset passwords for staff and supplier accounts
+ * Admin page to manage staff, supplier and user accounts:
+ * create, change role, deactivate/reactivate, unlock, reset passwords and 2FA,
+ * and view the app as the account
  */
 export default function ResetStaffPassword() {
-  const [users, setUsers] = useState<any[]>([]);
+  const [users, setUsers] = useState<Account[]>([]);
+  const [roles, setRoles] = useState<RoleOption[]>([]);
   const [passwords, setPasswords] = useState<Record<string, string>>({});
+  const [newAccount, setNewAccount] = useState(emptyNewAccount);
   const [loading, setLoading] = useState(false);
   const { toast } = useToast();
+  const { user: currentUser, can, impersonate } = useAuth();
+  const [, setLocation] = useLocation();
+
+  // Shared request helper: every admin endpoint answers { message } on failure
+  const adminRequest = async (method: string, url: string, body?: unknown) => {
+    const res = await fetch(url, {
+      method,
+      headers: body ? { "Content-Type": "application/json" } : {},
+      body: body ? JSON.stringify(body) : undefined,
+      credentials: "include",
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(data.message || "Request failed");
+    return data;
+  };
 
-  // Fetch all staff and supplier accounts
+  // Fetch all staff, supplier and user accounts
   const fetchUsers = async () => {
     try {
       setLoading(true);
-      const res = await fetch("/api/admin/accounts");
-      if (!res.ok) throw new Error("Failed to load accounts");
-      const data = await res.json();
+      const data = await adminRequest("GET", "/api/admin/accounts");
       setUsers(data);
     } catch (err: any) {
       toast({
@@ -35,17 +79,88 @@ export default function ResetStaffPassword() {
     }
   };
 
+  // Built-in and custom roles for the role pickers
+  const fetchRoles = async () => {
+    try {
+      setRoles(await adminRequest("GET", "/api/admin/roles"));
+    } catch (err: any) {
+      toast({
+        title: "Error",
+        description: err.message || "Failed to load roles",
+        variant: "destructive",
+      });
+    }
+  };
+
   useEffect(() => {
     fetchUsers();
+    fetchRoles();
   }, []);
 
+  // Run an account action, then swap the updated account into the list
+  const runAction = async (
+    method: string,
+    url: string,
+    successMessage: string,
+    body?: unknown
+  ) => {
+    try {
+      setLoading(true);
+      const updated = await adminRequest(method, url, body);
+      setUsers((prev) => prev.map((u) => (u.id === updated.id ? updated : u)));
+      toast({ title: "Success", description: successMessage });
+    } catch (err: any) {
+      toast({
+        title: "Error",
+        description: err.message || "Action failed",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Sign the account out of every device
+  const handleForceLogout = async (u: Account) => {
+    try {
+      setLoading(true);
+      const data = await adminRequest("POST", `/api/admin/accounts/${u.id}/logout`);
+      toast({ title: "Success", description: data.message });
+    } catch (err: any) {
+      toast({
+        title: "Error",
+        description: err.message || "Failed to sign out account",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Switch to a read-only session as the account; the banner switches back
+  const handleViewAs = async (u: Account) => {
+    try {
+      setLoading(true);
+      await impersonate(u.id);
+      setLocation("/dashboard");
+    } catch (err: any) {
+      toast({
+        title: "Error",
+        description: err.message || "Failed to view as user",
+        variant: "destructive",
+      });
+      setLoading(false);
+    }
+  };
+
   // Handle password reset
   const handleReset = async (username: string) => {
     const newPassword = passwords[username];
-    if (!newPassword || newPassword.trim().length < 6) {
+    // Strength rules live on the server (server/password-policy.ts)
+    if (!newPassword?.trim()) {
       toast({
         title: "Invalid Password",
-        description: "Password must be at least 6 characters.",
+        description: "Enter a new password.",
         variant: "destructive",
       });
       return;
@@ -53,20 +168,18 @@ export default function ResetStaffPassword() {
 
     try {
       setLoading(true);
-      const res = await fetch("/api/admin/reset-password", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ username, newPassword }),
-      });
-
-      const data = await res.json();
-      if (!res.ok) throw new Error(data.message || "Reset failed");
+      await adminRequest("POST", "/api/admin/reset-password", { username, newPassword });
 
+      // Anyone but yourself has to pick a new password at next sign-in
+      const mustChange = username !== currentUser?.username;
       toast({
         title: "Success",
-        description: `Password reset for ${username}`,
+        description: mustChange
+          ? `Password reset for ${username}. They will be asked to change it at next sign-in.`
+          : `Password reset for ${username}`,
       });
 
+      setUsers((prev) => prev.map((u) => (u.username === username ? { ...u, mustChangePassword: mustChange } : u)));
       setPasswords((prev) => ({ ...prev, [username]: "" }));
     } catch (err: any) {
       toast({
@@ -79,15 +192,114 @@ export default function ResetStaffPassword() {
     }
   };
 
-  // ✅ Clean, well-formed JSX
+  // Handle account creation
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setLoading(true);
+      const created = await adminRequest("POST", "/api/admin/accounts", {
+        ...newAccount,
+        firstName: newAccount.firstName || undefined,
+        lastName: newAccount.lastName || undefined,
+      });
+      setUsers((prev) => [created, ...prev]);
+      setNewAccount(emptyNewAccount);
+      toast({ title: "Success", description: `Account ${created.username} created` });
+    } catch (err: any) {
+      toast({
+        title: "Error",
+        description: err.message || "Failed to create account",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
   return (
     <div className="min-h-screen bg-background py-10 px-4">
-      <div className="max-w-4xl mx-auto">
+      <div className="max-w-4xl mx-auto space-y-6">
+        <Link href="/profile">
+          <Button variant="ghost" size="sm">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Profile
+          </Button>
+        </Link>
+
+        <Card className="shadow-md border">
+          <CardHeader>
+            <CardTitle className="text-xl font-semibold flex items-center gap-2">
+              <UserPlus className="w-5 h-5" />
+              Create Account
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleCreate} className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="new-username">Username</Label>
+                <Input
+                  id="new-username"
+                  value={newAccount.username}
+                  onChange={(e) => setNewAccount((prev) => ({ ...prev, username: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="new-password">Temporary Password</Label>
+                <Input
+                  id="new-password"
+                  type="password"
+                  value={newAccount.password}
+                  onChange={(e) => setNewAccount((prev) => ({ ...prev, password: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="new-firstName">First Name</Label>
+                <Input
+                  id="new-firstName"
+                  value={newAccount.firstName}
+                  onChange={(e) => setNewAccount((prev) => ({ ...prev, firstName: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="new-lastName">Last Name</Label>
+                <Input
+                  id="new-lastName"
+                  value={newAccount.lastName}
+                  onChange={(e) => setNewAccount((prev) => ({ ...prev, lastName: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Role</Label>
+                <Select
+                  value={newAccount.role}
+                  onValueChange={(role) => setNewAccount((prev) => ({ ...prev, role }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {roles.map((role) => (
+                      <SelectItem key={role.name} value={role.name}>
+                        {role.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-end">
+                <Button type="submit" disabled={loading} className="w-full">
+                  Create Account
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
         <Card className="shadow-md border">
           <CardHeader className="flex items-center justify-between">
             <CardTitle className="text-xl font-semibold flex items-center gap-2">
               <KeyRound className="w-5 h-5" />
-              Reset Staff & Supplier Passwords
+              Manage Accounts
             </CardTitle>
             <Button
               variant="outline"
@@ -109,7 +321,7 @@ export default function ResetStaffPassword() {
 
             {!loading && users.length === 0 && (
               <p className="text-sm text-muted-foreground">
-                No staff or supplier accounts found.
+                No staff, supplier or user accounts found.
               </p>
             )}
 
@@ -117,24 +329,118 @@ export default function ResetStaffPassword() {
               users.map((u) => (
                 <div
                   key={u.id}
-                  className="border-b py-4 flex flex-col sm:flex-row sm:items-center justify-between gap-4"
+                  className="border-b py-4 flex flex-col gap-4"
                 >
-                  <div>
-                    <p className="font-semibold text-foreground">
-                      {u.username}
-                    </p>
-                    <p className="text-sm text-muted-foreground">
-                      Role:{" "}
-                      {u.role
-                        ? u.role.charAt(0).toUpperCase() + u.role.slice(1)
-                        : "Unknown"}
-                    </p>
-                    <p className="text-xs text-muted-foreground">
-                      Created:{" "}
-                      {u.createdAt
-                        ? new Date(u.createdAt).toLocaleDateString()
-                        : "Unknown"}
-                    </p>
+                  <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                    <div>
+                      <p className="font-semibold text-foreground flex items-center gap-2">
+                        {u.username}
+                        {!u.isActive && <Badge variant="destructive">Deactivated</Badge>}
+                        {u.isLocked && <Badge variant="outline">Locked</Badge>}
+                        {u.twoFactorEnabled && <Badge variant="secondary">2FA</Badge>}
+                        {u.mustChangePassword && <Badge variant="outline">Must change password</Badge>}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        Created:{" "}
+                        {u.createdAt
+                          ? new Date(u.createdAt).toLocaleDateString()
+                          : "Unknown"}
+                      </p>
+                    </div>
+
+                    <div className="flex flex-wrap gap-2 items-center">
+                      <Select
+                        value={String(u.role || "").toLowerCase()}
+                        onValueChange={(role) =>
+                          runAction("PUT", `/api/admin/accounts/${u.id}/role`, `${u.username} is now ${role}`, { role })
+                        }
+                      >
+                        <SelectTrigger className="w-32">
+                          <SelectValue placeholder="Role" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {roles.map((role) => (
+                            <SelectItem key={role.name} value={role.name}>
+                              {role.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+
+                      {u.isLocked && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={loading}
+                          onClick={() =>
+                            runAction("POST", `/api/admin/accounts/${u.id}/unlock`, `${u.username} unlocked`)
+                          }
+                        >
+                          <Unlock className="w-4 h-4 mr-1" />
+                          Unlock
+                        </Button>
+                      )}
+
+                      {u.twoFactorEnabled && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={loading}
+                          onClick={() =>
+                            runAction("POST", `/api/admin/accounts/${u.id}/reset-2fa`, `Two-factor reset for ${u.username}`)
+                          }
+                        >
+                          <ShieldOff className="w-4 h-4 mr-1" />
+                          Reset 2FA
+                        </Button>
+                      )}
+
+                      {can("account.impersonate") && u.isActive && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={loading}
+                          onClick={() => handleViewAs(u)}
+                        >
+                          <Eye className="w-4 h-4 mr-1" />
+                          View as
+                        </Button>
+                      )}
+
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={loading}
+                        onClick={() => handleForceLogout(u)}
+                      >
+                        <LogOut className="w-4 h-4 mr-1" />
+                        Force Logout
+                      </Button>
+
+                      {u.isActive ? (
+                        <Button
+                          variant="destructive"
+                          size="sm"
+                          disabled={loading}
+                          onClick={() =>
+                            runAction("POST", `/api/admin/accounts/${u.id}/deactivate`, `${u.username} deactivated`)
+                          }
+                        >
+                          Deactivate
+                        </Button>
+                      ) : (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={loading}
+                          onClick={() =>
+                            runAction("POST", `/api/admin/accounts/${u.id}/reactivate`, `${u.username} reactivated`)
+                          }
+                        >
+                          Reactivate
+                        </Button>
+                      )}
+                    </div>
                   </div>
 
                   <div className="flex flex-col sm:flex-row gap-2 sm:items-center">
@@ -0,0 +1,226 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { apiJson } from "@/lib/queryClient";
+import { ArrowLeft, Plus, Save, Trash2, Users } from "lucide-react";
+import { permissionCatalog, permissions, type Permission } from "@shared/schema";
+
+interface RoleInfo {
+  name: string;
+  label: string;
+  permissions: Permission[];
+  builtIn: boolean;
+}
+
+function PermissionPicker({
+  value,
+  onChange,
+  disabled = false,
+}: {
+  value: Permission[];
+  onChange?: (value: Permission[]) => void;
+  disabled?: boolean;
+}) {
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+      {permissions.map((p) => (
+        <label key={p} className="flex items-start gap-2 text-sm">
+          <Checkbox
+            checked={value.includes(p)}
+            disabled={disabled}
+            onCheckedChange={(checked) =>
+              onChange?.(checked === true ? [...value, p] : value.filter((v) => v !== p))
+            }
+          />
+          <span>
+            <span className="font-mono text-xs">{p}</span>
+            <span className="block text-muted-foreground text-xs">{permissionCatalog[p]}</span>
+          </span>
+        </label>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Admin page for roles: the built-in roles (read-only) and custom roles
+ * assembled from the permission catalog
+ */
+export default function Roles() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [newRole, setNewRole] = useState({ name: "", label: "", permissions: [] as Permission[] });
+  // Unsaved permission edits per custom role
+  const [edits, setEdits] = useState<Record<string, Permission[]>>({});
+
+  const { data: roles = [], isLoading } = useQuery<RoleInfo[]>({
+    queryKey: ["/api/admin/roles"],
+    queryFn: () => apiJson("GET", "/api/admin/roles"),
+  });
+
+  const onError = (error: any) =>
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ["/api/admin/roles"] });
+
+  const createMutation = useMutation({
+    mutationFn: () => apiJson("POST", "/api/admin/roles", newRole),
+    onSuccess: (role: RoleInfo) => {
+      setNewRole({ name: "", label: "", permissions: [] });
+      refresh();
+      toast({ title: "Role created", description: `${role.label} is ready to assign.` });
+    },
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: (role: RoleInfo) =>
+      apiJson("PUT", `/api/admin/roles/${role.name}`, {
+        label: role.label,
+        permissions: edits[role.name],
+      }),
+    onSuccess: (role: RoleInfo) => {
+      setEdits(({ [role.name]: _, ...rest }) => rest);
+      refresh();
+      toast({ title: "Role updated", description: `${role.label} permissions saved.` });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (name: string) => apiJson("DELETE", `/api/admin/roles/${name}`),
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Role deleted" });
+    },
+    onError,
+  });
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="bg-card shadow-sm border-b">
+        <div className="container mx-auto px-4 py-4 flex items-center gap-3">
+          <Link href="/dashboard">
+            <Button variant="ghost" size="sm">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back
+            </Button>
+          </Link>
+          <div className="flex items-center gap-2">
+            <div className="w-10 h-10 bg-primary rounded-full flex items-center justify-center">
+              <Users className="w-5 h-5 text-white" />
+            </div>
+            <div>
+              <h1 className="text-xl font-semibold">Roles & Permissions</h1>
+              <p className="text-sm text-muted-foreground">What each role is allowed to do</p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 py-6 space-y-4 max-w-4xl">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Plus className="w-5 h-5" />
+              New Custom Role
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                createMutation.mutate();
+              }}
+              className="space-y-4"
+            >
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="space-y-1">
+                  <Label htmlFor="role-name">Name</Label>
+                  <Input
+                    id="role-name"
+                    placeholder="e.g. cashier"
+                    value={newRole.name}
+                    onChange={(e) => setNewRole((prev) => ({ ...prev, name: e.target.value }))}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="role-label">Label</Label>
+                  <Input
+                    id="role-label"
+                    placeholder="e.g. Cashier"
+                    value={newRole.label}
+                    onChange={(e) => setNewRole((prev) => ({ ...prev, label: e.target.value }))}
+                  />
+                </div>
+              </div>
+              <PermissionPicker
+                value={newRole.permissions}
+                onChange={(permissions) => setNewRole((prev) => ({ ...prev, permissions }))}
+              />
+              <Button
+                type="submit"
+                disabled={createMutation.isPending || !newRole.name.trim() || !newRole.label.trim()}
+              >
+                Create Role
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        {isLoading && <p className="text-sm text-muted-foreground">Loading roles...</p>}
+
+        {roles.map((role) => {
+          const current = edits[role.name] ?? role.permissions;
+          return (
+            <Card key={role.name}>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                <CardTitle className="text-lg flex items-center gap-2">
+                  {role.label}
+                  <span className="font-mono text-xs text-muted-foreground">{role.name}</span>
+                  {role.builtIn && <Badge variant="outline">Built-in</Badge>}
+                </CardTitle>
+                {!role.builtIn && (
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      disabled={!edits[role.name] || updateMutation.isPending}
+                      onClick={() => updateMutation.mutate(role)}
+                    >
+                      <Save className="w-4 h-4 mr-1" />
+                      Save
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="text-red-500"
+                      disabled={deleteMutation.isPending}
+                      onClick={() => deleteMutation.mutate(role.name)}
+                      aria-label="Delete role"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                )}
+              </CardHeader>
+              <CardContent>
+                <PermissionPicker
+                  value={current}
+                  disabled={role.builtIn}
+                  onChange={(permissions) => setEdits((prev) => ({ ...prev, [role.name]: permissions }))}
+                />
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
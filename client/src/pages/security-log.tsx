@@ -0,0 +1,242 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ArrowLeft, Download, ShieldAlert } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { securityEventTypes, type SecurityEvent } from "@shared/schema";
+
+const PAGE_SIZE = 50;
+
+const formatType = (type: string) =>
+  type.replace(/_/g, " ").replace(/^\w/, (c) => c.toUpperCase());
+
+/**
+ * Admin viewer for the security event log (logins, lockouts, resets, ...)
+ */
+export default function SecurityLog() {
+  const { toast } = useToast();
+  const [type, setType] = useState("all");
+  const [username, setUsername] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [page, setPage] = useState(1);
+
+  const buildParams = () => {
+    const params = new URLSearchParams();
+    if (type !== "all") params.set("type", type);
+    if (username.trim()) params.set("username", username.trim());
+    if (from) params.set("from", new Date(`${from}T00:00:00`).toISOString());
+    if (to) params.set("to", new Date(`${to}T23:59:59.999`).toISOString());
+    return params;
+  };
+
+  const { data, isLoading } = useQuery<{ events: SecurityEvent[]; total: number }>({
+    queryKey: ["/api/admin/security-events", type, username, from, to, page],
+    queryFn: async () => {
+      const params = buildParams();
+      params.set("page", String(page));
+      params.set("pageSize", String(PAGE_SIZE));
+      return (await apiRequest("GET", `/api/admin/security-events?${params}`)).json();
+    },
+  });
+
+  const events = data?.events ?? [];
+  const totalPages = Math.max(1, Math.ceil((data?.total ?? 0) / PAGE_SIZE));
+
+  const handleExport = async () => {
+    try {
+      const res = await apiRequest("GET", `/api/admin/security-events/export?${buildParams()}`);
+      const url = URL.createObjectURL(await res.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `security-events-${new Date().toISOString().slice(0, 10)}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error: any) {
+      toast({ title: "Export failed", description: error.message, variant: "destructive" });
+    }
+  };
+
+  // Any filter change starts over from the first page
+  const updateFilter = (setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    setPage(1);
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="bg-card shadow-sm border-b">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Link href="/dashboard">
+              <Button variant="ghost" size="sm">
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back
+              </Button>
+            </Link>
+            <div className="flex items-center gap-2">
+              <div className="w-10 h-10 bg-primary rounded-full flex items-center justify-center">
+                <ShieldAlert className="w-5 h-5 text-white" />
+              </div>
+              <div>
+                <h1 className="text-xl font-semibold">Security Log</h1>
+                <p className="text-sm text-muted-foreground">Logins, lockouts and account changes</p>
+              </div>
+            </div>
+          </div>
+
+          <Button onClick={handleExport}>
+            <Download className="w-4 h-4 mr-2" />
+            Export CSV
+          </Button>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 py-6 space-y-4">
+        <Card>
+          <CardContent className="pt-6 grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="space-y-1">
+              <Label>Event</Label>
+              <Select value={type} onValueChange={updateFilter(setType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All events</SelectItem>
+                  {securityEventTypes.map((t) => (
+                    <SelectItem key={t} value={t}>
+                      {formatType(t)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="filter-username">Username</Label>
+              <Input
+                id="filter-username"
+                value={username}
+                onChange={(e) => updateFilter(setUsername)(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="filter-from">From</Label>
+              <Input
+                id="filter-from"
+                type="date"
+                value={from}
+                onChange={(e) => updateFilter(setFrom)(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="filter-to">To</Label>
+              <Input
+                id="filter-to"
+                type="date"
+                value={to}
+                onChange={(e) => updateFilter(setTo)(e.target.value)}
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">
+              {data ? `${data.total} event(s)` : "Events"}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="text-center py-8 text-muted-foreground">Loading events...</div>
+            ) : events.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">No events found.</div>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Time</TableHead>
+                      <TableHead>Event</TableHead>
+                      <TableHead>User</TableHead>
+                      <TableHead>By</TableHead>
+                      <TableHead>IP</TableHead>
+                      <TableHead>Details</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {events.map((e) => (
+                      <TableRow key={e.id}>
+                        <TableCell className="whitespace-nowrap">
+                          {new Date(e.createdAt).toLocaleString()}
+                        </TableCell>
+                        <TableCell>
+                          <Badge
+                            variant={
+                              e.type === "login_failure" || e.type === "account_locked"
+                                ? "destructive"
+                                : "outline"
+                            }
+                          >
+                            {formatType(e.type)}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>{e.username || "—"}</TableCell>
+                        <TableCell>{e.actorUsername || "—"}</TableCell>
+                        <TableCell className="font-mono text-xs">{e.ip || "—"}</TableCell>
+                        <TableCell
+                          className="font-mono text-xs max-w-xs truncate"
+                          title={e.userAgent ?? undefined}
+                        >
+                          {e.details || "—"}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
+            <div className="flex items-center justify-between mt-4 text-sm">
+              <span className="text-muted-foreground">
+                Page {page} of {totalPages}
+              </span>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={page <= 1}
+                  onClick={() => setPage((p) => p - 1)}
+                >
+                  Previous
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={page >= totalPages}
+                  onClick={() => setPage((p) => p + 1)}
+                >
+                  Next
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,213 @@
+import { useRef, useState } from "react";
+import { Link } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ArrowLeft, Download, Printer, Vault } from "lucide-react";
+import { ShiftReport } from "@/components/shift-report";
+import { receiptPdf } from "@/components/receipt";
+import type { Shift, ShiftStatus } from "@shared/schema";
+import { peso } from "@/lib/utils";
+import { apiJson } from "@/lib/queryClient";
+
+const PAGE_SIZE = 50;
+
+/** Past drawer shifts and their over/short, with the closing report for each. */
+export default function Shifts() {
+  const [status, setStatus] = useState<ShiftStatus | "all">("all");
+  const [page, setPage] = useState(1);
+  const [selected, setSelected] = useState<Shift | null>(null);
+  const reportRef = useRef<HTMLDivElement>(null);
+
+  const { data, isLoading, error } = useQuery<{ shifts: Shift[]; total: number }>({
+    queryKey: ["/api/shifts", status, page],
+    queryFn: () => {
+      const params = new URLSearchParams({ page: String(page), pageSize: String(PAGE_SIZE) });
+      if (status !== "all") params.set("status", status);
+      return apiJson("GET", `/api/shifts?${params}`);
+    },
+    staleTime: 0,
+  });
+
+  const shifts = data?.shifts ?? [];
+  const totalPages = Math.max(1, Math.ceil((data?.total ?? 0) / PAGE_SIZE));
+
+  const handlePdf = async (print: boolean) => {
+    if (!selected || !reportRef.current) return;
+    const pdf = await receiptPdf(reportRef.current);
+    if (print) {
+      pdf.autoPrint();
+      window.open(pdf.output("bloburl"), "_blank");
+    } else {
+      pdf.save(`shift-${selected.storeCode}-${selected.shiftNumber}.pdf`);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="bg-card shadow-sm border-b">
+        <div className="container mx-auto px-4 py-4 flex items-center gap-3">
+          <Link href="/dashboard">
+            <Button variant="ghost" size="sm">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back
+            </Button>
+          </Link>
+          <div className="flex items-center gap-2">
+            <div className="w-10 h-10 bg-primary rounded-full flex items-center justify-center">
+              <Vault className="w-5 h-5 text-white" />
+            </div>
+            <div>
+              <h1 className="text-xl font-semibold">Cash Drawer Shifts</h1>
+              <p className="text-sm text-muted-foreground">Drawer counts, over/short and closing reports</p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 py-6 space-y-4">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between gap-4">
+            <CardTitle className="text-lg">{data ? `${data.total} shift(s)` : "Shifts"}</CardTitle>
+            <Select
+              value={status}
+              onValueChange={(value) => {
+                setStatus(value as ShiftStatus | "all");
+                setPage(1);
+              }}
+            >
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All shifts</SelectItem>
+                <SelectItem value="open">Open</SelectItem>
+                <SelectItem value="closed">Closed</SelectItem>
+              </SelectContent>
+            </Select>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="text-center py-8 text-muted-foreground">Loading shifts...</div>
+            ) : error ? (
+              <div className="text-center py-8 text-red-500">{(error as Error).message}</div>
+            ) : shifts.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">No shifts found.</div>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Shift</TableHead>
+                      <TableHead>Opened</TableHead>
+                      <TableHead>Closed</TableHead>
+                      <TableHead className="text-right">Sales</TableHead>
+                      <TableHead className="text-right">Expected</TableHead>
+                      <TableHead className="text-right">Counted</TableHead>
+                      <TableHead className="text-right">Over/Short</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {shifts.map((shift) => (
+                      <TableRow
+                        key={shift.id}
+                        className="cursor-pointer"
+                        onClick={() => setSelected(shift)}
+                        data-testid={`row-shift-${shift.shiftNumber}`}
+                      >
+                        <TableCell className="font-mono">
+                          #{shift.shiftNumber}
+                          {shift.status === "open" && (
+                            <Badge variant="secondary" className="ml-2">
+                              Open
+                            </Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap">
+                          {new Date(shift.openedAt).toLocaleString()}
+                          <span className="block text-xs text-muted-foreground">{shift.openedByUsername ?? "—"}</span>
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap">
+                          {shift.closedAt ? new Date(shift.closedAt).toLocaleString() : "—"}
+                          {shift.closedAt && (
+                            <span className="block text-xs text-muted-foreground">{shift.closedByUsername ?? "—"}</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">{shift.transactionCount}</TableCell>
+                        <TableCell className="text-right">
+                          {shift.expectedCash !== null ? peso(shift.expectedCash) : "—"}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {shift.countedCash !== null ? peso(shift.countedCash) : "—"}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {shift.overShort === null ? (
+                            "—"
+                          ) : shift.overShort === 0 ? (
+                            <Badge variant="outline">Balanced</Badge>
+                          ) : (
+                            <Badge variant={shift.overShort < 0 ? "destructive" : "secondary"}>
+                              {shift.overShort < 0 ? "Short" : "Over"} {peso(Math.abs(shift.overShort))}
+                            </Badge>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
+            <div className="flex items-center justify-between mt-4 text-sm">
+              <span className="text-muted-foreground">
+                Page {page} of {totalPages}
+              </span>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage((p) => p - 1)}>
+                  Previous
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={page >= totalPages}
+                  onClick={() => setPage((p) => p + 1)}
+                >
+                  Next
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={!!selected} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Shift #{selected?.shiftNumber}</DialogTitle>
+          </DialogHeader>
+          {selected && <ShiftReport ref={reportRef} shift={selected} />}
+          <DialogFooter className="gap-2">
+            <Button variant="outline" onClick={() => handlePdf(false)} data-testid="button-export-shift">
+              <Download className="w-4 h-4 mr-2" />
+              PDF
+            </Button>
+            <Button onClick={() => handlePdf(true)} data-testid="button-print-shift">
+              <Printer className="w-4 h-4 mr-2" />
+              Print
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,325 @@
+import { useRef, useState } from "react";
+import { flushSync } from "react-dom";
+import { Link } from "wouter";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/context/AuthProvider";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, Ban, Download, Printer, ReceiptText, Undo2 } from "lucide-react";
+import { Receipt, receiptPdf } from "@/components/receipt";
+import { CreditNoteDocument } from "@/components/credit-note";
+import { CreditDialog } from "@/components/credit-dialog";
+import type { CreditKind, CreditNote, Transaction } from "@shared/schema";
+import { peso } from "@/lib/utils";
+import { apiJson } from "@/lib/queryClient";
+
+const PAGE_SIZE = 50;
+
+/**
+ * Past sales with receipt lookup. Every copy printed or exported from here
+ * is counted by the server and marked REPRINT. Voids and returns start here
+ * too and end on their credit note.
+ */
+export default function TransactionHistory() {
+  const { can } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [receiptNumber, setReceiptNumber] = useState("");
+  const [cashier, setCashier] = useState("");
+  const [product, setProduct] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [page, setPage] = useState(1);
+  const [selected, setSelected] = useState<Transaction | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [creditKind, setCreditKind] = useState<CreditKind | null>(null);
+  const [viewedCredit, setViewedCredit] = useState<CreditNote | null>(null);
+  const receiptRef = useRef<HTMLDivElement>(null);
+  const creditRef = useRef<HTMLDivElement>(null);
+
+  const { data, isLoading, error } = useQuery<{ transactions: Transaction[]; total: number }>({
+    queryKey: ["/api/sales/transactions", receiptNumber, cashier, product, from, to, page],
+    queryFn: () => {
+      const params = new URLSearchParams();
+      if (receiptNumber.trim()) params.set("receiptNumber", receiptNumber.trim());
+      if (cashier.trim()) params.set("cashier", cashier.trim());
+      if (product.trim()) params.set("product", product.trim());
+      if (from) params.set("from", new Date(`${from}T00:00:00`).toISOString());
+      if (to) params.set("to", new Date(`${to}T23:59:59.999`).toISOString());
+      params.set("page", String(page));
+      params.set("pageSize", String(PAGE_SIZE));
+      return apiJson("GET", `/api/sales/transactions?${params}`);
+    },
+    staleTime: 0,
+  });
+
+  const { data: credits = [] } = useQuery<CreditNote[]>({
+    queryKey: ["/api/sales/transactions", selected?.id, "credits"],
+    queryFn: () => apiJson("GET", `/api/sales/transactions/${selected!.id}/credits`),
+    enabled: !!selected,
+    staleTime: 0,
+  });
+
+  const transactions = data?.transactions ?? [];
+  const totalPages = Math.max(1, Math.ceil((data?.total ?? 0) / PAGE_SIZE));
+
+  // Any filter change starts over from the first page
+  const updateFilter = (setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    setPage(1);
+  };
+
+  // Records the copy first so the REPRINT mark carries its number and time
+  const makeCopy = async (output: (pdf: Awaited<ReturnType<typeof receiptPdf>>) => void) => {
+    if (!selected) return;
+    setBusy(true);
+    try {
+      const updated: Transaction = await apiJson("POST", `/api/sales/transactions/${selected.id}/reprint`);
+      flushSync(() => setSelected(updated));
+      output(await receiptPdf(receiptRef.current!));
+      queryClient.invalidateQueries({ queryKey: ["/api/sales/transactions"] });
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handlePrint = () =>
+    makeCopy((pdf) => {
+      pdf.autoPrint();
+      window.open(pdf.output("bloburl"), "_blank");
+    });
+
+  const handleExport = () => makeCopy((pdf) => pdf.save(`receipt-${selected!.receiptNumber}.pdf`));
+
+  const handleCreditDone = (credit: CreditNote, transaction: Transaction) => {
+    setCreditKind(null);
+    setSelected(transaction);
+    setViewedCredit(credit);
+    queryClient.invalidateQueries({ queryKey: ["/api/sales/transactions"] });
+    queryClient.invalidateQueries({ queryKey: ["products"] });
+    toast({ title: "Credit note issued", description: `${credit.creditNumber} for ₱${credit.total.toFixed(2)}` });
+  };
+
+  const exportCredit = async () => {
+    if (!viewedCredit || !creditRef.current) return;
+    (await receiptPdf(creditRef.current)).save(`credit-note-${viewedCredit.creditNumber}.pdf`);
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="bg-card shadow-sm border-b">
+        <div className="container mx-auto px-4 py-4 flex items-center gap-3">
+          <Link href="/dashboard">
+            <Button variant="ghost" size="sm">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back
+            </Button>
+          </Link>
+          <div className="flex items-center gap-2">
+            <div className="w-10 h-10 bg-primary rounded-full flex items-center justify-center">
+              <ReceiptText className="w-5 h-5 text-white" />
+            </div>
+            <div>
+              <h1 className="text-xl font-semibold">Transaction History</h1>
+              <p className="text-sm text-muted-foreground">Look up, reprint and export past receipts</p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 py-6 space-y-4">
+        <Card>
+          <CardContent className="pt-6 grid grid-cols-1 md:grid-cols-5 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="filter-receipt">Receipt No.</Label>
+              <Input
+                id="filter-receipt"
+                value={receiptNumber}
+                onChange={(e) => updateFilter(setReceiptNumber)(e.target.value)}
+                data-testid="input-filter-receipt"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="filter-cashier">Cashier</Label>
+              <Input id="filter-cashier" value={cashier} onChange={(e) => updateFilter(setCashier)(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="filter-product">Product</Label>
+              <Input
+                id="filter-product"
+                placeholder="ID or name"
+                value={product}
+                onChange={(e) => updateFilter(setProduct)(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="filter-from">From</Label>
+              <Input id="filter-from" type="date" value={from} onChange={(e) => updateFilter(setFrom)(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="filter-to">To</Label>
+              <Input id="filter-to" type="date" value={to} onChange={(e) => updateFilter(setTo)(e.target.value)} />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">
+              {data ? `${data.total} transaction(s)` : "Transactions"}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="text-center py-8 text-muted-foreground">Loading transactions...</div>
+            ) : error ? (
+              <div className="text-center py-8 text-red-500">{(error as Error).message}</div>
+            ) : transactions.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">No transactions found.</div>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Receipt No.</TableHead>
+                      <TableHead>Time</TableHead>
+                      <TableHead>Cashier</TableHead>
+                      <TableHead className="text-right">Items</TableHead>
+                      <TableHead className="text-right">Total</TableHead>
+                      <TableHead></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {transactions.map((t) => (
+                      <TableRow
+                        key={t.id}
+                        className="cursor-pointer"
+                        onClick={() => setSelected(t)}
+                        data-testid={`row-transaction-${t.receiptNumber}`}
+                      >
+                        <TableCell className="font-mono">{t.receiptNumber}</TableCell>
+                        <TableCell className="whitespace-nowrap">{new Date(t.createdAt).toLocaleString()}</TableCell>
+                        <TableCell>{t.cashierUsername || "—"}</TableCell>
+                        <TableCell className="text-right">
+                          {t.items.reduce((sum, item) => sum + item.quantity, 0)}
+                        </TableCell>
+                        <TableCell className="text-right font-medium">{peso(t.total)}</TableCell>
+                        <TableCell className="text-right space-x-1">
+                          {t.voidedAt && <Badge variant="destructive">Voided</Badge>}
+                          {!t.voidedAt && t.items.some((item) => item.returnedQuantity > 0) && (
+                            <Badge variant="secondary">Returns</Badge>
+                          )}
+                          {t.reprintCount > 0 && <Badge variant="outline">Reprinted ×{t.reprintCount}</Badge>}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
+            <div className="flex items-center justify-between mt-4 text-sm">
+              <span className="text-muted-foreground">
+                Page {page} of {totalPages}
+              </span>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage((p) => p - 1)}>
+                  Previous
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={page >= totalPages}
+                  onClick={() => setPage((p) => p + 1)}
+                >
+                  Next
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={!!selected} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Receipt {selected?.receiptNumber}</DialogTitle>
+          </DialogHeader>
+          {selected && <Receipt ref={receiptRef} transaction={selected} reprint />}
+          {credits.length > 0 && (
+            <div className="text-sm space-y-1">
+              <p className="font-medium">Credit notes</p>
+              {credits.map((credit) => (
+                <button
+                  key={credit.id}
+                  type="button"
+                  className="flex w-full justify-between rounded border px-2 py-1 text-left hover:bg-muted"
+                  onClick={() => setViewedCredit(credit)}
+                >
+                  <span className="font-mono">{credit.creditNumber}</span>
+                  <span className="capitalize">
+                    {credit.kind} · ₱{credit.total.toFixed(2)}
+                  </span>
+                </button>
+              ))}
+            </div>
+          )}
+          <DialogFooter className="gap-2 flex-wrap">
+            {selected && !selected.voidedAt && can("sale.void") && (
+              <>
+                <Button variant="outline" onClick={() => setCreditKind("return")} data-testid="button-return">
+                  <Undo2 className="w-4 h-4 mr-2" />
+                  Return
+                </Button>
+                <Button variant="outline" onClick={() => setCreditKind("void")} data-testid="button-void">
+                  <Ban className="w-4 h-4 mr-2" />
+                  Void
+                </Button>
+              </>
+            )}
+            <Button variant="outline" onClick={handleExport} disabled={busy} data-testid="button-export-receipt">
+              <Download className="w-4 h-4 mr-2" />
+              PDF
+            </Button>
+            <Button onClick={handlePrint} disabled={busy} data-testid="button-reprint-receipt">
+              <Printer className="w-4 h-4 mr-2" />
+              Reprint
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {selected && (
+        <CreditDialog
+          transaction={selected}
+          kind={creditKind}
+          onClose={() => setCreditKind(null)}
+          onDone={handleCreditDone}
+        />
+      )}
+
+      <Dialog open={!!viewedCredit} onOpenChange={(open) => !open && setViewedCredit(null)}>
+        <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Credit Note {viewedCredit?.creditNumber}</DialogTitle>
+          </DialogHeader>
+          {viewedCredit && <CreditNoteDocument ref={creditRef} credit={viewedCredit} />}
+          <DialogFooter>
+            <Button variant="outline" onClick={exportCredit} data-testid="button-export-credit">
+              <Download className="w-4 h-4 mr-2" />
+              PDF
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
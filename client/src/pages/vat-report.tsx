@@ -0,0 +1,171 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, Download, Landmark } from "lucide-react";
+import type { VatBreakdown, VatReportPeriod } from "@shared/schema";
+import { peso } from "@/lib/utils";
+import { apiJson } from "@/lib/queryClient";
+
+type VatRow = VatBreakdown & {
+  date: string;
+  transactions: number;
+  grossSales: number;
+  credits: number;
+  netSales: number;
+};
+
+// GET /api/reports/vat
+interface VatReport {
+  period: VatReportPeriod;
+  rows: VatRow[];
+  totals: Omit<VatRow, "date">;
+}
+
+const COLUMNS: Array<{ key: Exclude<keyof VatRow, "date" | "transactions">; label: string }> = [
+  { key: "grossSales", label: "Gross Sales" },
+  { key: "credits", label: "Voids & Returns" },
+  { key: "netSales", label: "Net Sales" },
+  { key: "vatableSales", label: "VATable Sales" },
+  { key: "vatAmount", label: "VAT Amount" },
+  { key: "vatExemptSales", label: "VAT-Exempt Sales" },
+  { key: "zeroRatedSales", label: "Zero-Rated Sales" },
+];
+
+/**
+ * VATable / VAT / exempt / zero-rated totals per day of a month or per month
+ * of a year, net of voids and returns, for the bookkeeper's VAT returns.
+ */
+export default function VatReportPage() {
+  const now = new Date();
+  const [period, setPeriod] = useState<VatReportPeriod>("daily");
+  // yyyy-mm for daily, yyyy for monthly
+  const [month, setMonth] = useState(`${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}`);
+  const [year, setYear] = useState(String(now.getFullYear()));
+
+  const params = new URLSearchParams(
+    period === "daily"
+      ? { period, year: month.slice(0, 4), month: String(Number(month.slice(5, 7))) }
+      : { period, year },
+  );
+
+  const { data, isLoading, error } = useQuery<VatReport>({
+    queryKey: ["/api/reports/vat", params.toString()],
+    queryFn: () => apiJson("GET", `/api/reports/vat?${params}`),
+    enabled: period === "daily" ? /^\d{4}-\d{2}$/.test(month) : /^\d{4}$/.test(year),
+    staleTime: 0,
+  });
+
+  const handleExport = () => {
+    if (!data) return;
+    const header = ["Date", "Transactions", ...COLUMNS.map((c) => c.label)];
+    const line = (label: string, row: Omit<VatRow, "date">) =>
+      [label, row.transactions, ...COLUMNS.map((c) => row[c.key].toFixed(2))].join(",");
+    const csv = [header.join(","), ...data.rows.map((row) => line(row.date, row)), line("Total", data.totals)].join("\r\n");
+    const url = URL.createObjectURL(new Blob([csv], { type: "text/csv;charset=utf-8" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `vat-${period}-${period === "daily" ? month : year}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="bg-card shadow-sm border-b">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between gap-3">
+          <div className="flex items-center gap-3">
+            <Link href="/orders">
+              <Button variant="ghost" size="sm">
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back
+              </Button>
+            </Link>
+            <div className="flex items-center gap-2">
+              <div className="w-10 h-10 bg-primary rounded-full flex items-center justify-center">
+                <Landmark className="w-5 h-5 text-white" />
+              </div>
+              <div>
+                <h1 className="text-xl font-semibold">VAT Summary</h1>
+                <p className="text-sm text-muted-foreground">VATable, exempt and zero-rated sales, net of voids and returns</p>
+              </div>
+            </div>
+          </div>
+          <Button onClick={handleExport} disabled={!data?.rows.length} data-testid="button-export-vat">
+            <Download className="w-4 h-4 mr-2" />
+            Export CSV
+          </Button>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 py-6">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between gap-4">
+            <Tabs value={period} onValueChange={(value) => setPeriod(value as VatReportPeriod)}>
+              <TabsList>
+                <TabsTrigger value="daily">Daily</TabsTrigger>
+                <TabsTrigger value="monthly">Monthly</TabsTrigger>
+              </TabsList>
+            </Tabs>
+            {period === "daily" ? (
+              <Input type="month" className="w-44" value={month} onChange={(e) => setMonth(e.target.value)} />
+            ) : (
+              <Input type="number" className="w-28" min={2000} value={year} onChange={(e) => setYear(e.target.value)} />
+            )}
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="text-center py-8 text-muted-foreground">Loading VAT summary...</div>
+            ) : error ? (
+              <div className="text-center py-8 text-red-500">{(error as Error).message}</div>
+            ) : !data?.rows.length ? (
+              <div className="text-center py-8 text-muted-foreground">No sales in this period.</div>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{period === "daily" ? "Date" : "Month"}</TableHead>
+                      <TableHead className="text-right">Sales</TableHead>
+                      {COLUMNS.map((column) => (
+                        <TableHead key={column.key} className="text-right whitespace-nowrap">
+                          {column.label}
+                        </TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {data.rows.map((row) => (
+                      <TableRow key={row.date}>
+                        <TableCell className="font-mono whitespace-nowrap">{row.date}</TableCell>
+                        <TableCell className="text-right">{row.transactions}</TableCell>
+                        {COLUMNS.map((column) => (
+                          <TableCell key={column.key} className="text-right">
+                            {peso(row[column.key])}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                    <TableRow className="font-bold">
+                      <TableCell>Total</TableCell>
+                      <TableCell className="text-right">{data.totals.transactions}</TableCell>
+                      {COLUMNS.map((column) => (
+                        <TableCell key={column.key} className="text-right">
+                          {peso(data.totals[column.key])}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
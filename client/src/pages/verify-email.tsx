@@ -0,0 +1,160 @@
+import { useState } from "react";
+import { useLocation, useSearch, Link } from "wouter";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { Loader2, MailCheck } from "lucide-react";
+import { BASE_API_URL } from "@/api";
+import blcmLogo from "@/assets/blcm-logo.png";
+
+/**
+ * Email verification step shown after registration (and when login is
+ * refused because the address hasn't been confirmed yet)
+ */
+export default function VerifyEmail() {
+  const [, setLocation] = useLocation();
+  const search = useSearch();
+  const { toast } = useToast();
+  const [email, setEmail] = useState(() => new URLSearchParams(search).get("email") ?? "");
+  const [code, setCode] = useState("");
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [isResending, setIsResending] = useState(false);
+
+  const post = async (path: string, body: unknown) => {
+    const res = await fetch(`${BASE_API_URL}${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      credentials: "include",
+      body: JSON.stringify(body),
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(data.message || "Request failed");
+    return data;
+  };
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email || code.length !== 6) {
+      toast({
+        title: "Error",
+        description: "Enter your email and the 6-digit code",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsVerifying(true);
+    try {
+      await post("/api/auth/verify-code", { email, code });
+      toast({ title: "Success", description: "Email verified! You can now login." });
+      setLocation("/login");
+    } catch (error: any) {
+      setCode("");
+      toast({
+        title: "Error",
+        description: error.message || "Verification failed",
+        variant: "destructive",
+      });
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const handleResend = async () => {
+    if (!email) return;
+    setIsResending(true);
+    try {
+      const data = await post("/api/auth/send-code", { email });
+      toast({ title: "Code sent", description: data.message });
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to resend code",
+        variant: "destructive",
+      });
+    } finally {
+      setIsResending(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-red-700">
+      <div className="w-full max-w-sm">
+        <div className="login-container shadow-2xl border-0 rounded-lg">
+          <div className="p-8">
+            <div className="text-center mb-8">
+              <div className="w-16 h-16 bg-white rounded-xl flex items-center justify-center mx-auto mb-4">
+                <img src={blcmLogo} alt="BLCM Logo" className="w-30 h-30 object-contain" />
+              </div>
+              <h1 className="text-2xl font-bold text-foreground mb-2">Verify your email</h1>
+              <p className="text-muted-foreground text-sm">
+                We sent a 6-digit code to your email address.
+              </p>
+            </div>
+
+            <form onSubmit={handleVerify} className="space-y-6">
+              <div className="space-y-2">
+                <Label htmlFor="email" className="text-foreground font-medium text-sm">
+                  Email
+                </Label>
+                <Input
+                  id="email"
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  data-testid="input-email"
+                  className="h-12"
+                />
+              </div>
+
+              <div className="flex justify-center">
+                <InputOTP maxLength={6} value={code} onChange={setCode} data-testid="input-code">
+                  <InputOTPGroup>
+                    {[0, 1, 2, 3, 4, 5].map((i) => (
+                      <InputOTPSlot key={i} index={i} />
+                    ))}
+                  </InputOTPGroup>
+                </InputOTP>
+              </div>
+
+              <Button
+                type="submit"
+                disabled={isVerifying}
+                className="w-full h-12 font-medium bg-red-700 text-white hover:bg-red-600"
+                data-testid="button-verify"
+              >
+                {isVerifying ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <MailCheck className="w-4 h-4 mr-2" />
+                )}
+                Verify Email
+              </Button>
+            </form>
+
+            <div className="mt-6 text-center space-y-2">
+              <button
+                type="button"
+                onClick={handleResend}
+                disabled={isResending || !email}
+                className="text-red-500 hover:text-red-600 text-sm font-medium underline disabled:opacity-50"
+                data-testid="button-resend"
+              >
+                {isResending ? "Sending..." : "Resend code"}
+              </button>
+              <div>
+                <Link href="/login">
+                  <button type="button" className="text-muted-foreground text-sm underline">
+                    Back to login
+                  </button>
+                </Link>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
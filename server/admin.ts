@@ -0,0 +1,417 @@
+import express, { Request, Response } from "express";
+import { sendError } from "./errors.js";
+import { storage } from "./storage.js";
+import { normalizeRole, toSafeUser, toCurrentUser, requirePermission, setSessionCookie } from "./middleware.js";
+import { recordSecurityEvent, securityEventsToCsv } from "./audit.js";
+import { canManageRole, getRolePermissions, roleExists } from "./permissions.js";
+import { adminInvitationsRouter } from "./invitations.js";
+import { assertPasswordAllowed, setUserPassword } from "./password-policy.js";
+import {
+  adminCreateAccountSchema,
+  adminUpdateRoleSchema,
+  customRoleSchema,
+  updateCustomRoleSchema,
+  builtInRolePermissions,
+  userRoles,
+  adminResetPasswordSchema,
+  adminRejectAccountSchema,
+  securityEventQuerySchema,
+  type Permission,
+  type User,
+} from "../shared/schema.js";
+
+/**
+ * Account, invitation, role and security log administration. Mounted under /api/admin
+ * behind requireAuth in routes.ts; each route checks its own permission.
+ */
+const router = express.Router();
+
+const manageAccounts = requirePermission("account.manage");
+const approveAccounts = requirePermission("account.approve");
+const manageRoles = requirePermission("role.manage");
+const viewSecurityLog = requirePermission("security_log.view");
+
+const OUTRANKED = "You cannot manage an account with more access than your own";
+
+function toAccount(user: User) {
+  return {
+    ...toSafeUser(user),
+    isLocked: !!user.cooldownUntil && user.cooldownUntil > new Date(),
+  };
+}
+
+// -------------------- LIST ACCOUNTS --------------------
+router.get("/accounts", manageAccounts, async (_req: Request, res: Response) => {
+  try {
+    const users = await storage.getAllUsers(["admin"]);
+    res.json(users.map(toAccount));
+  } catch (err) {
+    sendError(res, err, "Failed to load accounts");
+  }
+});
+
+// -------------------- CREATE ACCOUNT --------------------
+router.post("/accounts", manageAccounts, async (req: Request, res: Response) => {
+  try {
+    const data = adminCreateAccountSchema.parse(req.body);
+    if (!(await roleExists(data.role))) return res.status(400).json({ message: "Unknown role" });
+    if (!(await canManageRole(req.user!, data.role))) return res.status(403).json({ message: OUTRANKED });
+    await assertPasswordAllowed(data.password, { username: data.username });
+    // The admin chose this password, so the owner replaces it at first login
+    const user = await storage.createUser(data, { mustChangePassword: true });
+    await recordSecurityEvent(req, "account_created", {
+      userId: user.id,
+      username: user.username,
+      details: { role: user.role },
+    });
+    res.status(201).json(toAccount(user));
+  } catch (err) {
+    sendError(res, err, "Failed to create account");
+  }
+});
+
+// -------------------- CHANGE ROLE --------------------
+router.put("/accounts/:id/role", manageAccounts, async (req: Request, res: Response) => {
+  try {
+    const { role } = adminUpdateRoleSchema.parse(req.body);
+    if (!(await roleExists(role))) return res.status(400).json({ message: "Unknown role" });
+    const target = await storage.getUser(req.params.id);
+    if (!target) return res.status(404).json({ message: "Account not found" });
+    if (target.id === req.user!.id) {
+      return res.status(400).json({ message: "You cannot change your own role" });
+    }
+    if (!(await canManageRole(req.user!, target.role)) || !(await canManageRole(req.user!, role))) {
+      return res.status(403).json({ message: OUTRANKED });
+    }
+
+    const updated = await storage.updateUser(target.id, { role });
+    await recordSecurityEvent(req, "role_changed", {
+      userId: target.id,
+      username: target.username,
+      details: { from: target.role, to: role },
+    });
+    res.json(toAccount(updated!));
+  } catch (err) {
+    sendError(res, err, "Failed to change role");
+  }
+});
+
+// -------------------- DEACTIVATE / REACTIVATE --------------------
+router.post("/accounts/:id/deactivate", manageAccounts, async (req: Request, res: Response) => {
+  try {
+    const target = await storage.getUser(req.params.id);
+    if (!target) return res.status(404).json({ message: "Account not found" });
+    if (!(await canManageRole(req.user!, target.role))) return res.status(403).json({ message: OUTRANKED });
+    if (target.id === req.user!.id) {
+      return res.status(400).json({ message: "You cannot deactivate your own account" });
+    }
+
+    const updated = await storage.setUserActive(target.id, false);
+    const revoked = await storage.deleteUserSessions(target.id);
+    await recordSecurityEvent(req, "account_deactivated", {
+      userId: target.id,
+      username: target.username,
+      details: { sessionsRevoked: revoked },
+    });
+    res.json(toAccount(updated!));
+  } catch (err) {
+    sendError(res, err, "Failed to deactivate account");
+  }
+});
+
+router.post("/accounts/:id/reactivate", manageAccounts, async (req: Request, res: Response) => {
+  try {
+    const target = await storage.getUser(req.params.id);
+    if (!target) return res.status(404).json({ message: "Account not found" });
+    if (!(await canManageRole(req.user!, target.role))) return res.status(403).json({ message: OUTRANKED });
+
+    const updated = await storage.setUserActive(target.id, true);
+    await recordSecurityEvent(req, "account_reactivated", { userId: target.id, username: target.username });
+    res.json(toAccount(updated!));
+  } catch (err) {
+    sendError(res, err, "Failed to reactivate account");
+  }
+});
+
+// -------------------- FORCE LOGOUT --------------------
+router.post("/accounts/:id/logout", manageAccounts, async (req: Request, res: Response) => {
+  try {
+    const target = await storage.getUser(req.params.id);
+    if (!target) return res.status(404).json({ message: "Account not found" });
+    if (!(await canManageRole(req.user!, target.role))) return res.status(403).json({ message: OUTRANKED });
+
+    const revoked = await storage.deleteUserSessions(target.id);
+    await recordSecurityEvent(req, "session_revoked", {
+      userId: target.id,
+      username: target.username,
+      details: { scope: "admin_force_logout", revoked },
+    });
+    res.json({ message: `Signed ${target.username} out of ${revoked} session(s)`, revoked });
+  } catch (err) {
+    sendError(res, err, "Failed to sign out account");
+  }
+});
+
+// -------------------- UNLOCK --------------------
+router.post("/accounts/:id/unlock", manageAccounts, async (req: Request, res: Response) => {
+  try {
+    const target = await storage.getUser(req.params.id);
+    if (!target) return res.status(404).json({ message: "Account not found" });
+    if (!(await canManageRole(req.user!, target.role))) return res.status(403).json({ message: OUTRANKED });
+
+    await storage.unlockUserAccount(target.username);
+    await recordSecurityEvent(req, "account_unlocked", { userId: target.id, username: target.username });
+    const updated = await storage.getUser(target.id);
+    res.json(toAccount(updated!));
+  } catch (err) {
+    sendError(res, err, "Failed to unlock account");
+  }
+});
+
+// -------------------- RESET TWO-FACTOR --------------------
+// For a lost authenticator: clears the secret and recovery codes and signs the
+// account out, so the next login is password-only (or forces re-enrollment)
+router.post("/accounts/:id/reset-2fa", manageAccounts, async (req: Request, res: Response) => {
+  try {
+    const target = await storage.getUser(req.params.id);
+    if (!target) return res.status(404).json({ message: "Account not found" });
+    if (!(await canManageRole(req.user!, target.role))) return res.status(403).json({ message: OUTRANKED });
+    if (normalizeRole(target.role) === "admin") {
+      return res.status(403).json({ message: "Admin two-factor settings can only be changed by their owner" });
+    }
+    if (!target.twoFactorEnabled) {
+      return res.status(400).json({ message: "Two-factor authentication is not enabled for this account" });
+    }
+
+    const updated = await storage.disableTwoFactor(target.id);
+    const revoked = await storage.deleteUserSessions(target.id);
+    await recordSecurityEvent(req, "two_factor_reset", {
+      userId: target.id,
+      username: target.username,
+      details: { sessionsRevoked: revoked },
+    });
+    res.json(toAccount(updated!));
+  } catch (err) {
+    sendError(res, err, "Failed to reset two-factor authentication");
+  }
+});
+
+// -------------------- VIEW AS USER --------------------
+// Switches the cookie to a read-only session for the target that remembers
+// the admin and their own session; POST /api/impersonation/stop switches back
+router.post("/accounts/:id/impersonate", requirePermission("account.impersonate"), async (req: Request, res: Response) => {
+  try {
+    const target = await storage.getUser(req.params.id);
+    if (!target) return res.status(404).json({ message: "Account not found" });
+    if (target.id === req.user!.id) return res.status(400).json({ message: "You cannot view as yourself" });
+    if (!(await canManageRole(req.user!, target.role))) return res.status(403).json({ message: OUTRANKED });
+    if (normalizeRole(target.role) === "admin") {
+      return res.status(403).json({ message: "Admin accounts cannot be viewed as" });
+    }
+    if (!target.isActive || target.approvalStatus !== "approved") {
+      return res.status(400).json({ message: "Only active, approved accounts can be viewed as" });
+    }
+
+    const session = await storage.createSession(target.id, {
+      userAgent: req.get("user-agent"),
+      ip: req.ip,
+      impersonatorId: req.user!.id,
+      impersonatorSessionId: req.authSession!.id,
+    });
+    setSessionCookie(res, session);
+    await recordSecurityEvent(req, "impersonation_started", {
+      userId: target.id,
+      username: target.username,
+      details: { session: session.publicId, expiresAt: session.expiresAt },
+    });
+    res.json({ user: await toCurrentUser(target, req.user!) });
+  } catch (err) {
+    sendError(res, err, "Failed to start viewing as user");
+  }
+});
+
+// -------------------- INVITATIONS --------------------
+router.use("/invitations", manageAccounts, adminInvitationsRouter);
+
+// -------------------- REGISTRATION APPROVALS --------------------
+router.get("/approvals", approveAccounts, async (_req: Request, res: Response) => {
+  try {
+    const pending = await storage.getUsersByApprovalStatus("pending");
+    res.json(pending.map(toAccount));
+  } catch (err) {
+    sendError(res, err, "Failed to load pending registrations");
+  }
+});
+
+router.post("/approvals/:id/approve", approveAccounts, async (req: Request, res: Response) => {
+  try {
+    const target = await storage.getUser(req.params.id);
+    if (!target) return res.status(404).json({ message: "Account not found" });
+    if (!(await canManageRole(req.user!, target.role))) return res.status(403).json({ message: OUTRANKED });
+    if (target.approvalStatus !== "pending") {
+      return res.status(409).json({ message: "Account is not awaiting approval" });
+    }
+
+    const updated = await storage.setApprovalStatus(target.id, "approved", req.user!.id);
+    await recordSecurityEvent(req, "account_approved", {
+      userId: target.id,
+      username: target.username,
+      details: { role: target.role },
+    });
+    res.json(toAccount(updated!));
+  } catch (err) {
+    sendError(res, err, "Failed to approve account");
+  }
+});
+
+router.post("/approvals/:id/reject", approveAccounts, async (req: Request, res: Response) => {
+  try {
+    const { reason } = adminRejectAccountSchema.parse(req.body ?? {});
+    const target = await storage.getUser(req.params.id);
+    if (!target) return res.status(404).json({ message: "Account not found" });
+    if (!(await canManageRole(req.user!, target.role))) return res.status(403).json({ message: OUTRANKED });
+    if (target.approvalStatus !== "pending") {
+      return res.status(409).json({ message: "Account is not awaiting approval" });
+    }
+
+    const updated = await storage.setApprovalStatus(target.id, "rejected", req.user!.id, reason?.trim() || undefined);
+    await recordSecurityEvent(req, "account_rejected", {
+      userId: target.id,
+      username: target.username,
+      details: { role: target.role, reason: updated!.rejectionReason },
+    });
+    res.json(toAccount(updated!));
+  } catch (err) {
+    sendError(res, err, "Failed to reject account");
+  }
+});
+
+// -------------------- RESET PASSWORD --------------------
+router.post("/reset-password", manageAccounts, async (req: Request, res: Response) => {
+  try {
+    const { username, newPassword } = adminResetPasswordSchema.parse(req.body);
+    const target = await storage.getUserByUsername(username);
+    if (!target) return res.status(404).json({ message: "Account not found" });
+    if (!(await canManageRole(req.user!, target.role))) return res.status(403).json({ message: OUTRANKED });
+    if (normalizeRole(target.role) === "admin" && target.id !== req.user!.id) {
+      return res.status(403).json({ message: "Admin passwords can only be changed by their owner" });
+    }
+
+    // Someone else now knows the password, so the owner must pick a new one at next login
+    const mustChangePassword = target.id !== req.user!.id;
+    await setUserPassword(target, newPassword, { mustChangePassword });
+    await storage.unlockUserAccount(username);
+    await recordSecurityEvent(req, "password_reset", {
+      userId: target.id,
+      username,
+      details: { method: "admin", mustChangePassword },
+    });
+    res.json({ message: `Password reset for ${username}` });
+  } catch (err) {
+    sendError(res, err, "Failed to reset password");
+  }
+});
+
+// -------------------- ROLES --------------------
+// Built-in roles are listed read-only so the UI can show one table
+router.get("/roles", requirePermission("role.manage", "account.manage"), async (_req: Request, res: Response) => {
+  try {
+    const custom = await storage.getCustomRoles();
+    res.json([
+      ...userRoles.map((name) => ({
+        name,
+        label: name.charAt(0).toUpperCase() + name.slice(1),
+        permissions: builtInRolePermissions[name],
+        builtIn: true,
+      })),
+      ...custom.map((role) => ({ ...role, builtIn: false })),
+    ]);
+  } catch (err) {
+    sendError(res, err, "Failed to load roles");
+  }
+});
+
+router.post("/roles", manageRoles, async (req: Request, res: Response) => {
+  try {
+    const data = customRoleSchema.parse(req.body);
+    const mine = await getRolePermissions(req.user!.role);
+    if (!data.permissions.every((p) => mine.includes(p))) {
+      return res.status(403).json({ message: "You cannot grant permissions you don't have" });
+    }
+
+    const role = await storage.createCustomRole(data);
+    await recordSecurityEvent(req, "custom_role_created", {
+      details: { role: role.name, permissions: role.permissions },
+    });
+    res.status(201).json({ ...role, builtIn: false });
+  } catch (err) {
+    sendError(res, err, "Failed to create role");
+  }
+});
+
+router.put("/roles/:name", manageRoles, async (req: Request, res: Response) => {
+  try {
+    const data = updateCustomRoleSchema.parse(req.body);
+    const existing = await storage.getCustomRole(req.params.name);
+    if (!existing) return res.status(404).json({ message: "Role not found" });
+    const mine = await getRolePermissions(req.user!.role);
+    if (![...existing.permissions, ...data.permissions].every((p) => mine.includes(p as Permission))) {
+      return res.status(403).json({ message: "You cannot grant permissions you don't have" });
+    }
+
+    const role = await storage.updateCustomRole(existing.name, data);
+    await recordSecurityEvent(req, "custom_role_updated", {
+      details: { role: existing.name, from: existing.permissions, to: data.permissions },
+    });
+    res.json({ ...role!, builtIn: false });
+  } catch (err) {
+    sendError(res, err, "Failed to update role");
+  }
+});
+
+router.delete("/roles/:name", manageRoles, async (req: Request, res: Response) => {
+  try {
+    const existing = await storage.getCustomRole(req.params.name);
+    if (!existing) return res.status(404).json({ message: "Role not found" });
+    const assigned = await storage.countUsersWithRole(existing.name);
+    if (assigned > 0) {
+      return res.status(409).json({ message: `Role is still assigned to ${assigned} account(s)` });
+    }
+
+    await storage.deleteCustomRole(existing.name);
+    await recordSecurityEvent(req, "custom_role_deleted", { details: { role: existing.name } });
+    res.json({ message: "Role deleted" });
+  } catch (err) {
+    sendError(res, err, "Failed to delete role");
+  }
+});
+
+// -------------------- SECURITY EVENT LOG --------------------
+router.get("/security-events", viewSecurityLog, async (req: Request, res: Response) => {
+  try {
+    const { page, pageSize, ...filters } = securityEventQuerySchema.parse(req.query);
+    const { events, total } = await storage.getSecurityEvents(filters, page, pageSize);
+    res.json({ events, total, page, pageSize });
+  } catch (err) {
+    sendError(res, err, "Failed to load security events");
+  }
+});
+
+const CSV_EXPORT_LIMIT = 10000;
+
+router.get("/security-events/export", viewSecurityLog, async (req: Request, res: Response) => {
+  try {
+    const { page: _page, pageSize: _pageSize, ...filters } = securityEventQuerySchema.parse(req.query);
+    const { events } = await storage.getSecurityEvents(filters, 1, CSV_EXPORT_LIMIT);
+    res.setHeader("Content-Type", "text/csv; charset=utf-8");
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="security-events-${new Date().toISOString().slice(0, 10)}.csv"`
+    );
+    res.send(securityEventsToCsv(events));
+  } catch (err) {
+    sendError(res, err, "Failed to export security events");
+  }
+});
+
+export default router;
@@ -0,0 +1,116 @@
+import express, { Request, Response } from "express";
+import { createHash, randomBytes } from "crypto";
+import { sendError } from "./errors.js";
+import { storage } from "./storage.js";
+import { recordSecurityEvent } from "./audit.js";
+import { getRolePermissions } from "./permissions.js";
+import {
+  createApiTokenSchema,
+  type ApiToken,
+  type ApiTokenScope,
+  type Permission,
+} from "../shared/schema.js";
+
+const TOKEN_PREFIX = "blcm_";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The permission a scope stands for; routes still check it against the owner's role
+const SCOPE_PERMISSIONS: Record<ApiTokenScope, Permission> = {
+  "products:read": "product.view",
+  "sales:write": "sale.create",
+  "reports:read": "report.view_financials",
+};
+
+/** Tokens are random, so a fast unsalted hash is enough to look them up. */
+export function hashApiToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export function isApiTokenFormat(token: string) {
+  return token.startsWith(TOKEN_PREFIX);
+}
+
+/** What the client sees about a token: never the hash. */
+function toTokenInfo(token: ApiToken) {
+  const { tokenHash, userId, ...info } = token;
+  return {
+    ...info,
+    expired: !!token.expiresAt && token.expiresAt <= new Date(),
+  };
+}
+
+/**
+ * Personal API tokens. Mounted under /api/tokens behind requireAuth in
+ * routes.ts; tokens themselves can't reach these routes, so a leaked
+ * token can't mint more.
+ */
+const router = express.Router();
+
+// -------------------- AVAILABLE SCOPES --------------------
+router.get("/scopes", async (req: Request, res: Response) => {
+  try {
+    const granted = await getRolePermissions(req.user!.role);
+    res.json(Object.entries(SCOPE_PERMISSIONS).filter(([, p]) => granted.includes(p)).map(([scope]) => scope));
+  } catch (err) {
+    sendError(res, err, "Failed to load scopes");
+  }
+});
+
+// -------------------- LIST MY TOKENS --------------------
+router.get("/", async (req: Request, res: Response) => {
+  try {
+    const tokens = await storage.getUserApiTokens(req.user!.id);
+    res.json(tokens.map(toTokenInfo));
+  } catch (err) {
+    sendError(res, err, "Failed to load API tokens");
+  }
+});
+
+// -------------------- CREATE TOKEN --------------------
+router.post("/", async (req: Request, res: Response) => {
+  try {
+    const { name, scopes, expiresInDays } = createApiTokenSchema.parse(req.body);
+    const granted = await getRolePermissions(req.user!.role);
+    const denied = scopes.filter((scope) => !granted.includes(SCOPE_PERMISSIONS[scope]));
+    if (denied.length) {
+      return res.status(403).json({ message: `Your role cannot use: ${denied.join(", ")}` });
+    }
+
+    const token = `${TOKEN_PREFIX}${randomBytes(32).toString("base64url")}`;
+    const created = await storage.createApiToken({
+      userId: req.user!.id,
+      name,
+      tokenHash: hashApiToken(token),
+      prefix: token.slice(0, TOKEN_PREFIX.length + 6),
+      scopes: Array.from(new Set(scopes)),
+      expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * DAY_MS) : null,
+    });
+    await recordSecurityEvent(req, "api_token_created", {
+      userId: req.user!.id,
+      username: req.user!.username,
+      details: { token: created.id, name, scopes: created.scopes, expiresAt: created.expiresAt },
+    });
+    // The plain token is returned this once and never stored
+    res.status(201).json({ ...toTokenInfo(created), token });
+  } catch (err) {
+    sendError(res, err, "Failed to create API token");
+  }
+});
+
+// -------------------- REVOKE TOKEN --------------------
+router.delete("/:id", async (req: Request, res: Response) => {
+  try {
+    const revoked = await storage.deleteUserApiToken(req.user!.id, req.params.id);
+    if (!revoked) return res.status(404).json({ message: "API token not found" });
+    await recordSecurityEvent(req, "api_token_revoked", {
+      userId: req.user!.id,
+      username: req.user!.username,
+      details: { token: revoked.id, name: revoked.name },
+    });
+    res.json({ message: "API token revoked" });
+  } catch (err) {
+    sendError(res, err, "Failed to revoke API token");
+  }
+});
+
+export default router;
@@ -0,0 +1,54 @@
+import type { Request } from "express";
+import { storage } from "./storage.js";
+import type { SecurityEvent, SecurityEventType } from "../shared/schema.js";
+
+type EventFields = {
+  userId?: string | null;
+  username?: string | null;
+  details?: Record<string, unknown>;
+};
+
+/**
+ * Appends a security event with the request's IP, user agent and acting
+ * user (the admin, during impersonation). Auditing must never break the
+ * action being audited, so failures are logged and swallowed.
+ */
+export async function recordSecurityEvent(req: Request, type: SecurityEventType, fields: EventFields = {}) {
+  try {
+    await storage.logSecurityEvent({
+      type,
+      userId: fields.userId ?? null,
+      username: fields.username ?? null,
+      actorId: (req.impersonator ?? req.user)?.id ?? null,
+      actorUsername: (req.impersonator ?? req.user)?.username ?? null,
+      ip: req.ip ?? null,
+      userAgent: req.get("user-agent") ?? null,
+      details: fields.details ? JSON.stringify(fields.details) : null,
+    });
+  } catch (err) {
+    console.error(`Failed to record security event ${type}:`, err);
+  }
+}
+
+const CSV_COLUMNS: (keyof SecurityEvent)[] = [
+  "createdAt",
+  "type",
+  "username",
+  "actorUsername",
+  "ip",
+  "userAgent",
+  "details",
+];
+
+function csvCell(value: unknown) {
+  if (value == null) return "";
+  let text = value instanceof Date ? value.toISOString() : String(value);
+  // Keep spreadsheet apps from evaluating cells as formulas
+  if (/^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function securityEventsToCsv(events: SecurityEvent[]) {
+  const rows = events.map((e) => CSV_COLUMNS.map((c) => csvCell(e[c])).join(","));
+  return [CSV_COLUMNS.join(","), ...rows].join("\r\n");
+}
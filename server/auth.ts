@@ -1,117 +1,201 @@
 import express, { Request, Response } from "express";
-import nodemailer from "nodemailer";
-import dotenv from "dotenv";
+import bcrypt from "bcrypt";
+import { randomInt } from "crypto";
+import { HttpError, sendError } from "./errors.js";
+import { storage } from "./storage.js";
+import { getMailer } from "./mailer.js";
+import { recordSecurityEvent } from "./audit.js";
+import { setUserPassword } from "./password-policy.js";
+import {
+  sendCodeSchema,
+  verifyCodeSchema,
+  forgotPasswordSchema,
+  resetPasswordSchema,
+  type VerificationPurpose,
+} from "../shared/schema.js";
 
-// ✅ Load environment variables early
-dotenv.config();
-
-interface VerificationData {
-  code: number;
-  expiresAt: number;
+const router = express.Router();
+export const passwordRouter = express.Router();
+
+const CODE_TTL_MS = 10 * 60 * 1000; // codes expire after 10 minutes
+const RESEND_COOLDOWN_MS = 60 * 1000; // at most one email per minute per address
+const MAX_SENDS = 5; // per code lifetime; the counter resets once the code expires
+const MAX_ATTEMPTS = 5; // wrong guesses before the code is burned
+
+const EMAIL_COPY: Record<VerificationPurpose, { subject: string; heading: string }> = {
+  email_verification: { subject: "Email Verification Code", heading: "Email Verification" },
+  password_reset: { subject: "Password Reset Code", heading: "Password Reset" },
+  email_change: { subject: "Confirm Your New Email Address", heading: "Confirm Your New Email" },
+};
+
+export class VerificationError extends HttpError {
+  constructor(message: string, status = 400, public retryAfterSeconds?: number) {
+    super(message, status, { retryAfterSeconds });
+  }
 }
 
-const router = express.Router();
-const verificationCodes = new Map<string, VerificationData>();
+/** New self-registrations must verify their email, unless mail is switched off. */
+export function isEmailVerificationRequired() {
+  return process.env.REQUIRE_EMAIL_VERIFICATION !== "false" && getMailer().enabled;
+}
 
-//  Ensure Gmail credentials are loaded
-const GMAIL_USER = process.env.GMAIL_USER;
-const GMAIL_APP_PASSWORD = process.env.GMAIL_APP_PASSWORD;
+/**
+ * Generates a 6-digit code for the account, stores only its bcrypt hash and
+ * emails it to the given address. Throws VerificationError (429) when the
+ * account is being throttled.
+ */
+export async function issueVerificationCode(purpose: VerificationPurpose, userId: string, email: string) {
+  const mailer = getMailer();
+  if (!mailer.enabled) throw new VerificationError("Email delivery is disabled", 503);
+
+  const existing = await storage.getVerificationCode(purpose, userId);
+  const now = Date.now();
+  let sendCount = 1;
+
+  if (existing && existing.expiresAt.getTime() > now) {
+    const wait = existing.lastSentAt.getTime() + RESEND_COOLDOWN_MS - now;
+    if (wait > 0) {
+      throw new VerificationError("Please wait before requesting another code", 429, Math.ceil(wait / 1000));
+    }
+    if (existing.sendCount >= MAX_SENDS) {
+      const retry = Math.ceil((existing.expiresAt.getTime() - now) / 1000);
+      throw new VerificationError("Too many codes requested. Try again later.", 429, retry);
+    }
+    sendCount = existing.sendCount + 1;
+  }
 
-if (!GMAIL_USER || !GMAIL_APP_PASSWORD) {
-  console.error(" Missing Gmail credentials in .env file");
-  throw new Error("Missing Gmail credentials in environment variables");
+  const code = randomInt(100000, 1000000).toString();
+  const codeHash = await bcrypt.hash(code, 10);
+  await storage.saveVerificationCode(purpose, userId, email, codeHash, new Date(now + CODE_TTL_MS), sendCount);
+
+  const copy = EMAIL_COPY[purpose];
+  await mailer.send({
+    to: email,
+    subject: copy.subject,
+    text: `Your code is ${code}. It expires in ${CODE_TTL_MS / 60000} minutes.`,
+    html: `
+      <div style="font-family:Arial,sans-serif;line-height:1.5">
+        <h2>${copy.heading}</h2>
+        <p>Your code is:</p>
+        <h1 style="color:#4F46E5;font-size:2em">${code}</h1>
+        <p>This code expires in <strong>${CODE_TTL_MS / 60000} minutes</strong>.</p>
+      </div>
+    `,
+  });
 }
 
-// ✅ Configure the transporter with Gmail + debug logging
-const transporter = nodemailer.createTransport({
-  service: "gmail",
-  auth: {
-    user: GMAIL_USER,
-    pass: GMAIL_APP_PASSWORD,
-  },
-  logger: true, // logs SMTP details in the console
-  debug: true,  // enables detailed debugging output
-});
-
-// ✅ Verify the transporter connection (optional but very helpful)
-transporter.verify((error, success) => {
-  if (error) {
-    console.error(" Gmail transporter connection failed:", error);
-  } else {
-    console.log("✅ Gmail transporter ready to send emails");
+/**
+ * Checks the account's code and marks it consumed on success. A code only
+ * proves the address it was sent to. Every wrong guess counts towards
+ * MAX_ATTEMPTS, after which the code is burned. Consumed codes stay until
+ * they expire so the send limit isn't reset by using one up.
+ */
+export async function consumeVerificationCode(purpose: VerificationPurpose, userId: string, email: string, code: string) {
+  const record = await storage.getVerificationCode(purpose, userId);
+  if (!record || record.consumedAt || record.email !== email || record.expiresAt.getTime() <= Date.now()) {
+    throw new VerificationError("No code found or expired");
+  }
+  if (record.attempts >= MAX_ATTEMPTS) {
+    await storage.markVerificationCodeConsumed(purpose, userId);
+    throw new VerificationError("Too many incorrect attempts. Request a new code.", 429);
   }
-});
 
-// ✅ Route: Send Verification Code
-router.post("/send-code", async (req: Request, res: Response): Promise<void> => {
-  const { email } = req.body;
+  if (!(await bcrypt.compare(code, record.codeHash))) {
+    const updated = await storage.incrementVerificationAttempts(purpose, userId);
+    if (updated && updated.attempts >= MAX_ATTEMPTS) {
+      await storage.markVerificationCodeConsumed(purpose, userId);
+      throw new VerificationError("Too many incorrect attempts. Request a new code.", 429);
+    }
+    throw new VerificationError("Invalid code");
+  }
 
-  if (!email) {
-    res.status(400).json({ message: "Email is required" });
-    return;
+  // Two requests with the right code: only the first one gets it
+  if (!(await storage.markVerificationCodeConsumed(purpose, userId))) {
+    throw new VerificationError("No code found or expired");
   }
+}
 
+// ✅ Route: Send (or resend) an email verification code
+router.post("/send-code", async (req: Request, res: Response) => {
   try {
-    const code = Math.floor(100000 + Math.random() * 900000); // 6-digit code
-    const expiresAt = Date.now() + 5 * 60 * 1000; // expires in 5 minutes
-
-    verificationCodes.set(email, { code, expiresAt });
-
-    // ✅ Email message
-    const mailOptions = {
-      from: `"Your App" <${GMAIL_USER}>`,
-      to: email,
-      subject: "Email Verification Code",
-      html: `
-        <div style="font-family:Arial,sans-serif;line-height:1.5">
-          <h2>Email Verification</h2>
-          <p>Your verification code is:</p>
-          <h1 style="color:#4F46E5;font-size:2em">${code}</h1>
-          <p>This code expires in <strong>5 minutes</strong>.</p>
-        </div>
-      `,
-    };
-
-    // ✅ Send email
-    await transporter.sendMail(mailOptions);
-
-    console.log(` Verification code ${code} sent to ${email}`);
-    res.json({ message: "Verification code sent successfully" });
-  } catch (err: any) {
-    console.error(" Failed to send email:", err);
-    res.status(500).json({ message: "Error sending verification code" });
+    const { email } = sendCodeSchema.parse(req.body);
+
+    // Only unverified accounts get a code, but the answer is the same either
+    // way so the endpoint can't be used to discover registered addresses.
+    // Throttling and mail failures are logged, not reported, for the same reason.
+    const user = await storage.getUnverifiedUserByEmail(email);
+    if (user) {
+      try {
+        await issueVerificationCode("email_verification", user.id, email);
+      } catch (err) {
+        console.warn(`Verification code not sent for user ${user.id}:`, err instanceof Error ? err.message : err);
+      }
+    }
+
+    res.json({ message: "If that address needs verification, a code has been sent" });
+  } catch (err) {
+    sendError(res, err, "Error sending verification code");
   }
 });
 
 // ✅ Route: Verify Code
-router.post("/verify-code", (req: Request, res: Response): void => {
-  const { email, code } = req.body;
-
-  if (!email || !code) {
-    res.status(400).json({ verified: false, message: "Email and code are required" });
-    return;
-  }
-
-  const record = verificationCodes.get(email);
-
-  if (!record) {
-    res.status(400).json({ verified: false, message: "No code found or expired" });
-    return;
+router.post("/verify-code", async (req: Request, res: Response) => {
+  try {
+    const { email, code } = verifyCodeSchema.parse(req.body);
+    // The same account /send-code picked, so only the account the code was issued to is verified
+    const user = await storage.getUnverifiedUserByEmail(email);
+    if (!user) throw new VerificationError("No code found or expired");
+    await consumeVerificationCode("email_verification", user.id, email, code);
+    await storage.markEmailVerified(user.id, email);
+    res.json({ verified: true, message: "Email verified successfully" });
+  } catch (err) {
+    sendError(res, err, "Error verifying code");
   }
+});
 
-  if (Date.now() > record.expiresAt) {
-    verificationCodes.delete(email);
-    res.status(400).json({ verified: false, message: "Code expired" });
-    return;
+// ✅ Route: Forgot password — email a reset code to the account's address
+passwordRouter.post("/forgot", async (req: Request, res: Response) => {
+  try {
+    const { username } = forgotPasswordSchema.parse(req.body);
+    const user = await storage.getUserByUsername(username);
+
+    // Same answer whether or not the account exists; throttling and mail
+    // failures are logged, not reported
+    if (user?.email && user.isActive) {
+      try {
+        await issueVerificationCode("password_reset", user.id, user.email);
+      } catch (err) {
+        console.warn(`Password reset code not sent for ${username}:`, err instanceof Error ? err.message : err);
+      }
+    }
+
+    res.json({ message: "If the account exists, a reset code has been sent to its email address" });
+  } catch (err) {
+    sendError(res, err, "Error sending reset code");
   }
+});
 
-  if (parseInt(code, 10) === record.code) {
-    verificationCodes.delete(email);
-    console.log(` ${email} verified successfully`);
-    res.json({ verified: true, message: "Email verified successfully" });
-  } else {
-    console.warn(` Invalid code entered for ${email}`);
-    res.status(400).json({ verified: false, message: "Invalid code" });
+// ✅ Route: Reset password with an emailed code
+passwordRouter.post("/reset", async (req: Request, res: Response) => {
+  try {
+    const { username, code, newPassword } = resetPasswordSchema.parse(req.body);
+    const user = await storage.getUserByUsername(username);
+    if (!user?.email || !user.isActive) throw new VerificationError("No code found or expired");
+
+    await consumeVerificationCode("password_reset", user.id, user.email, code);
+
+    await setUserPassword(user, newPassword);
+    await storage.resetLoginAttempts(username);
+    const revoked = await storage.deleteUserSessions(user.id);
+    await recordSecurityEvent(req, "password_reset", {
+      userId: user.id,
+      username,
+      details: { method: "email_code", sessionsRevoked: revoked },
+    });
+
+    res.json({ message: "Password reset successfully. Please login with your new password." });
+  } catch (err) {
+    sendError(res, err, "Error resetting password");
   }
 });
 
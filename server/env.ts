@@ -0,0 +1,5 @@
+/** A positive number from the environment, or `fallback` when it is unset or invalid. */
+export function envNumber(name: string, fallback: number) {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
@@ -0,0 +1,24 @@
+import type { Response } from "express";
+import { ZodError } from "zod";
+
+/**
+ * An error meant for the client: answered with `status`, its message and
+ * `details`. Anything else that reaches `sendError` is logged, not shown.
+ */
+export class HttpError extends Error {
+  constructor(message: string, public status: number, public details: Record<string, unknown> = {}) {
+    super(message);
+  }
+}
+
+/** The routers' catch-all: 400 for invalid input, an HttpError as it says, else 500 with `fallback`. */
+export function sendError(res: Response, err: unknown, fallback: string) {
+  if (err instanceof ZodError) {
+    return res.status(400).json({ message: err.errors[0]?.message ?? "Invalid request data", errors: err.errors });
+  }
+  if (err instanceof HttpError) {
+    return res.status(err.status).json({ message: err.message, ...err.details });
+  }
+  console.error(`${fallback}:`, err);
+  res.status(500).json({ message: fallback });
+}
@@ -22,6 +22,9 @@ export const BASE_API_URL = 'https://sales-and-inventory-1.onrender.com';
 ============================================================ */
 const app = express();
 
+// Render/Vercel sit in front of us; trust their X-Forwarded-For so req.ip is the client
+app.set('trust proxy', 1);
+
 app.use(express.json({ limit: '2mb' }));
 app.use(express.urlencoded({ extended: true }));
 app.use(cookieParser());
@@ -0,0 +1,244 @@
+import express, { Request, Response } from "express";
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { HttpError, sendError } from "./errors.js";
+import { storage } from "./storage.js";
+import { getMailer } from "./mailer.js";
+import { recordSecurityEvent } from "./audit.js";
+import { canManageRole, getRoleLabel, roleExists } from "./permissions.js";
+import {
+  createInvitationSchema,
+  type Invitation,
+  type InvitationStatus,
+} from "../shared/schema.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class InvitationError extends HttpError {
+  constructor(message: string, status = 400) {
+    super(message, status);
+  }
+}
+
+let secret: string | undefined;
+
+/**
+ * INVITATION_SECRET signs invitation links. Without it a random secret is
+ * used, so links stop working when the server restarts.
+ */
+function invitationSecret() {
+  if (!secret) {
+    secret = process.env.INVITATION_SECRET;
+    if (!secret) {
+      console.warn("⚠️ INVITATION_SECRET is not set; invitation links won't survive a restart");
+      secret = randomBytes(32).toString("hex");
+    }
+  }
+  return secret;
+}
+
+function sign(invitation: Pick<Invitation, "id" | "nonce">) {
+  return createHmac("sha256", invitationSecret()).update(`${invitation.id}.${invitation.nonce}`).digest("base64url");
+}
+
+/** The link token: the invitation id plus an HMAC over the id and its current nonce. */
+export function invitationToken(invitation: Invitation) {
+  return `${invitation.id}.${sign(invitation)}`;
+}
+
+export function invitationStatus(invitation: Invitation): InvitationStatus {
+  if (invitation.usedAt) return "used";
+  if (invitation.revokedAt) return "revoked";
+  if (invitation.expiresAt <= new Date()) return "expired";
+  return "pending";
+}
+
+/**
+ * Looks up the invitation behind a link and checks its signature and state.
+ * Throws InvitationError unless it can still be redeemed.
+ */
+export async function resolveInvitation(token: string) {
+  const [id, signature = ""] = token.split(".");
+  const invitation = await storage.getInvitation(id);
+  const expected = invitation ? Buffer.from(sign(invitation)) : undefined;
+  if (!invitation || !expected || expected.length !== signature.length || !timingSafeEqual(expected, Buffer.from(signature))) {
+    throw new InvitationError("Invitation not found", 404);
+  }
+
+  const status = invitationStatus(invitation);
+  if (status === "used") throw new InvitationError("This invitation has already been used", 410);
+  if (status === "revoked") throw new InvitationError("This invitation has been revoked", 410);
+  if (status === "expired") throw new InvitationError("This invitation has expired", 410);
+  return invitation;
+}
+
+/** Marks the invitation used; only one registration can win the claim. */
+export async function claimInvitation(invitation: Invitation) {
+  const claimed = await storage.claimInvitation(invitation.id, invitation.nonce);
+  if (!claimed) throw new InvitationError("This invitation is no longer valid", 410);
+  return claimed;
+}
+
+// Links point at the client app, which may live on another origin than the API
+function registerLink(req: Request, token: string) {
+  const base = process.env.APP_URL || req.get("origin") || `${req.protocol}://${req.get("host")}`;
+  return `${base.replace(/\/$/, "")}/register?invite=${encodeURIComponent(token)}`;
+}
+
+/** Emails the link when the invitation has an address. Returns whether it went out. */
+async function sendInvitationEmail(req: Request, invitation: Invitation) {
+  const mailer = getMailer();
+  if (!invitation.email || !mailer.enabled) return false;
+
+  const link = registerLink(req, invitationToken(invitation));
+  const role = await getRoleLabel(invitation.role);
+  const expires = invitation.expiresAt.toLocaleDateString();
+  try {
+    await mailer.send({
+      to: invitation.email,
+      subject: "You're invited to BLCM Hardware",
+      text: `You've been invited to join BLCM Hardware as ${role}. Create your account here: ${link} (expires ${expires}).`,
+      html: `
+        <div style="font-family:Arial,sans-serif;line-height:1.5">
+          <h2>You're invited</h2>
+          <p>You've been invited to join BLCM Hardware as <strong>${role}</strong>.</p>
+          <p><a href="${link}" style="color:#4F46E5">Create your account</a></p>
+          <p>This link works once and expires on <strong>${expires}</strong>.</p>
+        </div>
+      `,
+    });
+  } catch (err) {
+    console.error("Failed to send invitation email:", err);
+    return false;
+  }
+  await storage.markInvitationSent(invitation.id);
+  return true;
+}
+
+/** What admins see: never the nonce; the link token only while it can be used. */
+function toInvitationInfo(invitation: Invitation) {
+  const { nonce, ...info } = invitation;
+  const status = invitationStatus(invitation);
+  return { ...info, status, token: status === "pending" ? invitationToken(invitation) : null };
+}
+
+/**
+ * Public invitation lookup for the register page. Mounted under
+ * /api/invitations in routes.ts; the account itself is created by
+ * POST /api/register with the token.
+ */
+const router = express.Router();
+
+/**
+ * Invitation management. Mounted under /api/admin/invitations behind
+ * account.manage in admin.ts.
+ */
+export const adminInvitationsRouter = express.Router();
+
+// -------------------- LOOK UP INVITATION --------------------
+router.get("/:token", async (req: Request, res: Response) => {
+  try {
+    const invitation = await resolveInvitation(req.params.token);
+    res.json({
+      role: invitation.role,
+      roleLabel: await getRoleLabel(invitation.role),
+      email: invitation.email,
+      expiresAt: invitation.expiresAt,
+    });
+  } catch (err) {
+    sendError(res, err, "Failed to load invitation");
+  }
+});
+
+// -------------------- LIST INVITATIONS --------------------
+adminInvitationsRouter.get("/", async (_req: Request, res: Response) => {
+  try {
+    const invitations = await storage.getInvitations();
+    res.json(invitations.map(toInvitationInfo));
+  } catch (err) {
+    sendError(res, err, "Failed to load invitations");
+  }
+});
+
+// -------------------- CREATE INVITATION --------------------
+adminInvitationsRouter.post("/", async (req: Request, res: Response) => {
+  try {
+    const { role, email, expiresInDays } = createInvitationSchema.parse(req.body);
+    if (!(await roleExists(role))) return res.status(400).json({ message: "Unknown role" });
+    if (!(await canManageRole(req.user!, role))) {
+      return res.status(403).json({ message: "You cannot invite someone to a role with more access than your own" });
+    }
+
+    const invitation = await storage.createInvitation({
+      role,
+      email: email || null,
+      nonce: randomBytes(16).toString("hex"),
+      createdBy: req.user!.id,
+      createdByUsername: req.user!.username,
+      expiresAt: new Date(Date.now() + expiresInDays * DAY_MS),
+    });
+    const emailSent = await sendInvitationEmail(req, invitation);
+    await recordSecurityEvent(req, "invitation_created", {
+      details: { invitation: invitation.id, role, email: invitation.email, expiresAt: invitation.expiresAt, emailSent },
+    });
+    res.status(201).json({ ...toInvitationInfo((await storage.getInvitation(invitation.id))!), emailSent });
+  } catch (err) {
+    sendError(res, err, "Failed to create invitation");
+  }
+});
+
+// -------------------- RESEND INVITATION --------------------
+// Issues a fresh link (the old one stops working) with a new expiry, and
+// emails it when the invitation has an address
+adminInvitationsRouter.post("/:id/resend", async (req: Request, res: Response) => {
+  try {
+    const { expiresInDays } = createInvitationSchema.pick({ expiresInDays: true }).parse(req.body ?? {});
+    const existing = await storage.getInvitation(req.params.id);
+    if (!existing) return res.status(404).json({ message: "Invitation not found" });
+    if (!(await canManageRole(req.user!, existing.role))) {
+      return res.status(403).json({ message: "You cannot manage an invitation with more access than your own" });
+    }
+    const status = invitationStatus(existing);
+    if (status === "used" || status === "revoked") {
+      return res.status(409).json({ message: `Invitation has been ${status}` });
+    }
+
+    const invitation = await storage.updateInvitation(existing.id, {
+      nonce: randomBytes(16).toString("hex"),
+      expiresAt: new Date(Date.now() + expiresInDays * DAY_MS),
+    });
+    if (!invitation) return res.status(409).json({ message: "Invitation has been used" });
+    const emailSent = await sendInvitationEmail(req, invitation);
+    await recordSecurityEvent(req, "invitation_resent", {
+      details: { invitation: invitation.id, role: invitation.role, email: invitation.email, expiresAt: invitation.expiresAt, emailSent },
+    });
+    res.json({ ...toInvitationInfo((await storage.getInvitation(invitation.id))!), emailSent });
+  } catch (err) {
+    sendError(res, err, "Failed to resend invitation");
+  }
+});
+
+// -------------------- REVOKE INVITATION --------------------
+adminInvitationsRouter.post("/:id/revoke", async (req: Request, res: Response) => {
+  try {
+    const existing = await storage.getInvitation(req.params.id);
+    if (!existing) return res.status(404).json({ message: "Invitation not found" });
+    if (!(await canManageRole(req.user!, existing.role))) {
+      return res.status(403).json({ message: "You cannot manage an invitation with more access than your own" });
+    }
+    const status = invitationStatus(existing);
+    if (status === "used" || status === "revoked") {
+      return res.status(409).json({ message: `Invitation has been ${status}` });
+    }
+
+    const invitation = await storage.updateInvitation(existing.id, { revokedAt: new Date() });
+    if (!invitation) return res.status(409).json({ message: "Invitation has been used" });
+    await recordSecurityEvent(req, "invitation_revoked", {
+      details: { invitation: invitation.id, role: invitation.role, email: invitation.email },
+    });
+    res.json(toInvitationInfo(invitation));
+  } catch (err) {
+    sendError(res, err, "Failed to revoke invitation");
+  }
+});
+
+export default router;
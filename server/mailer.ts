@@ -0,0 +1,130 @@
+import nodemailer from "nodemailer";
+import { promises as fs } from "fs";
+import path from "path";
+import dotenv from "dotenv";
+
+dotenv.config();
+
+/**
+ * Pluggable outgoing mail.
+ *
+ * MAIL_TRANSPORT selects the sink:
+ * - "smtp": SMTP_HOST / SMTP_PORT / SMTP_SECURE / SMTP_USER / SMTP_PASS,
+ *   or Gmail via GMAIL_USER / GMAIL_APP_PASSWORD when SMTP_HOST is unset
+ * - "file": one JSON file per message in MAIL_DIR (default tmp/mail)
+ * - "console": prints messages to stdout
+ * - "disabled": nothing is sent and features that need mail switch off
+ *
+ * Without MAIL_TRANSPORT we use SMTP when credentials exist, otherwise
+ * "console" in development and "disabled" in production.
+ */
+export interface MailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface MailTransport {
+  readonly name: string;
+  readonly enabled: boolean;
+  send(message: MailMessage): Promise<void>;
+}
+
+const MAIL_FROM =
+  process.env.MAIL_FROM ||
+  `"BLCM Hardware" <${process.env.SMTP_USER || process.env.GMAIL_USER || "no-reply@localhost"}>`;
+
+function createSmtpTransport(): MailTransport {
+  const transporter = process.env.SMTP_HOST
+    ? nodemailer.createTransport({
+        host: process.env.SMTP_HOST,
+        port: Number(process.env.SMTP_PORT || 587),
+        secure: process.env.SMTP_SECURE === "true",
+        auth: process.env.SMTP_USER
+          ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+          : undefined,
+      })
+    : nodemailer.createTransport({
+        service: "gmail",
+        auth: { user: process.env.GMAIL_USER, pass: process.env.GMAIL_APP_PASSWORD },
+      });
+
+  return {
+    name: "smtp",
+    enabled: true,
+    async send(message) {
+      await transporter.sendMail({ from: MAIL_FROM, ...message });
+    },
+  };
+}
+
+function createFileTransport(dir: string): MailTransport {
+  return {
+    name: "file",
+    enabled: true,
+    async send(message) {
+      await fs.mkdir(dir, { recursive: true });
+      const file = path.join(dir, `${Date.now()}-${message.to.replace(/[^a-z0-9@._-]/gi, "_")}.json`);
+      await fs.writeFile(file, JSON.stringify({ from: MAIL_FROM, ...message, sentAt: new Date() }, null, 2));
+    },
+  };
+}
+
+function createConsoleTransport(): MailTransport {
+  return {
+    name: "console",
+    enabled: true,
+    async send(message) {
+      console.log(`📧 [mail] to=${message.to} subject="${message.subject}"\n${message.text}`);
+    },
+  };
+}
+
+function createDisabledTransport(): MailTransport {
+  return {
+    name: "disabled",
+    enabled: false,
+    async send() {
+      throw Object.assign(new Error("Email delivery is disabled"), { status: 503 });
+    },
+  };
+}
+
+export function createMailTransport(kind = process.env.MAIL_TRANSPORT): MailTransport {
+  const hasSmtpCredentials =
+    !!process.env.SMTP_HOST || (!!process.env.GMAIL_USER && !!process.env.GMAIL_APP_PASSWORD);
+  const resolved =
+    kind || (hasSmtpCredentials ? "smtp" : process.env.NODE_ENV === "production" ? "disabled" : "console");
+
+  switch (resolved) {
+    case "smtp":
+      if (!hasSmtpCredentials) {
+        console.error("❌ MAIL_TRANSPORT=smtp but no SMTP or Gmail credentials are set; mail is disabled");
+        return createDisabledTransport();
+      }
+      return createSmtpTransport();
+    case "file":
+      return createFileTransport(process.env.MAIL_DIR || path.join("tmp", "mail"));
+    case "console":
+      return createConsoleTransport();
+    case "disabled":
+      return createDisabledTransport();
+    default:
+      console.error(`❌ Unknown MAIL_TRANSPORT "${resolved}"; mail is disabled`);
+      return createDisabledTransport();
+  }
+}
+
+let mailer: MailTransport | undefined;
+
+/** Lazily creates the transport so importing this module never fails. */
+export function getMailer(): MailTransport {
+  if (!mailer) mailer = createMailTransport();
+  return mailer;
+}
+
+/** Swaps the active transport (tests, scripts). */
+export function setMailer(transport: MailTransport) {
+  mailer = transport;
+}
@@ -0,0 +1,251 @@
+import type { Request, Response, NextFunction } from "express";
+import { storage } from "./storage.js";
+import { mustEnrollTwoFactor } from "./two-factor.js";
+import { hashApiToken, isApiTokenFormat } from "./api-tokens.js";
+import { getRolePermissions } from "./permissions.js";
+import type {
+  User,
+  SafeUser,
+  CurrentUser,
+  Session,
+  UserRole,
+  ApiToken,
+  ApiTokenScope,
+  Permission,
+} from "../shared/schema.js";
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: User;
+      authSession?: Session;
+      // Set for `Authorization: Bearer` requests; only `allowApiToken` turns these into req.user
+      apiToken?: ApiToken;
+      apiTokenUser?: User;
+      // The admin behind a "view as" session; req.user is the account being viewed
+      impersonator?: User;
+    }
+  }
+}
+
+// Sliding expiry and token last-used are written back at most this often
+const TOUCH_INTERVAL_MS = 60 * 1000;
+
+export function setSessionCookie(res: Response, session: Session) {
+  res.cookie("sessionId", session.id, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "none", // necessary for cross-origin cookies
+    maxAge: Math.max(0, session.expiresAt.getTime() - Date.now()),
+  });
+}
+
+export function clearSessionCookie(res: Response) {
+  res.clearCookie("sessionId", { sameSite: "none", secure: process.env.NODE_ENV === "production" });
+}
+
+/** Lowercases stored roles so legacy values such as "Admin" still match. */
+export function normalizeRole(role: string | null | undefined): string {
+  return String(role ?? "").trim().toLowerCase();
+}
+
+/** Strips the password hash and 2FA secrets before a user goes out in a response. */
+export function toSafeUser(user: User): SafeUser {
+  const {
+    password,
+    twoFactorSecret,
+    twoFactorPendingSecret,
+    twoFactorRecoveryCodes,
+    twoFactorLastStep,
+    passwordHistory,
+    ...safeUser
+  } = user;
+  return { ...safeUser, twoFactorSetupRequired: mustEnrollTwoFactor(user) };
+}
+
+/** The signed-in user plus what their role allows, for /api/me and login. */
+export async function toCurrentUser(user: User, impersonator?: User): Promise<CurrentUser> {
+  return {
+    ...toSafeUser(user),
+    permissions: await getRolePermissions(user.role),
+    impersonatedBy: impersonator ? { id: impersonator.id, username: impersonator.username } : null,
+  };
+}
+
+/**
+ * Resolves the `sessionId` cookie into `req.user` / `req.authSession` and
+ * slides the session's expiry forward. Never rejects the request; use
+ * `requireAuth` or `requireRole` for that.
+ */
+export async function loadSession(req: Request, res: Response, next: NextFunction) {
+  try {
+    const sessionId = req.cookies?.sessionId;
+    if (!sessionId) return await loadApiToken(req, next);
+
+    let session = await storage.getSession(sessionId);
+    if (!session || session.twoFactorPending || session.expiresAt <= new Date()) return next();
+
+    const user = await storage.getUser(session.userId);
+    if (!user || !user.isActive || user.approvalStatus !== "approved") return next();
+
+    // A "view as" session only lasts while the admin behind it may still impersonate
+    if (session.impersonatorId) {
+      const impersonator = await storage.getUser(session.impersonatorId);
+      if (!impersonator || !impersonator.isActive || !(await getRolePermissions(impersonator.role)).includes("account.impersonate")) {
+        return next();
+      }
+      req.impersonator = impersonator;
+    }
+
+    // Impersonation sessions keep their fixed expiry
+    const lastSeen = session.lastSeenAt?.getTime() ?? 0;
+    if (!session.impersonatorId && Date.now() - lastSeen > TOUCH_INTERVAL_MS) {
+      session = (await storage.touchSession(session.id, session.rememberMe)) ?? session;
+      setSessionCookie(res, session);
+    }
+
+    req.user = user;
+    req.authSession = session;
+    next();
+  } catch (err) {
+    next(err);
+  }
+}
+
+async function loadApiToken(req: Request, next: NextFunction) {
+  const token = req.get("authorization")?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  if (!token || !isApiTokenFormat(token)) return next();
+
+  const apiToken = await storage.getApiTokenByHash(hashApiToken(token));
+  if (!apiToken || (apiToken.expiresAt && apiToken.expiresAt <= new Date())) return next();
+
+  const user = await storage.getUser(apiToken.userId);
+  if (!user || !user.isActive || user.approvalStatus !== "approved") return next();
+
+  const lastUsed = apiToken.lastUsedAt?.getTime() ?? 0;
+  if (Date.now() - lastUsed > TOUCH_INTERVAL_MS) await storage.touchApiToken(apiToken.id, req.ip);
+
+  req.apiToken = apiToken;
+  req.apiTokenUser = user;
+  next();
+}
+
+/**
+ * Lets a bearer token through to this route when it carries `scope`.
+ * Routes without it never see token requests as authenticated. Put it
+ * before `requireAuth` / `requireRole`, which still apply to the token's owner.
+ * The owner's pending password change and 2FA enrollment hold the token
+ * back just as they hold back the owner's sessions.
+ */
+export function allowApiToken(scope: ApiTokenScope) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (req.user || !req.apiToken || !req.apiTokenUser) return next();
+    if (!req.apiToken.scopes.includes(scope)) {
+      return res.status(403).json({ message: `This API token does not have the ${scope} scope` });
+    }
+    if (req.apiTokenUser.mustChangePassword) {
+      return res.status(403).json({ message: "Change your password to continue", mustChangePassword: true });
+    }
+    if (mustEnrollTwoFactor(req.apiTokenUser)) {
+      return res.status(403).json({ message: "Set up two-factor authentication to continue", twoFactorSetupRequired: true });
+    }
+    req.user = req.apiTokenUser;
+    next();
+  };
+}
+
+// What an account that still has to enroll in 2FA may reach (a forced
+// password change first, if both are due)
+const TWO_FACTOR_ENROLLMENT_PATHS = ["/me", "/logout", "/2fa", "/profile/password"];
+
+/**
+ * Holds accounts whose role requires 2FA to the enrollment endpoints until
+ * they have set it up. Mounted on /api after `loadSession`.
+ */
+export function requireTwoFactorEnrollment(req: Request, res: Response, next: NextFunction) {
+  if (!req.user || !mustEnrollTwoFactor(req.user)) return next();
+  if (TWO_FACTOR_ENROLLMENT_PATHS.some((path) => req.path === path || req.path.startsWith(`${path}/`))) {
+    return next();
+  }
+  res.status(403).json({
+    message: "Set up two-factor authentication to continue",
+    twoFactorSetupRequired: true,
+  });
+}
+
+// What an account with mustChangePassword may reach (2FA enrollment too, if both are due)
+const PASSWORD_CHANGE_PATHS = ["/me", "/logout", "/profile", "/2fa"];
+
+/**
+ * Holds accounts whose password was set by an admin to their profile until
+ * they choose a new one. Mounted on /api after `loadSession`; an admin
+ * viewing as the account is let through.
+ */
+export function requirePasswordChange(req: Request, res: Response, next: NextFunction) {
+  if (!req.user?.mustChangePassword || req.impersonator) return next();
+  if (PASSWORD_CHANGE_PATHS.some((path) => req.path === path || req.path.startsWith(`${path}/`))) {
+    return next();
+  }
+  res.status(403).json({
+    message: "Change your password to continue",
+    mustChangePassword: true,
+  });
+}
+
+// What an admin viewing as another account may still change
+const IMPERSONATION_WRITE_PATHS = ["/logout", "/impersonation/stop"];
+
+/**
+ * Keeps "view as" sessions read-only: no password, 2FA, token, profile or
+ * business changes are made in someone else's name. Mounted on /api after
+ * `loadSession`.
+ */
+export function blockWhileImpersonating(req: Request, res: Response, next: NextFunction) {
+  if (!req.impersonator || ["GET", "HEAD", "OPTIONS"].includes(req.method)) return next();
+  if (IMPERSONATION_WRITE_PATHS.includes(req.path)) return next();
+  res.status(403).json({
+    message: "This action is not available while viewing as another user",
+    impersonating: true,
+  });
+}
+
+/**
+ * Rejects the request with 401 unless a valid session is attached.
+ */
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.user) return res.status(401).json({ message: "Not logged in" });
+  next();
+}
+
+/**
+ * Allows the request through only if the user's role grants at least one of
+ * `permissions`. Prefer this over `requireRole`; roles map to permissions in
+ * one place (shared/schema.ts and the custom roles).
+ */
+export function requirePermission(...permissions: Permission[]) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) return res.status(401).json({ message: "Not logged in" });
+      const granted = await getRolePermissions(req.user.role);
+      if (!permissions.some((p) => granted.includes(p))) {
+        return res.status(403).json({ message: "You do not have permission to perform this action" });
+      }
+      next();
+    } catch (err) {
+      next(err);
+    }
+  };
+}
+
+/**
+ * Allows the request through only if the session user holds one of `roles`.
+ */
+export function requireRole(...roles: UserRole[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) return res.status(401).json({ message: "Not logged in" });
+    if (!roles.includes(normalizeRole(req.user.role) as UserRole)) {
+      return res.status(403).json({ message: "You do not have permission to perform this action" });
+    }
+    next();
+  };
+}
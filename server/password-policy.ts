@@ -0,0 +1,112 @@
+import bcrypt from "bcrypt";
+import dotenv from "dotenv";
+import { storage } from "./storage.js";
+import { HttpError } from "./errors.js";
+import { envNumber } from "./env.js";
+import type { User } from "../shared/schema.js";
+
+dotenv.config();
+
+/**
+ * The one password policy, applied to registration, admin-created accounts,
+ * profile changes, emailed resets and admin resets.
+ *
+ * Env: PASSWORD_MIN_LENGTH (default 8), PASSWORD_HISTORY (how many recent
+ * passwords, the current one included, can't be reused; default 5),
+ * PASSWORD_BLOCKLIST (extra comma-separated words to refuse)
+ */
+export interface PasswordPolicy {
+  minLength: number;
+  historySize: number;
+}
+
+export const passwordPolicy: PasswordPolicy = {
+  minLength: envNumber("PASSWORD_MIN_LENGTH", 8),
+  historySize: envNumber("PASSWORD_HISTORY", 5),
+};
+
+const CHARACTER_CLASSES: [RegExp, string][] = [
+  [/[a-z]/, "a lowercase letter"],
+  [/[A-Z]/, "an uppercase letter"],
+  [/[0-9]/, "a number"],
+  [/[^A-Za-z0-9]/, "a special character"],
+];
+
+// Matched against the password's letters only, so "Password123!" counts as "password"
+const COMMON_WORDS = [
+  "password", "passw", "qwerty", "qwertyuiop", "asdfgh", "zxcvbn", "letmein", "welcome", "admin",
+  "administrator", "iloveyou", "monkey", "dragon", "master", "sunshine", "princess", "football",
+  "baseball", "superman", "batman", "trustno", "shadow", "michael", "abc", "abcd", "abcdef",
+  "changeme", "secret", "login", "test", "guest", "user", "default", "hello", "freedom", "whatever",
+  "blcm", "hardware", "inventory",
+];
+
+const blocklist = new Set([
+  ...COMMON_WORDS,
+  ...(process.env.PASSWORD_BLOCKLIST ?? "")
+    .split(",")
+    .map((word) => word.trim().toLowerCase())
+    .filter(Boolean),
+]);
+
+export class PasswordPolicyError extends HttpError {
+  constructor(public problems: string[]) {
+    super(problems.join(" "), 400, { problems });
+  }
+}
+
+/**
+ * Everything wrong with `password` for this account. `user` enables the
+ * reuse check; `username` the check against containing it.
+ */
+export async function checkPassword(password: string, context: { username?: string; user?: User } = {}) {
+  const problems: string[] = [];
+
+  if (password.length < passwordPolicy.minLength) {
+    problems.push(`Password must be at least ${passwordPolicy.minLength} characters.`);
+  }
+  const missing = CHARACTER_CLASSES.filter(([pattern]) => !pattern.test(password)).map(([, label]) => label);
+  if (missing.length) problems.push(`Password must include ${missing.join(", ")}.`);
+
+  const letters = password.toLowerCase().replace(/[^a-z]/g, "");
+  if (blocklist.has(password.toLowerCase()) || blocklist.has(letters) || /^(.)\1+$/.test(password)) {
+    problems.push("Password is too common or easy to guess.");
+  }
+
+  const username = (context.username ?? context.user?.username ?? "").toLowerCase();
+  if (username.length >= 3 && password.toLowerCase().includes(username)) {
+    problems.push("Password must not contain your username.");
+  }
+
+  if (context.user && !problems.length) {
+    const recent = [context.user.password, ...(context.user.passwordHistory ?? [])].slice(0, passwordPolicy.historySize);
+    for (const hash of recent) {
+      if (await bcrypt.compare(password, hash)) {
+        problems.push(`Password must differ from your last ${passwordPolicy.historySize} passwords.`);
+        break;
+      }
+    }
+  }
+
+  return problems;
+}
+
+/** Throws PasswordPolicyError when `password` breaks the policy. */
+export async function assertPasswordAllowed(password: string, context: { username?: string; user?: User } = {}) {
+  const problems = await checkPassword(password, context);
+  if (problems.length) throw new PasswordPolicyError(problems);
+}
+
+/**
+ * Checks the policy, then stores the new hash and pushes the old one onto
+ * the history. `mustChangePassword` makes the next login change it again.
+ */
+export async function setUserPassword(user: User, password: string, options: { mustChangePassword?: boolean } = {}) {
+  await assertPasswordAllowed(password, { user });
+  const hashed = await bcrypt.hash(password, 10);
+  await storage.updateUserPassword(user.username, hashed, {
+    previousHash: user.password,
+    historySize: passwordPolicy.historySize - 1,
+    mustChangePassword: options.mustChangePassword ?? false,
+  });
+}
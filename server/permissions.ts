@@ -0,0 +1,39 @@
+import { storage } from "./storage.js";
+import {
+  builtInRolePermissions,
+  isBuiltInRole,
+  type Permission,
+  type User,
+} from "../shared/schema.js";
+
+/**
+ * Resolves a role name to its permissions: built-in roles from the catalog
+ * in shared/schema.ts, anything else from the admin-managed custom roles.
+ * Unknown roles get no permissions.
+ */
+export async function getRolePermissions(role: string | null | undefined): Promise<Permission[]> {
+  const name = String(role ?? "").trim().toLowerCase();
+  if (isBuiltInRole(name)) return [...builtInRolePermissions[name]];
+  const custom = await storage.getCustomRole(name);
+  return (custom?.permissions ?? []) as Permission[];
+}
+
+export async function roleExists(role: string) {
+  return isBuiltInRole(role) || !!(await storage.getCustomRole(role));
+}
+
+export async function hasPermission(user: User, permission: Permission) {
+  return (await getRolePermissions(user.role)).includes(permission);
+}
+
+// Nobody may act on (or hand out) a role that grants something they lack
+export async function canManageRole(actor: User, role: string) {
+  const [mine, theirs] = await Promise.all([getRolePermissions(actor.role), getRolePermissions(role)]);
+  return theirs.every((p) => mine.includes(p));
+}
+
+/** Display name: built-in roles are capitalized, custom roles carry their own label. */
+export async function getRoleLabel(role: string) {
+  if (isBuiltInRole(role)) return role.charAt(0).toUpperCase() + role.slice(1);
+  return (await storage.getCustomRole(role))?.label ?? role;
+}
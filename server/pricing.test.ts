@@ -0,0 +1,112 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Promotion, VatClass } from "../shared/schema.js";
+import { priceCart, vatBreakdown, type CartLine } from "./pricing.js";
+
+const line = (id: string, price: number, quantity: number, vatClass: VatClass = "vatable", category = "snacks"): CartLine => ({
+  product: { id, name: id, price, category, vatClass },
+  quantity,
+});
+
+const promotion = (overrides: Partial<Promotion>) =>
+  ({
+    id: "promo",
+    name: "Promo",
+    kind: "category_sale",
+    productIds: [],
+    category: "snacks",
+    discountType: "percent",
+    discountValue: 10,
+    minQuantity: null,
+    buyQuantity: null,
+    freeQuantity: null,
+    active: true,
+    ...overrides,
+  }) as Promotion;
+
+describe("vatBreakdown", () => {
+  it("backs VAT out of VAT-inclusive amounts and keeps the other classes apart", () => {
+    const lines = [
+      { vatClass: "vatable" as const, amount: 224 },
+      { vatClass: "exempt" as const, amount: 50 },
+      { vatClass: "zero_rated" as const, amount: 30 },
+    ];
+    assert.deepEqual(vatBreakdown(lines), { vatableSales: 200, vatAmount: 24, vatExemptSales: 50, zeroRatedSales: 30 });
+  });
+
+  it("treats every VATable amount as exempt on a senior citizen / PWD sale", () => {
+    const lines = [
+      { vatClass: "vatable" as const, amount: 80 },
+      { vatClass: "exempt" as const, amount: 40 },
+    ];
+    assert.deepEqual(vatBreakdown(lines, true), { vatableSales: 0, vatAmount: 0, vatExemptSales: 120, zeroRatedSales: 0 });
+  });
+});
+
+describe("priceCart", () => {
+  it("applies only the best promotion on a line, then the line discount on what is left", () => {
+    const cart = [{ ...line("chips", 100, 2), discount: { type: "percent" as const, value: 10 } }];
+    const promotions = [
+      promotion({ id: "a", name: "Ten off", discountType: "percent", discountValue: 10 }),
+      promotion({ id: "b", name: "Five each", discountType: "fixed", discountValue: 5 }),
+    ];
+    const [item] = priceCart(cart, promotions).items;
+    assert.deepEqual(item.discounts, [
+      { source: "promotion", label: "Ten off", amount: 20 },
+      { source: "line", label: "10%", amount: 18 },
+    ]);
+    assert.equal(item.lineTotal, 162);
+  });
+
+  it("gives the free units of a buy X get Y promotion", () => {
+    const buyTwoGetOne = promotion({ kind: "buy_x_get_y", buyQuantity: 2, freeQuantity: 1, discountType: null, discountValue: null });
+    const [item] = priceCart([line("soda", 10, 7)], [buyTwoGetOne]).items;
+    assert.equal(item.discount, 20);
+    assert.equal(item.lineTotal, 50);
+  });
+
+  it("spreads a sale discount over the lines by their net amount", () => {
+    const priced = priceCart([line("a", 100, 1), line("b", 50, 1)], [], { discount: { type: "fixed", value: 10 } });
+    assert.deepEqual(
+      priced.items.map((item) => item.lineTotal),
+      [93.33, 46.67],
+    );
+    assert.equal(priced.discountTotal, 10);
+    assert.equal(priced.total, 140);
+  });
+
+  it("gives the rounding remainder of a sale discount to the last line", () => {
+    const priced = priceCart([line("a", 10, 1), line("b", 10, 1), line("c", 10, 1)], [], { discount: { type: "fixed", value: 10 } });
+    assert.deepEqual(
+      priced.items.map((item) => item.discount),
+      [3.33, 3.33, 3.34],
+    );
+    assert.equal(priced.total, 20);
+  });
+
+  it("drops the VAT and then takes 20% off a senior citizen sale, ignoring other discounts", () => {
+    const cart = [{ ...line("rice", 112, 1), discount: { type: "percent" as const, value: 50 } }];
+    const priced = priceCart(cart, [promotion({ category: "snacks" })], {
+      discount: { type: "fixed", value: 5 },
+      seniorPwd: { kind: "senior", idNumber: "SC-1", name: "Juan" },
+    });
+    assert.deepEqual(priced.items[0].discounts, [
+      { source: "vat_exemption", label: "VAT exemption", amount: 12 },
+      { source: "senior", label: "Senior citizen 20%", amount: 20 },
+    ]);
+    assert.equal(priced.total, 80);
+    assert.equal(priced.vatExemption, 12);
+    assert.equal(priced.discountTotal, 32);
+    assert.deepEqual(
+      { vatableSales: priced.vatableSales, vatAmount: priced.vatAmount, vatExemptSales: priced.vatExemptSales },
+      { vatableSales: 0, vatAmount: 0, vatExemptSales: 80 },
+    );
+  });
+
+  it("takes a PWD's 20% off the full price of goods that carry no VAT", () => {
+    const priced = priceCart([line("medicine", 100, 1, "exempt")], [], { seniorPwd: { kind: "pwd", idNumber: "PWD-1", name: "Ana" } });
+    assert.deepEqual(priced.items[0].discounts, [{ source: "pwd", label: "PWD 20%", amount: 20 }]);
+    assert.equal(priced.vatExemption, 0);
+    assert.equal(priced.total, 80);
+  });
+});
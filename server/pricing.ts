@@ -0,0 +1,184 @@
+import {
+  SENIOR_PWD_DISCOUNT_RATE,
+  VAT_RATE,
+  type AppliedDiscount,
+  type DiscountRequest,
+  type Product,
+  type Promotion,
+  type SeniorPwd,
+  type TransactionItem,
+  type VatBreakdown,
+  type VatClass,
+} from "../shared/schema.js";
+
+/**
+ * The discount rules, in the order they apply:
+ *
+ * 1. The best active promotion for each line (promotions don't stack).
+ * 2. The line's manual discount, on what the promotion left.
+ * 3. The sale's manual discount, spread over the lines by their net amount.
+ *
+ * A senior citizen / PWD sale takes none of those: every line drops its VAT
+ * (if it has any) and then 20%, because the statutory discount can't be
+ * combined with others. The whole sale is then VAT-exempt.
+ *
+ * Prices are VAT-inclusive, so VAT is backed out of what was charged.
+ */
+
+export type CartLine = {
+  product: Pick<Product, "id" | "name" | "price" | "category" | "vatClass">;
+  quantity: number;
+  discount?: DiscountRequest;
+};
+
+export type PricedCart = VatBreakdown & {
+  items: TransactionItem[];
+  subtotal: number;
+  discountTotal: number;
+  vatExemption: number;
+  total: number;
+};
+
+export function roundMoney(amount: number) {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Splits VAT-inclusive amounts into the receipt's VAT lines. VAT is worked out
+ * once on the VATable total rather than per line, so the parts always add up
+ * to the amounts given. A senior citizen / PWD sale is all VAT-exempt.
+ */
+export function vatBreakdown(lines: Array<{ vatClass: VatClass; amount: number }>, seniorPwd = false): VatBreakdown {
+  const sum = (vatClass: VatClass) => roundMoney(lines.filter((line) => line.vatClass === vatClass).reduce((total, line) => total + line.amount, 0));
+  const vatable = seniorPwd ? 0 : sum("vatable");
+  const vatableSales = roundMoney(vatable / (1 + VAT_RATE));
+  return {
+    vatableSales,
+    vatAmount: roundMoney(vatable - vatableSales),
+    vatExemptSales: roundMoney(sum("exempt") + (seniorPwd ? sum("vatable") : 0)),
+    zeroRatedSales: sum("zero_rated"),
+  };
+}
+
+function discountOff(amount: number, quantity: number, type: string | null, value: number | null, perUnit: boolean) {
+  if (!value) return 0;
+  const off = type === "percent" ? (amount * value) / 100 : perUnit ? value * quantity : value;
+  return roundMoney(Math.min(off, amount));
+}
+
+function promotionTargets(promotion: Promotion, product: CartLine["product"]) {
+  if (promotion.productIds.length) return promotion.productIds.includes(product.id);
+  return !!promotion.category && promotion.category.toLowerCase() === (product.category ?? "").toLowerCase();
+}
+
+// Pesos a promotion takes off a line; fixed promotion discounts are per unit
+function promotionDiscount(promotion: Promotion, line: CartLine, gross: number) {
+  if (!promotionTargets(promotion, line.product)) return 0;
+  switch (promotion.kind) {
+    case "buy_x_get_y": {
+      const buy = promotion.buyQuantity ?? 0;
+      const free = promotion.freeQuantity ?? 0;
+      if (!buy || !free) return 0;
+      const freeUnits = Math.floor(line.quantity / (buy + free)) * free;
+      return roundMoney(Math.min(freeUnits * line.product.price, gross));
+    }
+    case "quantity_break":
+      if (line.quantity < (promotion.minQuantity ?? Infinity)) return 0;
+      return discountOff(gross, line.quantity, promotion.discountType, promotion.discountValue, true);
+    default:
+      return discountOff(gross, line.quantity, promotion.discountType, promotion.discountValue, true);
+  }
+}
+
+function describe(discount: DiscountRequest) {
+  const amount = discount.type === "percent" ? `${discount.value}%` : `₱${discount.value.toFixed(2)}`;
+  return discount.reason ? `${amount} · ${discount.reason}` : amount;
+}
+
+function finish(items: TransactionItem[], seniorPwd = false, vatExemption = 0): PricedCart {
+  const subtotal = roundMoney(items.reduce((sum, item) => sum + roundMoney(item.unitPrice * item.quantity), 0));
+  const total = roundMoney(items.reduce((sum, item) => sum + item.lineTotal, 0));
+  return {
+    items,
+    subtotal,
+    discountTotal: roundMoney(subtotal - total),
+    vatExemption: roundMoney(vatExemption),
+    total,
+    ...vatBreakdown(items.map((item) => ({ vatClass: item.vatClass, amount: item.lineTotal })), seniorPwd),
+  };
+}
+
+function item(line: CartLine, gross: number, discounts: AppliedDiscount[]): TransactionItem {
+  const discount = roundMoney(discounts.reduce((sum, d) => sum + d.amount, 0));
+  return {
+    productId: line.product.id,
+    productName: line.product.name,
+    quantity: line.quantity,
+    unitPrice: line.product.price,
+    lineTotal: roundMoney(gross - discount),
+    discount,
+    discounts,
+    vatClass: line.product.vatClass,
+    returnedQuantity: 0,
+  };
+}
+
+function seniorPwdPrice(lines: CartLine[], seniorPwd: SeniorPwd): PricedCart {
+  const label = seniorPwd.kind === "senior" ? "Senior citizen 20%" : "PWD 20%";
+  let vatExemption = 0;
+  const items = lines.map((line) => {
+    const gross = roundMoney(line.product.price * line.quantity);
+    // Exempt and zero-rated goods have no VAT to remove, so the 20% comes off the full price
+    const vatExclusive = line.product.vatClass === "vatable" ? roundMoney(gross / (1 + VAT_RATE)) : gross;
+    const statutory = roundMoney(vatExclusive * SENIOR_PWD_DISCOUNT_RATE);
+    const vat = roundMoney(gross - vatExclusive);
+    vatExemption += vat;
+    const discounts: AppliedDiscount[] = [];
+    if (vat > 0) discounts.push({ source: "vat_exemption", label: "VAT exemption", amount: vat });
+    discounts.push({ source: seniorPwd.kind, label, amount: statutory });
+    return item(line, gross, discounts);
+  });
+  return finish(items, true, vatExemption);
+}
+
+export function priceCart(lines: CartLine[], promotions: Promotion[], options: { discount?: DiscountRequest; seniorPwd?: SeniorPwd } = {}): PricedCart {
+  if (options.seniorPwd) return seniorPwdPrice(lines, options.seniorPwd);
+
+  const items = lines.map((line) => {
+    const gross = roundMoney(line.product.price * line.quantity);
+    const discounts: AppliedDiscount[] = [];
+
+    let best: { promotion: Promotion; amount: number } | undefined;
+    for (const promotion of promotions) {
+      const amount = promotionDiscount(promotion, line, gross);
+      if (amount > 0 && (!best || amount > best.amount)) best = { promotion, amount };
+    }
+    if (best) discounts.push({ source: "promotion", label: best.promotion.name, amount: best.amount });
+
+    if (line.discount) {
+      const remaining = roundMoney(gross - (best?.amount ?? 0));
+      const amount = discountOff(remaining, line.quantity, line.discount.type, line.discount.value, false);
+      if (amount > 0) discounts.push({ source: "line", label: describe(line.discount), amount });
+    }
+    return item(line, gross, discounts);
+  });
+
+  const saleDiscount = options.discount;
+  if (saleDiscount) {
+    const net = roundMoney(items.reduce((sum, i) => sum + i.lineTotal, 0));
+    const off = discountOff(net, 1, saleDiscount.type, saleDiscount.value, false);
+    // The last line takes the rounding remainder so the shares add up exactly
+    let left = off;
+    items.forEach((current, index) => {
+      const share = index === items.length - 1 ? left : net ? roundMoney((off * current.lineTotal) / net) : 0;
+      const amount = roundMoney(Math.min(share, current.lineTotal));
+      left = roundMoney(left - amount);
+      if (amount <= 0) return;
+      current.discounts.push({ source: "sale", label: describe(saleDiscount), amount });
+      current.discount = roundMoney(current.discount + amount);
+      current.lineTotal = roundMoney(current.lineTotal - amount);
+    });
+  }
+
+  return finish(items);
+}
@@ -0,0 +1,143 @@
+import express, { Request, Response } from "express";
+import bcrypt from "bcrypt";
+import { sendError } from "./errors.js";
+import { storage } from "./storage.js";
+import { recordSecurityEvent } from "./audit.js";
+import { setSessionCookie, toCurrentUser } from "./middleware.js";
+import { setUserPassword } from "./password-policy.js";
+import {
+  VerificationError,
+  consumeVerificationCode,
+  issueVerificationCode,
+} from "./auth.js";
+import { getMailer } from "./mailer.js";
+import {
+  updateProfileSchema,
+  verifyEmailChangeSchema,
+  changePasswordSchema,
+} from "../shared/schema.js";
+
+/**
+ * Self-service profile: contact details, email change with a confirmation
+ * code sent to the new address, and password change. Mounted under
+ * /api/profile behind requireAuth in routes.ts.
+ */
+const router = express.Router();
+
+// -------------------- GET PROFILE --------------------
+router.get("/", async (req: Request, res: Response) => {
+  try {
+    res.json(await toCurrentUser(req.user!, req.impersonator));
+  } catch (err) {
+    sendError(res, err, "Failed to load profile");
+  }
+});
+
+// -------------------- UPDATE PROFILE --------------------
+// Answers with the updated current user so the client can replace /api/me
+router.put("/", async (req: Request, res: Response) => {
+  try {
+    const { email, ...details } = updateProfileSchema.parse(req.body);
+    const user = req.user!;
+    if (user.role !== "supplier") {
+      delete details.supply;
+      delete details.supplyQuantity;
+    }
+
+    const newEmail = email?.trim().toLowerCase();
+    const emailChanged = !!newEmail && newEmail !== user.email?.toLowerCase() && newEmail !== user.pendingEmail;
+    // A new address only takes effect once a code sent to it comes back
+    if (emailChanged && !getMailer().enabled) {
+      throw new VerificationError("Email changes can't be confirmed while email delivery is disabled. Ask an administrator.", 503);
+    }
+
+    let updated = await storage.updateUser(user.id, details);
+
+    if (emailChanged) {
+      // Store the request first so a throttled send still leaves it resendable
+      updated = await storage.setPendingEmail(user.id, newEmail);
+      await issueVerificationCode("email_change", user.id, newEmail);
+      await recordSecurityEvent(req, "email_change_requested", {
+        userId: user.id,
+        username: user.username,
+        details: { from: user.email, to: newEmail },
+      });
+    }
+
+    res.json(await toCurrentUser(updated!, req.impersonator));
+  } catch (err) {
+    sendError(res, err, "Failed to update profile");
+  }
+});
+
+// -------------------- CONFIRM EMAIL CHANGE --------------------
+router.post("/email/verify", async (req: Request, res: Response) => {
+  try {
+    const { code } = verifyEmailChangeSchema.parse(req.body);
+    const user = req.user!;
+    if (!user.pendingEmail) return res.status(400).json({ message: "No email change is pending" });
+
+    await consumeVerificationCode("email_change", user.id, user.pendingEmail, code);
+    const updated = await storage.applyPendingEmail(user.id, user.pendingEmail);
+    if (!updated) return res.status(409).json({ message: "The pending email changed; request a new code" });
+    await recordSecurityEvent(req, "email_changed", {
+      userId: user.id,
+      username: user.username,
+      details: { from: user.email, to: updated.email, verified: true },
+    });
+    res.json(await toCurrentUser(updated));
+  } catch (err) {
+    sendError(res, err, "Failed to confirm email change");
+  }
+});
+
+router.post("/email/resend", async (req: Request, res: Response) => {
+  try {
+    const pendingEmail = req.user!.pendingEmail;
+    if (!pendingEmail) return res.status(400).json({ message: "No email change is pending" });
+    await issueVerificationCode("email_change", req.user!.id, pendingEmail);
+    res.json({ message: `A new code has been sent to ${pendingEmail}` });
+  } catch (err) {
+    sendError(res, err, "Failed to resend code");
+  }
+});
+
+router.delete("/email", async (req: Request, res: Response) => {
+  try {
+    const updated = await storage.setPendingEmail(req.user!.id, null);
+    res.json(await toCurrentUser(updated!));
+  } catch (err) {
+    sendError(res, err, "Failed to cancel email change");
+  }
+});
+
+// -------------------- CHANGE PASSWORD --------------------
+// Signs out every other session and moves this one to a fresh session id
+router.put("/password", async (req: Request, res: Response) => {
+  try {
+    const { currentPassword, newPassword } = changePasswordSchema.parse(req.body);
+    const user = req.user!;
+    if (!(await bcrypt.compare(currentPassword, user.password))) {
+      return res.status(400).json({ message: "Current password is incorrect" });
+    }
+
+    await setUserPassword(user, newPassword);
+    const revoked = await storage.deleteUserSessions(user.id);
+    const session = await storage.createSession(user.id, {
+      userAgent: req.get("user-agent"),
+      ip: req.ip,
+      rememberMe: req.authSession?.rememberMe ?? false,
+    });
+    setSessionCookie(res, session);
+    await recordSecurityEvent(req, "password_changed", {
+      userId: user.id,
+      username: user.username,
+      details: { otherSessionsRevoked: Math.max(0, revoked - 1) },
+    });
+    res.json({ message: "Password changed. Other sessions have been signed out." });
+  } catch (err) {
+    sendError(res, err, "Failed to change password");
+  }
+});
+
+export default router;
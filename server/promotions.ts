@@ -0,0 +1,42 @@
+import express, { Request, Response } from "express";
+import { sendError } from "./errors.js";
+import { storage } from "./storage.js";
+import { requirePermission } from "./middleware.js";
+import { createPromotionSchema } from "../shared/schema.js";
+
+/**
+ * Scheduled promotions the POS applies on its own. Mounted under
+ * /api/promotions in routes.ts. A promotion is never edited: end it and
+ * create another, so past receipts still match what they name.
+ */
+const router = express.Router();
+
+// Cashiers can see what's running; only managers change it
+router.get("/", requirePermission("promotion.manage", "sale.create"), async (_req: Request, res: Response) => {
+  try {
+    res.json(await storage.getPromotions());
+  } catch (err) {
+    sendError(res, err, "Failed to fetch promotions");
+  }
+});
+
+router.post("/", requirePermission("promotion.manage"), async (req: Request, res: Response) => {
+  try {
+    const promotion = await storage.createPromotion(createPromotionSchema.parse(req.body), req.user!.id);
+    res.status(201).json(promotion);
+  } catch (err) {
+    sendError(res, err, "Failed to create promotion");
+  }
+});
+
+router.post("/:id/end", requirePermission("promotion.manage"), async (req: Request, res: Response) => {
+  try {
+    const promotion = await storage.endPromotion(req.params.id);
+    if (!promotion) return res.status(404).json({ message: "Promotion not found" });
+    res.json(promotion);
+  } catch (err) {
+    sendError(res, err, "Failed to end promotion");
+  }
+});
+
+export default router;
@@ -0,0 +1,175 @@
+import dotenv from "dotenv";
+import { storage } from "./storage.js";
+import { envNumber } from "./env.js";
+
+dotenv.config();
+
+/* -------------------- ACCOUNT LOCKOUT POLICY -------------------- */
+
+/**
+ * Per-account lockout. After `maxAttempts` consecutive failures the account
+ * is locked; each further lockout before a successful login multiplies the
+ * cooldown by `escalationFactor`, up to `maxCooldownMs`.
+ *
+ * Env: LOGIN_MAX_ATTEMPTS, LOGIN_COOLDOWN_SECONDS,
+ * LOGIN_COOLDOWN_ESCALATION, LOGIN_MAX_COOLDOWN_SECONDS
+ */
+export interface LockoutPolicy {
+  maxAttempts: number;
+  baseCooldownMs: number;
+  escalationFactor: number;
+  maxCooldownMs: number;
+}
+
+export const lockoutPolicy: LockoutPolicy = {
+  maxAttempts: envNumber("LOGIN_MAX_ATTEMPTS", 3),
+  baseCooldownMs: envNumber("LOGIN_COOLDOWN_SECONDS", 5 * 60) * 1000,
+  escalationFactor: envNumber("LOGIN_COOLDOWN_ESCALATION", 2),
+  maxCooldownMs: envNumber("LOGIN_MAX_COOLDOWN_SECONDS", 60 * 60) * 1000,
+};
+
+/** Cooldown for the nth lockout (1-based) since the last successful login. */
+export function cooldownFor(lockoutNumber: number, policy = lockoutPolicy) {
+  const factor = Math.pow(policy.escalationFactor, Math.max(0, lockoutNumber - 1));
+  return Math.min(policy.baseCooldownMs * factor, policy.maxCooldownMs);
+}
+
+/* -------------------- SLIDING WINDOW LIMITER -------------------- */
+
+export interface RateLimitStore {
+  /** Hits for `key` newer than `since`, plus the oldest of them. */
+  count(key: string, since: Date): Promise<{ count: number; oldest?: Date }>;
+  add(key: string, at: Date, windowMs: number): Promise<void>;
+  /** Drops the single hit recorded for `key` at `at`. */
+  remove(key: string, at: Date): Promise<void>;
+  reset(key: string): Promise<void>;
+}
+
+/**
+ * Single-process store; fine for development or a single instance. Keys
+ * nobody checks again are swept once their last hit has left the window.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private hits = new Map<string, { times: number[]; expiresAt: number }>();
+  private nextSweep = 0;
+
+  async count(key: string, since: Date) {
+    const entry = this.hits.get(key);
+    const recent = (entry?.times ?? []).filter((t) => t > since.getTime());
+    if (entry && recent.length) entry.times = recent;
+    else this.hits.delete(key);
+    return { count: recent.length, oldest: recent.length ? new Date(recent[0]) : undefined };
+  }
+
+  async add(key: string, at: Date, windowMs: number) {
+    this.sweep(at.getTime(), windowMs);
+    const entry = this.hits.get(key) ?? { times: [], expiresAt: 0 };
+    entry.times.push(at.getTime());
+    entry.expiresAt = Math.max(entry.expiresAt, at.getTime() + windowMs);
+    this.hits.set(key, entry);
+  }
+
+  async remove(key: string, at: Date) {
+    const entry = this.hits.get(key);
+    const index = entry?.times.indexOf(at.getTime()) ?? -1;
+    if (index >= 0) entry!.times.splice(index, 1);
+    if (entry && !entry.times.length) this.hits.delete(key);
+  }
+
+  async reset(key: string) {
+    this.hits.delete(key);
+  }
+
+  // At most once per window, so inserts stay cheap
+  private sweep(now: number, windowMs: number) {
+    if (now < this.nextSweep) return;
+    this.nextSweep = now + windowMs;
+    this.hits.forEach((entry, key) => {
+      if (entry.expiresAt <= now) this.hits.delete(key);
+    });
+  }
+}
+
+/** Shared store so limits hold across instances; hits expire via a TTL index. */
+export class MongoRateLimitStore implements RateLimitStore {
+  count(key: string, since: Date) {
+    return storage.countRateLimitHits(key, since);
+  }
+
+  add(key: string, at: Date, windowMs: number) {
+    return storage.addRateLimitHit(key, at, new Date(at.getTime() + windowMs));
+  }
+
+  remove(key: string, at: Date) {
+    return storage.removeRateLimitHit(key, at);
+  }
+
+  reset(key: string) {
+    return storage.clearRateLimitHits(key);
+  }
+}
+
+export class SlidingWindowLimiter {
+  constructor(
+    private store: RateLimitStore,
+    private options: { prefix: string; limit: number; windowMs: number }
+  ) {}
+
+  private key(id: string) {
+    return `${this.options.prefix}:${id.toLowerCase()}`;
+  }
+
+  /**
+   * Reserves a slot for `id` before the attempt is made: the hit is stored
+   * first and then counted, so parallel attempts can't all slip under the
+   * limit. A limited attempt gives its slot back; call `release` when the
+   * attempt turns out not to count (e.g. the password was right).
+   */
+  async attempt(id: string) {
+    const key = this.key(id);
+    const at = new Date();
+    const release = () => this.store.remove(key, at);
+    await this.store.add(key, at, this.options.windowMs);
+
+    const { count, oldest } = await this.store.count(key, new Date(at.getTime() - this.options.windowMs));
+    if (count <= this.options.limit) return { limited: false, retryAfterSeconds: 0, release };
+
+    await release();
+    const freesAt = (oldest?.getTime() ?? at.getTime()) + this.options.windowMs;
+    return {
+      limited: true,
+      retryAfterSeconds: Math.max(1, Math.ceil((freesAt - Date.now()) / 1000)),
+      release: async () => {},
+    };
+  }
+
+  reset(id: string) {
+    return this.store.reset(this.key(id));
+  }
+}
+
+/* -------------------- LOGIN LIMITERS -------------------- */
+
+/**
+ * Failed logins are counted per IP (stops password spraying across many
+ * usernames) and per username (stops a distributed guess at one account).
+ *
+ * Env: RATE_LIMIT_STORE ("memory" | "mongo"), LOGIN_IP_LIMIT,
+ * LOGIN_USERNAME_LIMIT, LOGIN_RATE_WINDOW_SECONDS
+ */
+const rateLimitStore: RateLimitStore =
+  process.env.RATE_LIMIT_STORE === "mongo" ? new MongoRateLimitStore() : new MemoryRateLimitStore();
+
+const windowMs = envNumber("LOGIN_RATE_WINDOW_SECONDS", 15 * 60) * 1000;
+
+export const loginIpLimiter = new SlidingWindowLimiter(rateLimitStore, {
+  prefix: "login:ip",
+  limit: envNumber("LOGIN_IP_LIMIT", 20),
+  windowMs,
+});
+
+export const loginUsernameLimiter = new SlidingWindowLimiter(rateLimitStore, {
+  prefix: "login:user",
+  limit: envNumber("LOGIN_USERNAME_LIMIT", 10),
+  windowMs,
+});
@@ -0,0 +1,65 @@
+import express, { Request, Response } from "express";
+import { sendError } from "./errors.js";
+import { storage } from "./storage.js";
+import { allowApiToken, requirePermission } from "./middleware.js";
+import { storeCode } from "./sales.js";
+import { zReadingQuerySchema } from "../shared/schema.js";
+
+/**
+ * X-readings (the day so far, as often as wanted) and Z-readings (closes the
+ * business day and is kept for good). Mounted under /api/readings in
+ * routes.ts.
+ */
+const router = express.Router();
+
+const viewReadings = [allowApiToken("reports:read"), requirePermission("report.view_financials", "report.z_reading")];
+
+// -------------------- X-READING --------------------
+// Everything since the last Z-reading; reading it changes nothing
+router.get("/x", allowApiToken("reports:read"), requirePermission("sale.create", "report.view_financials"), async (_req: Request, res: Response) => {
+  try {
+    res.json(await storage.getXReading(storeCode()));
+  } catch (err) {
+    sendError(res, err, "Failed to generate X-reading");
+  }
+});
+
+// -------------------- Z-READINGS --------------------
+// The drawer has to be counted first, so no sale can land while the day is being closed
+router.post("/z", requirePermission("report.z_reading"), async (req: Request, res: Response) => {
+  try {
+    if (await storage.getOpenShift(storeCode())) {
+      return res.status(409).json({ message: "Close the open shift before generating the Z-reading" });
+    }
+    const reading = await storage.createZReading(storeCode(), {
+      generatedBy: req.user!.id,
+      generatedByUsername: req.user!.username,
+    });
+    if (!reading) return res.status(409).json({ message: "A Z-reading was just generated. Refresh and try again." });
+    res.status(201).json(reading);
+  } catch (err) {
+    sendError(res, err, "Failed to generate Z-reading");
+  }
+});
+
+router.get("/z", ...viewReadings, async (req: Request, res: Response) => {
+  try {
+    const { page, pageSize } = zReadingQuerySchema.parse(req.query);
+    const { readings, total } = await storage.getZReadings(page, pageSize);
+    res.json({ readings, total, page, pageSize });
+  } catch (err) {
+    sendError(res, err, "Failed to fetch Z-readings");
+  }
+});
+
+router.get("/z/:id", ...viewReadings, async (req: Request, res: Response) => {
+  try {
+    const reading = await storage.getZReading(req.params.id);
+    if (!reading) return res.status(404).json({ message: "Z-reading not found" });
+    res.json(reading);
+  } catch (err) {
+    sendError(res, err, "Failed to fetch Z-reading");
+  }
+});
+
+export default router;
@@ -1,46 +1,162 @@
 import type { Express, Request, Response } from "express";
 import bcrypt from "bcrypt";
 import { ZodError } from "zod";
-import { storage } from "./storage.js";
-import { loginSchema, registerSchema } from "../shared/schema.js";
+import { storage, InsufficientStockError } from "./storage.js";
+import {
+  loadSession,
+  requireAuth,
+  requirePermission,
+  requireTwoFactorEnrollment,
+  requirePasswordChange,
+  blockWhileImpersonating,
+  allowApiToken,
+  setSessionCookie,
+  clearSessionCookie,
+  toSafeUser,
+  toCurrentUser,
+} from "./middleware.js";
+import adminRouter from "./admin.js";
+import sessionsRouter, { toSessionInfo } from "./sessions.js";
+import profileRouter from "./profile.js";
+import twoFactorRouter, { verifySecondFactor } from "./two-factor.js";
+import apiTokensRouter from "./api-tokens.js";
+import salesRouter from "./sales.js";
+import shiftsRouter from "./shifts.js";
+import promotionsRouter from "./promotions.js";
+import readingsRouter from "./readings.js";
+import invitationsRouter, { InvitationError, resolveInvitation, claimInvitation } from "./invitations.js";
+import { recordSecurityEvent } from "./audit.js";
+import { sendError } from "./errors.js";
+import { PasswordPolicyError, assertPasswordAllowed } from "./password-policy.js";
+import { lockoutPolicy, cooldownFor, loginIpLimiter, loginUsernameLimiter } from "./rate-limit.js";
+import authRouter, { passwordRouter, isEmailVerificationRequired, issueVerificationCode } from "./auth.js";
+import {
+  loginSchema,
+  registerSchema,
+  privilegedRoles,
+  selfRegistrationRoles,
+  twoFactorVerifySchema,
+  insertProductSchema,
+  updateProductSchema,
+  vatReportQuerySchema,
+  stockMovementQuerySchema,
+  type Invitation,
+  type User,
+} from "../shared/schema.js";
 import cors from "cors";
 import cookieParser from "cookie-parser";
 
+// Who the stock ledger credits with a quantity change
+function stockActor(req: Request) {
+  return { userId: req.user?.id ?? null, username: req.user?.username ?? null };
+}
+
+/**
+ * Counts a wrong password or second factor against the account and locks it
+ * once `lockoutPolicy.maxAttempts` is reached. Always ends the response.
+ */
+async function rejectFailedLogin(req: Request, res: Response, user: User, reason: string) {
+  const username = user.username;
+  const attempts = await storage.incrementLoginAttempts(username);
+
+  if (attempts >= lockoutPolicy.maxAttempts) {
+    const cooldownMs = cooldownFor((user.lockoutCount || 0) + 1);
+    const cooldownUntil = new Date(Date.now() + cooldownMs);
+    await storage.lockAccount(username, cooldownUntil);
+    await recordSecurityEvent(req, "account_locked", {
+      userId: user.id,
+      username,
+      details: { attempts, reason, cooldownSeconds: Math.ceil(cooldownMs / 1000) },
+    });
+    return res.status(429).json({
+      message: `Too many failed attempts. Account locked for ${Math.ceil(cooldownMs / 60000)} minute(s).`,
+      cooldownUntil,
+      remainingSeconds: Math.ceil(cooldownMs / 1000),
+    });
+  }
+
+  await recordSecurityEvent(req, "login_failure", {
+    userId: user.id,
+    username,
+    details: { reason, attempts },
+  });
+  return res.status(401).json({ message: "Invalid credentials" });
+}
+
+/**
+ * Ends the current "view as" session and audits it. Returns the admin's own
+ * session when it is still valid, so they can be switched back to it.
+ */
+async function endImpersonation(req: Request, reason: string) {
+  const session = req.authSession!;
+  await storage.deleteSession(session.id);
+  await recordSecurityEvent(req, "impersonation_stopped", {
+    userId: req.user!.id,
+    username: req.user!.username,
+    details: { reason, session: session.publicId, startedAt: session.createdAt },
+  });
+
+  const original = session.impersonatorSessionId ? await storage.getSession(session.impersonatorSessionId) : undefined;
+  return original && original.expiresAt > new Date() ? original : undefined;
+}
+
 /**
  * Registers all API routes
  */
 export function registerRoutes(app: Express) {
   console.log("🛠️ Registering API routes...");
 
+  // Every API request gets req.user / req.authSession when the cookie is valid
+  app.use("/api", loadSession, requirePasswordChange, requireTwoFactorEnrollment, blockWhileImpersonating);
+
   // -------------------- SESSION: CURRENT USER --------------------
-  app.get("/api/me", async (req: Request, res: Response) => {
+  app.get("/api/me", requireAuth, async (req: Request, res: Response) => {
     try {
-      const sessionId = req.cookies?.sessionId;
-      if (!sessionId) return res.status(401).json({ message: "Not logged in" });
-
-      const session = await storage.getSession(sessionId);
-      if (!session) return res.status(401).json({ message: "Invalid session" });
-
-      const user = await storage.getUser(session.userId);
-      if (!user) return res.status(404).json({ message: "User not found" });
-
-      const { password, ...safeUser } = user;
-      res.json({ user: safeUser });
+      res.json({ user: await toCurrentUser(req.user!, req.impersonator) });
     } catch (err) {
-      console.error("/api/me error:", err);
-      res.status(500).json({ message: "Server error" });
+      sendError(res, err, "Failed to fetch user");
     }
   });
 
   // -------------------- LOGIN --------------------
   app.post("/api/login", async (req: Request, res: Response) => {
     try {
-      const { username, password } = loginSchema.parse(req.body);
+      const { username, password, rememberMe } = loginSchema.parse(req.body);
+      const ip = req.ip || "unknown";
+
+      // Sliding-window limits run before we touch the account at all. The
+      // attempt is reserved up front and given back unless it's a failure.
+      const [ipLimit, userLimit] = await Promise.all([
+        loginIpLimiter.attempt(ip),
+        loginUsernameLimiter.attempt(username),
+      ]);
+      const releaseAttempt = () => Promise.all([ipLimit.release(), userLimit.release()]);
+      if (ipLimit.limited || userLimit.limited) {
+        await releaseAttempt();
+        await recordSecurityEvent(req, "login_failure", {
+          username,
+          details: { reason: ipLimit.limited ? "ip_rate_limited" : "username_rate_limited" },
+        });
+        return res.status(429).json({
+          message: "Too many login attempts. Please wait before trying again.",
+          remainingSeconds: Math.max(ipLimit.retryAfterSeconds, userLimit.retryAfterSeconds),
+        });
+      }
+
       const user = await storage.getUserByUsername(username);
-      if (!user) return res.status(401).json({ message: "Invalid credentials" });
+      if (!user) {
+        await recordSecurityEvent(req, "login_failure", { username, details: { reason: "unknown_user" } });
+        return res.status(401).json({ message: "Invalid credentials" });
+      }
 
       if (user.cooldownUntil && user.cooldownUntil > new Date()) {
         const remaining = Math.ceil((user.cooldownUntil.getTime() - Date.now()) / 1000);
+        await releaseAttempt();
+        await recordSecurityEvent(req, "login_failure", {
+          userId: user.id,
+          username,
+          details: { reason: "account_locked" },
+        });
         return res.status(429).json({
           message: "Account temporarily locked. Try again later.",
           remainingSeconds: remaining,
@@ -48,51 +164,202 @@ export function registerRoutes(app: Express) {
       }
 
       const isValid = await bcrypt.compare(password, user.password);
-      if (!isValid) {
-        await storage.incrementLoginAttempts(username);
-
-        if ((user.loginAttempts || 0) >= 2) {
-          const cooldownUntil = new Date(Date.now() + 5 * 60 * 1000);
-          await storage.setCooldown(username, cooldownUntil);
-          return res.status(429).json({
-            message: "Too many failed attempts. Account locked for 5 minutes.",
-            cooldownUntil,
-          });
-        }
-
-        return res.status(401).json({ message: "Invalid credentials" });
+      if (!isValid) return rejectFailedLogin(req, res, user, "bad_password");
+      await releaseAttempt();
+
+      if (!user.emailVerified && isEmailVerificationRequired()) {
+        return res.status(403).json({
+          message: "Please verify your email address before logging in.",
+          emailVerificationRequired: true,
+          email: user.email,
+        });
+      }
+      if (user.approvalStatus === "pending") {
+        return res.status(403).json({
+          message: "Your account is awaiting administrator approval.",
+          approvalStatus: user.approvalStatus,
+        });
+      }
+      if (user.approvalStatus === "rejected") {
+        return res.status(403).json({
+          message: user.rejectionReason
+            ? `Your registration was rejected: ${user.rejectionReason}`
+            : "Your registration was rejected. Contact an administrator.",
+          approvalStatus: user.approvalStatus,
+        });
+      }
+      if (!user.isActive) {
+        return res.status(403).json({ message: "This account has been deactivated. Contact an administrator." });
       }
 
-      await storage.resetLoginAttempts(username);
-      const session = await storage.createSession(user.id);
+      // Enrolled accounts get a short-lived pending session; /api/login/2fa upgrades it
+      if (user.twoFactorEnabled) {
+        const pending = await storage.createSession(user.id, {
+          userAgent: req.get("user-agent"),
+          ip: req.ip,
+          rememberMe: !!rememberMe,
+          twoFactorPending: true,
+        });
+        setSessionCookie(res, pending);
+        return res.json({ twoFactorRequired: true });
+      }
 
-      res.cookie("sessionId", session.id, {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === "production",
-        sameSite: "none", // necessary for cross-origin cookies
-        maxAge: 24 * 60 * 60 * 1000,
+      await Promise.all([storage.resetLoginAttempts(username), loginUsernameLimiter.reset(username)]);
+      const session = await storage.createSession(user.id, {
+        userAgent: req.get("user-agent"),
+        ip: req.ip,
+        rememberMe: !!rememberMe,
+      });
+      setSessionCookie(res, session);
+      await recordSecurityEvent(req, "login_success", {
+        userId: user.id,
+        username,
+        details: { session: session.publicId, rememberMe: !!rememberMe },
       });
 
-      const { password: _, ...safeUser } = user;
-      res.json({ user: safeUser, session });
+      res.json({ user: await toCurrentUser(user), session: toSessionInfo(session, session.id) });
     } catch (err) {
       console.error("Login error:", err);
       res.status(400).json({ message: "Invalid request data" });
     }
   });
 
+  // -------------------- LOGIN: SECOND FACTOR --------------------
+  app.post("/api/login/2fa", async (req: Request, res: Response) => {
+    try {
+      const input = twoFactorVerifySchema.parse(req.body);
+      const pendingId = req.cookies?.sessionId;
+      const pending = pendingId ? await storage.getSession(pendingId) : undefined;
+      if (!pending || !pending.twoFactorPending || pending.expiresAt <= new Date()) {
+        return res.status(401).json({ message: "Your sign-in has expired. Please log in again.", twoFactorExpired: true });
+      }
+
+      const user = await storage.getUser(pending.userId);
+      if (!user || !user.isActive || user.approvalStatus !== "approved") {
+        await storage.deleteSession(pending.id);
+        clearSessionCookie(res);
+        return res.status(401).json({ message: "Your sign-in has expired. Please log in again.", twoFactorExpired: true });
+      }
+      if (user.cooldownUntil && user.cooldownUntil > new Date()) {
+        return res.status(429).json({
+          message: "Account temporarily locked. Try again later.",
+          remainingSeconds: Math.ceil((user.cooldownUntil.getTime() - Date.now()) / 1000),
+        });
+      }
+
+      const ip = req.ip || "unknown";
+      const [ipLimit, userLimit] = await Promise.all([
+        loginIpLimiter.attempt(ip),
+        loginUsernameLimiter.attempt(user.username),
+      ]);
+      if (ipLimit.limited || userLimit.limited) {
+        await Promise.all([ipLimit.release(), userLimit.release()]);
+        return res.status(429).json({
+          message: "Too many login attempts. Please wait before trying again.",
+          remainingSeconds: Math.max(ipLimit.retryAfterSeconds, userLimit.retryAfterSeconds),
+        });
+      }
+
+      const factor = await verifySecondFactor(user, input);
+      if (!factor) return rejectFailedLogin(req, res, user, "bad_two_factor_code");
+      await Promise.all([ipLimit.release(), userLimit.release()]);
+
+      // Swap the pending session for a fresh one so the challenge token is never reused
+      await storage.deleteSession(pending.id);
+      await Promise.all([storage.resetLoginAttempts(user.username), loginUsernameLimiter.reset(user.username)]);
+      const session = await storage.createSession(user.id, {
+        userAgent: req.get("user-agent"),
+        ip: req.ip,
+        rememberMe: pending.rememberMe,
+      });
+      setSessionCookie(res, session);
+      await recordSecurityEvent(req, "login_success", {
+        userId: user.id,
+        username: user.username,
+        details: {
+          session: session.publicId,
+          rememberMe: pending.rememberMe,
+          twoFactor: factor,
+          ...(factor === "recovery_code" && { recoveryCodesRemaining: user.twoFactorRecoveryCodes.length - 1 }),
+        },
+      });
+
+      res.json({ user: await toCurrentUser(user), session: toSessionInfo(session, session.id) });
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid request data", errors: err.errors });
+      }
+      console.error("Two-factor login error:", err);
+      res.status(500).json({ message: "Failed to verify code" });
+    }
+  });
+
   // -------------------- REGISTER --------------------
+  // Public sign-up is limited to selfRegistrationRoles; any other role needs an
+  // invitation, which fixes the role (and email, if set) and skips approval
   app.post("/api/register", async (req: Request, res: Response) => {
+    let invitation: Invitation | undefined;
+    let user: User | undefined;
     try {
       const userData = registerSchema.parse(req.body);
-      const { confirmPassword, ...cleanData } = userData;
-      const user = await storage.registerUser(cleanData);
-      const { password: _, ...safeUser } = user;
-      res.status(201).json({ user: safeUser });
+      const { confirmPassword, invitationToken, ...cleanData } = userData;
+      await assertPasswordAllowed(cleanData.password, { username: cleanData.username });
+
+      if (invitationToken) {
+        const pending = await resolveInvitation(invitationToken);
+        if (pending.email && pending.email !== cleanData.email.trim().toLowerCase()) {
+          return res.status(400).json({ message: "Use the email address the invitation was sent to" });
+        }
+        invitation = await claimInvitation(pending);
+        cleanData.role = invitation.role;
+      } else if (!(selfRegistrationRoles as readonly string[]).includes(cleanData.role)) {
+        return res.status(403).json({ message: "This role requires an invitation from an administrator" });
+      }
+
+      const needsApproval = !invitation && (privilegedRoles as readonly string[]).includes(cleanData.role);
+      // The invitation link went to this address, which proves the user can read it
+      const emailVerified = !!invitation?.email;
+      user = await storage.registerUser(cleanData, needsApproval ? "pending" : "approved", emailVerified);
+
+      if (invitation) {
+        await storage.setInvitationUsedBy(invitation.id, user.id);
+        await recordSecurityEvent(req, "invitation_redeemed", {
+          userId: user.id,
+          username: user.username,
+          details: { invitation: invitation.id, role: invitation.role, invitedBy: invitation.createdByUsername },
+        });
+      }
+
+      // Registration succeeds even if the email can't go out; the user can resend
+      const verificationRequired = !emailVerified && isEmailVerificationRequired();
+      let verificationSent = false;
+      if (verificationRequired) {
+        try {
+          await issueVerificationCode("email_verification", user.id, cleanData.email);
+          verificationSent = true;
+        } catch (err) {
+          console.error("Failed to send verification email:", err);
+        }
+      }
+
+      res.status(201).json({
+        user: toSafeUser(user),
+        pendingApproval: needsApproval,
+        emailVerificationRequired: verificationRequired,
+        verificationSent,
+      });
     } catch (error: any) {
+      // The account wasn't created, so the invitation can be used again
+      if (invitation && !user) await storage.releaseInvitation(invitation.id);
       if (error instanceof ZodError) {
         return res.status(400).json({ message: "Invalid request data", errors: error.errors });
       }
+      if (error instanceof InvitationError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof PasswordPolicyError) {
+        return res.status(400).json({ message: error.message, problems: error.problems });
+      }
       if (error.message === "Username already exists") {
         return res.status(409).json({ message: error.message });
       }
@@ -101,16 +368,75 @@ export function registerRoutes(app: Express) {
   });
 
   // -------------------- LOGOUT --------------------
+  // Logging out of a "view as" session signs the admin out completely
   app.post("/api/logout", async (req: Request, res: Response) => {
-    const sessionId = req.cookies?.sessionId;
-    if (sessionId) await storage.deleteSession(sessionId);
-    res.clearCookie("sessionId", { sameSite: "none", secure: process.env.NODE_ENV === "production" });
-    res.json({ message: "Logged out successfully" });
+    try {
+      const sessionId = req.cookies?.sessionId;
+      if (req.impersonator) {
+        const original = await endImpersonation(req, "logout");
+        if (original) await storage.deleteSession(original.id);
+      } else if (sessionId) {
+        await storage.deleteSession(sessionId);
+      }
+      const user = req.impersonator ?? req.user;
+      if (user) {
+        await recordSecurityEvent(req, "logout", {
+          userId: user.id,
+          username: user.username,
+          details: { session: req.authSession?.publicId },
+        });
+      }
+      clearSessionCookie(res);
+      res.json({ message: "Logged out successfully" });
+    } catch (err) {
+      sendError(res, err, "Failed to log out");
+    }
   });
 
-  // -------------------- OTHER ROUTES --------------------
-  // ... Keep all your products, sales, admin routes as-is
- app.get("/api/products", async (_req, res) => {
+  // -------------------- STOP IMPERSONATING --------------------
+  // Started from POST /api/admin/accounts/:id/impersonate
+  app.post("/api/impersonation/stop", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const impersonator = req.impersonator;
+      if (!impersonator) return res.status(400).json({ message: "You are not viewing as another user" });
+
+      const original = await endImpersonation(req, "stopped");
+      if (!original) {
+        clearSessionCookie(res);
+        return res.json({ user: null, message: "Your own session has ended. Please login again." });
+      }
+      setSessionCookie(res, original);
+      res.json({ user: await toCurrentUser(impersonator) });
+    } catch (err) {
+      console.error("Failed to stop impersonation:", err);
+      res.status(500).json({ message: "Failed to stop impersonation" });
+    }
+  });
+
+  // -------------------- EMAIL VERIFICATION & PASSWORD RECOVERY --------------------
+  app.use("/api/auth", authRouter);
+  app.use("/api/password", passwordRouter);
+
+  // -------------------- INVITATIONS (public lookup) --------------------
+  app.use("/api/invitations", invitationsRouter);
+
+  // -------------------- PROFILE --------------------
+  app.use("/api/profile", requireAuth, profileRouter);
+
+  // -------------------- SESSIONS --------------------
+  app.use("/api/sessions", requireAuth, sessionsRouter);
+
+  // -------------------- API TOKENS --------------------
+  app.use("/api/tokens", requireAuth, apiTokensRouter);
+
+  // -------------------- TWO-FACTOR ENROLLMENT --------------------
+  app.use("/api/2fa", requireAuth, twoFactorRouter);
+
+  // -------------------- ADMIN: ACCOUNTS, ROLES, SECURITY LOG --------------------
+  app.use("/api/admin", requireAuth, adminRouter);
+
+  // -------------------- PRODUCTS --------------------
+  app.get("/api/products", allowApiToken("products:read"), requirePermission("product.view"), async (_req, res) => {
     try {
       const products = await storage.getAllProducts();
       res.json(products);
@@ -119,7 +445,7 @@ export function registerRoutes(app: Express) {
     }
   });
 
-  app.get("/api/products/:id", async (req, res) => {
+  app.get("/api/products/:id", allowApiToken("products:read"), requirePermission("product.view"), async (req, res) => {
     try {
       const product =
         (await storage.getProductByManualId(req.params.id)) ||
@@ -131,29 +457,55 @@ export function registerRoutes(app: Express) {
     }
   });
 
-  app.post("/api/products", async (req, res) => {
+  app.post("/api/products", requirePermission("product.create"), async (req, res) => {
     try {
-      if (!req.body.id) return res.status(400).json({ message: "Product ID required" });
-      const existing = await storage.getProductByManualId?.(req.body.id);
+      const productData = insertProductSchema.parse(req.body);
+      if (!productData.id.trim()) return res.status(400).json({ message: "Product ID required" });
+      const existing = await storage.getProductByManualId(productData.id);
       if (existing) return res.status(409).json({ message: "Product ID exists" });
-      const product = await storage.createProduct(req.body);
+      const product = await storage.createProduct(productData, stockActor(req));
       res.status(201).json(product);
-    } catch {
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid product data", errors: err.errors });
+      }
       res.status(500).json({ message: "Failed to add product" });
     }
   });
 
-  app.put("/api/products/:id", async (req, res) => {
+  app.put("/api/products/:id", requirePermission("product.edit"), async (req, res) => {
     try {
-      const updated = await storage.updateProduct(req.params.id, req.body);
+      const updates = updateProductSchema.parse(req.body);
+      const updated = await storage.updateProduct(req.params.id, updates, stockActor(req));
       if (!updated) return res.status(404).json({ message: "Product not found" });
       res.json(updated);
-    } catch {
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid product data", errors: err.errors });
+      }
       res.status(500).json({ message: "Failed to update product" });
     }
   });
 
-  app.delete("/api/products/:id", async (req, res) => {
+  // Newest first; each entry carries the balance it left, so the list doubles as a running balance
+  app.get("/api/products/:id/movements", allowApiToken("products:read"), requirePermission("product.view"), async (req, res) => {
+    try {
+      const { page, pageSize, ...query } = stockMovementQuerySchema.parse(req.query);
+      const product =
+        (await storage.getProductByManualId(req.params.id)) ||
+        (await storage.getProduct(req.params.id));
+      if (!product) return res.status(404).json({ message: "Product not found" });
+      const { movements, total } = await storage.getStockMovements(product.id, query, page, pageSize);
+      res.json({ product, movements, total, page, pageSize });
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid query", errors: err.errors });
+      }
+      res.status(500).json({ message: "Failed to fetch stock movements" });
+    }
+  });
+
+  app.delete("/api/products/:id", requirePermission("product.delete"), async (req, res) => {
     try {
       const success = await storage.deleteProduct(req.params.id);
       if (!success) return res.status(404).json({ message: "Product not found" });
@@ -163,83 +515,54 @@ export function registerRoutes(app: Express) {
     }
   });
 
-  app.post("/api/products/:id/deduct", async (req, res) => {
+  // A stock adjustment (breakage, stocktake); sales go through POST /api/sales
+  app.post("/api/products/:id/deduct", requirePermission("product.adjust_stock"), async (req, res) => {
     try {
-      const { quantity } = req.body;
-      const productId = req.params.id;
+      const quantity = Number(req.body.quantity);
+      if (!Number.isFinite(quantity) || quantity <= 0)
+        return res.status(400).json({ message: "Quantity must be positive" });
 
       const product =
-        (await storage.getProductByManualId(productId)) ||
-        (await storage.getProduct(productId));
-
+        (await storage.getProductByManualId(req.params.id)) ||
+        (await storage.getProduct(req.params.id));
       if (!product) return res.status(404).json({ message: "Product not found" });
-      if (product.quantity < quantity)
-        return res.status(400).json({ message: "Insufficient stock" });
-
-      await storage.deductProductStock(product.id, quantity);
-      const updated = await storage.getProduct(product.id);
 
+      const updated = await storage.adjustProductStock(product.id, -quantity, {
+        ...stockActor(req),
+        type: "adjustment",
+        note: typeof req.body.reason === "string" ? req.body.reason : null,
+      });
       res.json({
         message: `Deducted ${quantity} item(s).`,
         product: updated,
       });
-    } catch {
+    } catch (err) {
+      if (err instanceof InsufficientStockError) {
+        return res.status(409).json({ message: err.message, productId: err.productId, available: err.available });
+      }
       res.status(500).json({ message: "Failed to deduct stock" });
     }
   });
 
-  app.post("/api/sales", async (req, res) => {
-    try {
-      const { items } = req.body;
-      if (!Array.isArray(items) || items.length === 0)
-        return res.status(400).json({ message: "No sale items provided" });
-
-      let totalAmount = 0;
-      const saleRecords = [];
-
-      for (const item of items) {
-        const product =
-          (await storage.getProductByManualId(item.id)) ||
-          (await storage.getProduct(item.id));
-
-        if (!product)
-          return res.status(404).json({ message: `Product not found: ${item.id}` });
-        if (product.quantity < item.quantity)
-          return res.status(400).json({
-            message: `Insufficient stock for ${product.name}`,
-          });
-
-        await storage.deductProductStock(product.id, item.quantity);
-        totalAmount += product.price * item.quantity;
-
-        saleRecords.push({
-          productId: product.id,
-          productName: product.name,
-          quantitySold: item.quantity,
-          totalPrice: product.price * item.quantity,
-        });
-      }
-
-      res.json({
-        message: "Transaction completed.",
-        totalAmount,
-        saleRecords,
-      });
-    } catch {
-      res.status(500).json({ message: "Failed to complete sale" });
-    }
-  });
+  // -------------------- SALES, SHIFTS, PROMOTIONS & REPORTS --------------------
+  app.use("/api/sales", salesRouter);
+  app.use("/api/shifts", shiftsRouter);
+  app.use("/api/promotions", promotionsRouter);
+  app.use("/api/readings", readingsRouter);
 
-  app.get("/api/sales", async (_req, res) => {
+  // VAT lines per day of a month, or per month of a year, for the bookkeeper
+  app.get("/api/reports/vat", allowApiToken("reports:read"), requirePermission("report.view_financials"), async (req, res) => {
     try {
-      const sales = await storage.getSalesReport("daily");
-      res.json(sales);
-    } catch {
-      res.status(500).json({ message: "Failed to fetch sales" });
+      res.json(await storage.getVatReport(vatReportQuerySchema.parse(req.query)));
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return res.status(400).json({ message: err.errors[0]?.message ?? "Invalid report query", errors: err.errors });
+      }
+      res.status(500).json({ message: "Failed to generate VAT report" });
     }
   });
 
-  app.get("/api/reports/:period", async (req, res) => {
+  app.get("/api/reports/:period", allowApiToken("reports:read"), requirePermission("report.view_financials"), async (req, res) => {
     try {
       const period = req.params.period === "weekly" ? "weekly" : "daily";
       const report = await storage.getSalesReport(period);
@@ -0,0 +1,83 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { CreditNote, Tender, Transaction } from "../shared/schema.js";
+import { refundTenders, settleTenders } from "./sales.js";
+
+const sale = (tenders: Tender[]) => ({ tenders }) as Transaction;
+const credited = (refunds: Tender[]) => ({ refunds }) as CreditNote;
+
+describe("settleTenders", () => {
+  it("gives change out of the cash tendered", () => {
+    assert.deepEqual(settleTenders([{ method: "cash", amount: 500 }], 356.25), {
+      tenders: [{ method: "cash", amount: 356.25, reference: null }],
+      cashTendered: 500,
+      change: 143.75,
+    });
+  });
+
+  it("takes non-cash tenders at face value and cash for the rest, cash first", () => {
+    const result = settleTenders(
+      [
+        { method: "gcash", amount: 300, reference: "GC-1" },
+        { method: "cash", amount: 100 },
+      ],
+      350,
+    );
+    assert.deepEqual(result, {
+      tenders: [
+        { method: "cash", amount: 50, reference: null },
+        { method: "gcash", amount: 300, reference: "GC-1" },
+      ],
+      cashTendered: 100,
+      change: 50,
+    });
+  });
+
+  it("settles a sale paid exactly by non-cash tenders without a cash line", () => {
+    const result = settleTenders([{ method: "card", amount: 120.5, reference: "1234" }], 120.5);
+    assert.deepEqual(result, { tenders: [{ method: "card", amount: 120.5, reference: "1234" }], cashTendered: 0, change: 0 });
+  });
+
+  it("refuses change on non-cash tenders", () => {
+    assert.ok("error" in settleTenders([{ method: "maya", amount: 200 }], 150));
+  });
+
+  it("refuses payments short of the total", () => {
+    assert.ok("error" in settleTenders([{ method: "cash", amount: 99.99 }], 100));
+  });
+
+  it("refuses cash when non-cash tenders already cover the total", () => {
+    assert.ok("error" in settleTenders([{ method: "card", amount: 100 }, { method: "cash", amount: 20 }], 100));
+  });
+});
+
+describe("refundTenders", () => {
+  const split = sale([
+    { method: "cash", amount: 50, reference: null },
+    { method: "gcash", amount: 300, reference: "GC-1" },
+  ]);
+
+  it("refunds through non-cash tenders before cash", () => {
+    assert.deepEqual(refundTenders(split, [], 200), [{ method: "gcash", amount: 200, reference: "GC-1" }]);
+  });
+
+  it("pays the part non-cash tenders can't cover in cash", () => {
+    assert.deepEqual(refundTenders(split, [], 320), [
+      { method: "gcash", amount: 300, reference: "GC-1" },
+      { method: "cash", amount: 20, reference: null },
+    ]);
+  });
+
+  it("leaves out what earlier credit notes already returned through each tender", () => {
+    const earlier = [credited([{ method: "gcash", amount: 250, reference: "GC-1" }])];
+    assert.deepEqual(refundTenders(split, earlier, 80), [
+      { method: "gcash", amount: 50, reference: "GC-1" },
+      { method: "cash", amount: 30, reference: null },
+    ]);
+  });
+
+  it("pays a rounding centavo no tender still covers in cash", () => {
+    const earlier = [credited([{ method: "gcash", amount: 300, reference: "GC-1" }, { method: "cash", amount: 50, reference: null }])];
+    assert.deepEqual(refundTenders(split, earlier, 0.01), [{ method: "cash", amount: 0.01, reference: null }]);
+  });
+});
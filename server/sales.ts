@@ -0,0 +1,326 @@
+import express, { Request, Response } from "express";
+import { sendError } from "./errors.js";
+import { storage, type NewCreditNote } from "./storage.js";
+import { allowApiToken, requirePermission } from "./middleware.js";
+import { hasPermission } from "./permissions.js";
+import { priceCart, roundMoney, vatBreakdown, type CartLine } from "./pricing.js";
+import {
+  checkoutSchema,
+  quoteSchema,
+  transactionQuerySchema,
+  voidTransactionSchema,
+  returnTransactionSchema,
+  type CreditItem,
+  type CreditKind,
+  type CreditNote,
+  type QuoteRequest,
+  type Shift,
+  type Tender,
+  type TenderRequest,
+  type Transaction,
+  type TransactionItem,
+} from "../shared/schema.js";
+
+/**
+ * Checkout and quotes, transaction history with receipt reprints, voids and
+ * returns, and the daily sales summary. Mounted under /api/sales in
+ * routes.ts; each route names its own permission and API token scope.
+ */
+const router = express.Router();
+
+// Receipt numbers and the cash drawer are per store (STORE_CODE, default MAIN)
+export function storeCode() {
+  return (process.env.STORE_CODE || "MAIN").trim().toUpperCase();
+}
+
+/**
+ * Non-cash tenders pay exactly their amount and can't exceed what is owed;
+ * the cash tenders cover the rest and the change comes out of them. Returns
+ * the tenders as stored, or a message saying why they don't settle `total`.
+ */
+export function settleTenders(requested: TenderRequest[], total: number) {
+  const nonCash = requested.filter((tender) => tender.method !== "cash");
+  const nonCashTotal = roundMoney(nonCash.reduce((sum, tender) => sum + tender.amount, 0));
+  const cashGiven = roundMoney(requested.filter((tender) => tender.method === "cash").reduce((sum, tender) => sum + tender.amount, 0));
+  const cashDue = roundMoney(total - nonCashTotal);
+
+  if (cashDue < 0) return { error: "Non-cash payments are more than the total; change is only given on cash" };
+  if (cashGiven < cashDue) return { error: "Payments are less than the total" };
+  if (cashDue === 0 && cashGiven > 0) return { error: "Non-cash payments already cover the total; remove the cash payment" };
+
+  const tenders: Tender[] = nonCash.map((tender) => ({ method: tender.method, amount: tender.amount, reference: tender.reference ?? null }));
+  if (cashDue > 0) tenders.unshift({ method: "cash", amount: cashDue, reference: null });
+  return { tenders, cashTendered: cashGiven, change: roundMoney(cashGiven - cashDue) };
+}
+
+/**
+ * Prices come from the catalogue, not the client; discounts follow the rules
+ * in pricing.ts. Sends the error response itself and returns undefined when
+ * the cart can't be priced.
+ */
+async function priceSale(req: Request, res: Response, sale: QuoteRequest) {
+  // A senior citizen / PWD sale ignores manual discounts, so it needs no extra permission
+  const manual = !sale.seniorPwd && (!!sale.discount || sale.items.some((item) => item.discount));
+  if (manual && !(await hasPermission(req.user!, "sale.discount"))) {
+    res.status(403).json({ message: "You do not have permission to give discounts" });
+    return undefined;
+  }
+
+  const lines: CartLine[] = [];
+  for (const item of sale.items) {
+    const product =
+      (await storage.getProductByManualId(item.id)) ||
+      (await storage.getProduct(item.id));
+    if (!product) {
+      res.status(404).json({ message: `Product not found: ${item.id}` });
+      return undefined;
+    }
+    lines.push({ product, quantity: item.quantity, discount: item.discount });
+  }
+  return priceCart(lines, await storage.getActivePromotions(), { discount: sale.discount, seniorPwd: sale.seniorPwd });
+}
+
+// -------------------- QUOTE --------------------
+// What the cart would cost right now, for the POS to show before payment
+router.post("/quote", allowApiToken("sales:write"), requirePermission("sale.create"), async (req: Request, res: Response) => {
+  try {
+    const priced = await priceSale(req, res, quoteSchema.parse(req.body));
+    if (priced) res.json(priced);
+  } catch (err) {
+    sendError(res, err, "Failed to price sale");
+  }
+});
+
+// -------------------- CHECKOUT --------------------
+// Priced the same way as a quote. All-or-nothing: a line that can't be
+// filled leaves every product as it was and uses no number.
+// The cash part goes into the open shift's drawer; with no shift open, nothing sells.
+router.post("/", allowApiToken("sales:write"), requirePermission("sale.create"), async (req: Request, res: Response) => {
+  try {
+    const { tenders, cashTendered, ...sale } = checkoutSchema.parse(req.body);
+    const shift = await storage.getOpenShift(storeCode());
+    if (!shift) return res.status(409).json({ message: "No shift is open. Open a shift before ringing up sales." });
+
+    const priced = await priceSale(req, res, sale);
+    if (!priced) return;
+    const payment = settleTenders(tenders ?? [{ method: "cash", amount: cashTendered ?? priced.total }], priced.total);
+    if ("error" in payment) return res.status(400).json({ message: payment.error, total: priced.total });
+
+    const transaction = await storage.checkout({
+      storeCode: storeCode(),
+      cashierId: req.user!.id,
+      cashierUsername: req.user!.username,
+      shiftId: shift.id,
+      ...priced,
+      saleDiscount: (!sale.seniorPwd && sale.discount) || null,
+      seniorPwd: sale.seniorPwd ?? null,
+      ...payment,
+    });
+    res.status(201).json({ message: "Transaction completed.", transaction });
+  } catch (err) {
+    sendError(res, err, "Failed to complete sale");
+  }
+});
+
+// -------------------- TRANSACTION HISTORY --------------------
+// Cashiers look up their receipts; anyone who sees the reports can too
+const viewTransactions = [allowApiToken("reports:read"), requirePermission("sale.create", "report.view_financials")];
+
+router.get("/transactions", ...viewTransactions, async (req: Request, res: Response) => {
+  try {
+    const { page, pageSize, ...query } = transactionQuerySchema.parse(req.query);
+    const { transactions, total } = await storage.getTransactions(query, page, pageSize);
+    res.json({ transactions, total, page, pageSize });
+  } catch (err) {
+    sendError(res, err, "Failed to fetch transactions");
+  }
+});
+
+// By id or by receipt number
+router.get("/transactions/:id", ...viewTransactions, async (req: Request, res: Response) => {
+  try {
+    const transaction =
+      (await storage.getTransaction(req.params.id)) ||
+      (await storage.getTransactionByReceiptNumber(req.params.id.toUpperCase()));
+    if (!transaction) return res.status(404).json({ message: "Transaction not found" });
+    res.json(transaction);
+  } catch (err) {
+    sendError(res, err, "Failed to fetch transaction");
+  }
+});
+
+// Counts a printed or exported copy; the copy itself is marked REPRINT
+router.post("/transactions/:id/reprint", requirePermission("sale.create", "report.view_financials"), async (req: Request, res: Response) => {
+  try {
+    const transaction = await storage.markTransactionReprinted(req.params.id);
+    if (!transaction) return res.status(404).json({ message: "Transaction not found" });
+    res.json(transaction);
+  } catch (err) {
+    sendError(res, err, "Failed to record reprint");
+  }
+});
+
+// -------------------- VOIDS & RETURNS --------------------
+// Both produce a numbered credit note and negative sales rows that net out
+// of the reports. Refunds are paid from the open shift's drawer.
+
+// Voids are for correcting mistakes before the drawer is counted; anything older is a return
+function isVoidable(transaction: Transaction, shift: Shift) {
+  return transaction.shiftId === shift.id;
+}
+
+const noShiftMessage = "No shift is open. Open a shift before paying out a refund.";
+
+/**
+ * Pays a refund back through the sale's own tenders, less what earlier
+ * credit notes already returned through each: non-cash first, then cash.
+ * Only the cash part comes out of the drawer.
+ */
+export function refundTenders(transaction: Transaction, earlier: CreditNote[], total: number): Tender[] {
+  const left = transaction.tenders.map((tender) => ({ ...tender }));
+  const take = (amount: number, matches: (tender: Tender) => boolean) => {
+    const refunds: Tender[] = [];
+    for (const tender of left.filter(matches)) {
+      const portion = roundMoney(Math.min(amount, tender.amount));
+      if (portion <= 0) continue;
+      tender.amount = roundMoney(tender.amount - portion);
+      amount = roundMoney(amount - portion);
+      refunds.push({ method: tender.method, amount: portion, reference: tender.reference });
+    }
+    return { refunds, rest: amount };
+  };
+  for (const refund of earlier.flatMap((credit) => credit.refunds)) {
+    take(refund.amount, (tender) => tender.method === refund.method && tender.reference === refund.reference);
+  }
+
+  const nonCash = take(total, (tender) => tender.method !== "cash");
+  const cash = take(nonCash.rest, (tender) => tender.method === "cash");
+  const refunds = [...nonCash.refunds, ...cash.refunds];
+  // Rounding across partial returns can leave a centavo that no tender still covers
+  if (cash.rest > 0) refunds.push({ method: "cash", amount: cash.rest, reference: null });
+  return refunds;
+}
+
+function creditNote(req: Request, shift: Shift, transaction: Transaction, earlier: CreditNote[], kind: CreditKind, reason: string, items: CreditItem[]): NewCreditNote {
+  const total = roundMoney(items.reduce((sum, item) => sum + item.lineTotal, 0));
+  return {
+    storeCode: transaction.storeCode,
+    kind,
+    transactionId: transaction.id,
+    receiptNumber: transaction.receiptNumber,
+    items,
+    total,
+    refunds: refundTenders(transaction, earlier, total),
+    // Credited VAT comes off the output VAT of the period it's issued in
+    ...vatBreakdown(
+      items.map((item) => ({ vatClass: transaction.items[item.line].vatClass, amount: item.lineTotal })),
+      !!transaction.seniorPwd,
+    ),
+    reason,
+    shiftId: shift.id,
+    userId: req.user!.id,
+    username: req.user!.username,
+  };
+}
+
+/**
+ * Refunds what the units were actually charged, discounts included. Each
+ * credit takes the difference between the line's proportional totals before
+ * and after, so a line returned piecemeal refunds exactly its lineTotal.
+ */
+function creditItem(transaction: Transaction, line: number, quantity: number, condition: CreditItem["condition"], returned: number): CreditItem {
+  const item: TransactionItem = transaction.items[line];
+  const charged = (units: number) => roundMoney((item.lineTotal * units) / item.quantity);
+  return {
+    line,
+    productId: item.productId,
+    productName: item.productName,
+    quantity,
+    unitPrice: item.unitPrice,
+    lineTotal: roundMoney(charged(returned + quantity) - charged(returned)),
+    condition,
+    restocked: condition === "resellable",
+  };
+}
+
+router.get("/transactions/:id/credits", ...viewTransactions, async (req: Request, res: Response) => {
+  try {
+    res.json(await storage.getCreditNotes(req.params.id));
+  } catch (err) {
+    sendError(res, err, "Failed to fetch credit notes");
+  }
+});
+
+// The whole sale: everything not already returned goes back on the shelf
+router.post("/transactions/:id/void", requirePermission("sale.void"), async (req: Request, res: Response) => {
+  try {
+    const { reason } = voidTransactionSchema.parse(req.body);
+    const transaction = await storage.getTransaction(req.params.id);
+    if (!transaction) return res.status(404).json({ message: "Transaction not found" });
+    if (transaction.voidedAt) return res.status(409).json({ message: "This sale has already been voided" });
+    const shift = await storage.getOpenShift(storeCode());
+    if (!shift) return res.status(409).json({ message: noShiftMessage });
+    if (!isVoidable(transaction, shift)) {
+      return res.status(409).json({ message: "Only sales from the current shift can be voided; process a return instead" });
+    }
+
+    const items = transaction.items
+      .map((item, line) => creditItem(transaction, line, item.quantity - item.returnedQuantity, "resellable", item.returnedQuantity))
+      .filter((item) => item.quantity > 0);
+    if (!items.length) return res.status(409).json({ message: "Everything on this receipt has already been returned" });
+
+    const earlier = await storage.getCreditNotes(transaction.id);
+    const credit = await storage.issueCreditNote(transaction, creditNote(req, shift, transaction, earlier, "void", reason, items));
+    res.status(201).json({ credit, transaction: await storage.getTransaction(transaction.id) });
+  } catch (err) {
+    sendError(res, err, "Failed to void sale");
+  }
+});
+
+// Some units of some lines, each with the condition it came back in
+router.post("/transactions/:id/return", requirePermission("sale.void"), async (req: Request, res: Response) => {
+  try {
+    const { reason, items: lines } = returnTransactionSchema.parse(req.body);
+    const transaction = await storage.getTransaction(req.params.id);
+    if (!transaction) return res.status(404).json({ message: "Transaction not found" });
+    if (transaction.voidedAt) return res.status(409).json({ message: "This sale has been voided" });
+    const shift = await storage.getOpenShift(storeCode());
+    if (!shift) return res.status(409).json({ message: noShiftMessage });
+
+    const requested = new Map<number, number>();
+    for (const { line, quantity } of lines) {
+      const item = transaction.items[line];
+      if (!item) return res.status(400).json({ message: `Receipt has no line ${line + 1}` });
+      const total = (requested.get(line) ?? 0) + quantity;
+      if (total > item.quantity - item.returnedQuantity) {
+        return res.status(400).json({
+          message: `Only ${item.quantity - item.returnedQuantity} of ${item.productName} can still be returned`,
+        });
+      }
+      requested.set(line, total);
+    }
+
+    const returned = new Map(transaction.items.map((item, line) => [line, item.returnedQuantity]));
+    const items = lines.map(({ line, quantity, condition }) => {
+      const credit = creditItem(transaction, line, quantity, condition, returned.get(line)!);
+      returned.set(line, returned.get(line)! + quantity);
+      return credit;
+    });
+    const earlier = await storage.getCreditNotes(transaction.id);
+    const credit = await storage.issueCreditNote(transaction, creditNote(req, shift, transaction, earlier, "return", reason, items));
+    res.status(201).json({ credit, transaction: await storage.getTransaction(transaction.id) });
+  } catch (err) {
+    sendError(res, err, "Failed to process return");
+  }
+});
+
+// -------------------- DAILY SUMMARY --------------------
+router.get("/", allowApiToken("reports:read"), requirePermission("report.view_financials"), async (_req: Request, res: Response) => {
+  try {
+    res.json(await storage.getSalesReport("daily"));
+  } catch (err) {
+    sendError(res, err, "Failed to fetch sales");
+  }
+});
+
+export default router;
@@ -0,0 +1,72 @@
+import express, { Request, Response } from "express";
+import { storage } from "./storage.js";
+import { recordSecurityEvent } from "./audit.js";
+import { sendError } from "./errors.js";
+import type { Session } from "../shared/schema.js";
+
+/**
+ * Self-service session management. Mounted under /api/sessions behind
+ * requireAuth in routes.ts.
+ */
+const router = express.Router();
+
+// What clients see of a session: publicId and metadata, never the cookie token
+export function toSessionInfo(session: Session, currentId: string) {
+  return {
+    id: session.publicId,
+    userAgent: session.userAgent,
+    ip: session.ip,
+    rememberMe: session.rememberMe,
+    createdAt: session.createdAt,
+    lastSeenAt: session.lastSeenAt,
+    expiresAt: session.expiresAt,
+    current: session.id === currentId,
+  };
+}
+
+// -------------------- LIST MY SESSIONS --------------------
+router.get("/", async (req: Request, res: Response) => {
+  try {
+    const sessions = await storage.getUserSessions(req.user!.id);
+    res.json(sessions.map((s) => toSessionInfo(s, req.authSession!.id)));
+  } catch (err) {
+    sendError(res, err, "Failed to load sessions");
+  }
+});
+
+// -------------------- LOG OUT EVERYWHERE ELSE --------------------
+router.delete("/", async (req: Request, res: Response) => {
+  try {
+    const revoked = await storage.deleteUserSessions(req.user!.id, req.authSession!.id);
+    await recordSecurityEvent(req, "session_revoked", {
+      userId: req.user!.id,
+      username: req.user!.username,
+      details: { scope: "all_other", revoked },
+    });
+    res.json({ message: `Signed out of ${revoked} other session(s)`, revoked });
+  } catch (err) {
+    sendError(res, err, "Failed to revoke sessions");
+  }
+});
+
+// -------------------- REVOKE ONE SESSION --------------------
+router.delete("/:id", async (req: Request, res: Response) => {
+  try {
+    if (req.params.id === req.authSession!.publicId) {
+      return res.status(400).json({ message: "Use logout to end the current session" });
+    }
+
+    const revoked = await storage.deleteUserSession(req.user!.id, req.params.id);
+    if (!revoked) return res.status(404).json({ message: "Session not found" });
+    await recordSecurityEvent(req, "session_revoked", {
+      userId: req.user!.id,
+      username: req.user!.username,
+      details: { scope: "single", session: req.params.id },
+    });
+    res.json({ message: "Session revoked" });
+  } catch (err) {
+    sendError(res, err, "Failed to revoke session");
+  }
+});
+
+export default router;
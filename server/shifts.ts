@@ -0,0 +1,105 @@
+import express, { Request, Response } from "express";
+import { sendError } from "./errors.js";
+import { storage } from "./storage.js";
+import { allowApiToken, requirePermission } from "./middleware.js";
+import { storeCode } from "./sales.js";
+import { cashMovementSchema, closeShiftSchema, openShiftSchema, shiftQuerySchema } from "../shared/schema.js";
+
+/**
+ * Cash drawer shifts: open with a float, record cash in/out, close with a
+ * denomination count. Mounted under /api/shifts in routes.ts. Closed shifts
+ * are read-only; the POS refuses sales while no shift is open.
+ */
+const router = express.Router();
+
+const closedMessage = "This shift is closed and can no longer be changed";
+
+// Whoever works the drawer, plus anyone who sees the reports
+const viewShifts = [allowApiToken("reports:read"), requirePermission("sale.create", "report.view_financials")];
+
+// -------------------- CURRENT SHIFT --------------------
+// null when the drawer is closed
+router.get("/current", ...viewShifts, async (_req: Request, res: Response) => {
+  try {
+    res.json((await storage.getOpenShift(storeCode())) ?? null);
+  } catch (err) {
+    sendError(res, err, "Failed to fetch the current shift");
+  }
+});
+
+router.post("/", requirePermission("sale.create"), async (req: Request, res: Response) => {
+  try {
+    const { openingFloat } = openShiftSchema.parse(req.body);
+    const shift = await storage.openShift({
+      storeCode: storeCode(),
+      openedBy: req.user!.id,
+      openedByUsername: req.user!.username,
+      openingFloat,
+    });
+    if (!shift) return res.status(409).json({ message: "A shift is already open for this drawer" });
+    res.status(201).json(shift);
+  } catch (err) {
+    sendError(res, err, "Failed to open shift");
+  }
+});
+
+router.post("/:id/cash", requirePermission("sale.create"), async (req: Request, res: Response) => {
+  try {
+    const movement = cashMovementSchema.parse(req.body);
+    const shift = await storage.recordCashMovement(req.params.id, {
+      ...movement,
+      userId: req.user!.id,
+      username: req.user!.username,
+    });
+    if (!shift) {
+      if (!(await storage.getShift(req.params.id))) return res.status(404).json({ message: "Shift not found" });
+      return res.status(409).json({ message: closedMessage });
+    }
+    res.json(shift);
+  } catch (err) {
+    sendError(res, err, "Failed to record cash movement");
+  }
+});
+
+// Expected cash and over/short are worked out from the totals as they stood at closing
+router.post("/:id/close", requirePermission("sale.create"), async (req: Request, res: Response) => {
+  try {
+    const { counts, note } = closeShiftSchema.parse(req.body);
+    const shift = await storage.closeShift(req.params.id, {
+      denominations: counts.filter((c) => c.count > 0),
+      closedBy: req.user!.id,
+      closedByUsername: req.user!.username,
+      closingNote: note || null,
+    });
+    if (!shift) {
+      if (!(await storage.getShift(req.params.id))) return res.status(404).json({ message: "Shift not found" });
+      return res.status(409).json({ message: closedMessage });
+    }
+    res.json(shift);
+  } catch (err) {
+    sendError(res, err, "Failed to close shift");
+  }
+});
+
+// -------------------- SHIFT HISTORY --------------------
+router.get("/", ...viewShifts, async (req: Request, res: Response) => {
+  try {
+    const { page, pageSize, ...query } = shiftQuerySchema.parse(req.query);
+    const { shifts, total } = await storage.getShifts(query, page, pageSize);
+    res.json({ shifts, total, page, pageSize });
+  } catch (err) {
+    sendError(res, err, "Failed to fetch shifts");
+  }
+});
+
+router.get("/:id", ...viewShifts, async (req: Request, res: Response) => {
+  try {
+    const shift = await storage.getShift(req.params.id);
+    if (!shift) return res.status(404).json({ message: "Shift not found" });
+    res.json(shift);
+  } catch (err) {
+    sendError(res, err, "Failed to fetch shift");
+  }
+});
+
+export default router;
@@ -0,0 +1,57 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { formatCreditNumber, formatReceiptNumber, unbroken } from "./storage.js";
+
+describe("receipt numbers", () => {
+  it("pads the sequence to eight digits after the store code", () => {
+    assert.equal(formatReceiptNumber("MAIN", 1), "MAIN-00000001");
+    assert.equal(formatReceiptNumber("BR2", 4567), "BR2-00004567");
+  });
+
+  it("keeps every digit once the sequence outgrows the padding", () => {
+    assert.equal(formatReceiptNumber("MAIN", 123456789), "MAIN-123456789");
+  });
+
+  it("sorts in sequence order within a store", () => {
+    const numbers = [9, 10, 100, 2].map((sequence) => formatReceiptNumber("MAIN", sequence));
+    assert.deepEqual([...numbers].sort(), ["MAIN-00000002", "MAIN-00000009", "MAIN-00000010", "MAIN-00000100"]);
+  });
+});
+
+describe("credit note numbers", () => {
+  it("pads the sequence to eight digits after the store code and CN", () => {
+    assert.equal(formatCreditNumber("MAIN", 7), "MAIN-CN-00000007");
+  });
+
+  it("never collides with a receipt number for the same sequence", () => {
+    assert.notEqual(formatCreditNumber("MAIN", 42), formatReceiptNumber("MAIN", 42));
+  });
+});
+
+describe("unbroken", () => {
+  const minutesAgo = (minutes: number) => new Date(Date.now() - minutes * 60 * 1000);
+  const row = (sequence: number, createdAt = minutesAgo(30)) => ({ sequence, createdAt });
+  const sequences = (rows: { sequence: number }[]) => rows.map((r) => r.sequence);
+
+  it("takes every row when the numbers follow on from the last reading", () => {
+    assert.deepEqual(sequences(unbroken([row(11), row(12), row(13)], 10)), [11, 12, 13]);
+  });
+
+  it("stops at a missing number while a later row is recent enough to be in flight", () => {
+    const rows = [row(11), row(13, minutesAgo(0.5)), row(14, minutesAgo(0.2))];
+    assert.deepEqual(sequences(unbroken(rows, 10)), [11]);
+  });
+
+  it("waits for the first number after the last reading too", () => {
+    assert.deepEqual(unbroken([row(12, minutesAgo(1))], 10), []);
+  });
+
+  it("skips a number lost to a failed write once the row after it has settled", () => {
+    const rows = [row(11), row(13, minutesAgo(5)), row(14, minutesAgo(0.2))];
+    assert.deepEqual(sequences(unbroken(rows, 10)), [11, 13, 14]);
+  });
+
+  it("returns nothing when there are no rows", () => {
+    assert.deepEqual(unbroken([], 10), []);
+  });
+});
@@ -1,15 +1,48 @@
 import mongoose from "mongoose";
-import { Schema, model } from "mongoose";
+import { Schema, model, type ClientSession } from "mongoose";
 import { randomUUID } from "crypto";
 import bcrypt from "bcrypt";
+import { vatBreakdown } from "./pricing.js";
+import { HttpError } from "./errors.js";
 import {
+  expectedDrawerCash,
+  paymentMethods,
+  discountSources,
+  VAT_RATE,
   type User,
   type InsertUser,
   type Session,
+  type ApiToken,
+  type ApiTokenScope,
+  type CustomRole,
+  type Invitation,
+  type Permission,
+  type VerificationCode,
+  type SecurityEvent,
+  type SecurityEventQuery,
+  type VerificationPurpose,
   type RegisterRequest,
+  type ApprovalStatus,
   type Product,
   type InsertProduct,
   type UpdateProduct,
+  type Transaction,
+  type TransactionQuery,
+  type CreditNote,
+  type VatBreakdown,
+  type VatReportQuery,
+  type ZReading,
+  type SalesReading,
+  type CreditItem,
+  type Promotion,
+  type CreatePromotionRequest,
+  type Shift,
+  type ShiftQuery,
+  type CashMovement,
+  type DenominationCount,
+  type StockMovement,
+  type StockMovementQuery,
+  type StockMovementType,
 } from "../shared/schema.js";
 
 /* -------------------- GLOBAL MONGO CONNECTION -------------------- */
@@ -31,16 +64,34 @@ export async function connectDB(uri: string) {
 const UserSchema = new Schema({
   username: { type: String, required: true, unique: true, index: true },
   password: { type: String, required: true },
+  passwordHistory: { type: [String], default: [] },
+  passwordChangedAt: Date,
+  mustChangePassword: { type: Boolean, default: false },
   firstName: String,
   lastName: String,
-  email: String,
+  email: { type: String, index: true },
+  // Accounts created before verification existed (or by an admin) count as verified
+  emailVerified: { type: Boolean, default: true },
+  pendingEmail: String,
   phone: String,
-  role: { type: String, default: "Admin" },
+  role: { type: String, default: "user" },
   supply: String,
   supplyQuantity: Number,
   loginAttempts: { type: Number, default: 0 },
+  lockoutCount: { type: Number, default: 0 },
   lastFailedLogin: Date,
   cooldownUntil: Date,
+  isActive: { type: Boolean, default: true },
+  approvalStatus: { type: String, enum: ["approved", "pending", "rejected"], default: "approved", index: true },
+  rejectionReason: String,
+  reviewedBy: String,
+  reviewedAt: Date,
+  twoFactorEnabled: { type: Boolean, default: false },
+  twoFactorSecret: String,
+  twoFactorPendingSecret: String,
+  twoFactorRecoveryCodes: { type: [String], default: [] },
+  twoFactorLastStep: Number,
+  twoFactorEnabledAt: Date,
   createdAt: { type: Date, default: () => new Date() },
 }, { versionKey: false });
 const UserModel = model("User", UserSchema);
@@ -53,29 +104,332 @@ const ProductSchema = new Schema({
   quantity: { type: Number, required: true },
   weighted: { type: Boolean, default: false },
   category: { type: String, required: true, default: "Uncategorized" },
+  vatClass: { type: String, default: "vatable" },
   createdAt: { type: Date, default: () => new Date() },
   updatedAt: { type: Date, default: () => new Date() },
 }, { versionKey: false });
 const ProductModel = model("Product", ProductSchema);
 
+const StockMovementSchema = new Schema({
+  productId: { type: String, required: true },
+  productName: { type: String, required: true },
+  delta: { type: Number, required: true },
+  balance: { type: Number, required: true },
+  type: { type: String, required: true },
+  reference: String,
+  note: String,
+  userId: String,
+  username: String,
+  createdAt: { type: Date, default: () => new Date() },
+}, { versionKey: false });
+StockMovementSchema.index({ productId: 1, createdAt: -1 });
+StockMovementSchema.pre(["updateOne", "updateMany", "findOneAndUpdate", "deleteOne", "deleteMany", "findOneAndDelete"], function () {
+  throw new Error("Stock movements are append-only");
+});
+const StockMovementModel = model("StockMovement", StockMovementSchema);
+
 const SaleSchema = new Schema({
   productId: { type: String, required: true },
   productName: { type: String, required: true },
   quantitySold: { type: Number, required: true },
   totalPrice: { type: Number, required: true },
+  transactionId: { type: String, index: true },
+  // Set on the negative rows a void or return adds, so totals net out
+  creditId: String,
   createdAt: { type: Date, default: () => new Date() },
 }, { versionKey: false });
 const SaleModel = model("Sale", SaleSchema);
 
+const TransactionItemSchema = new Schema({
+  productId: { type: String, required: true },
+  productName: { type: String, required: true },
+  quantity: { type: Number, required: true },
+  unitPrice: { type: Number, required: true },
+  lineTotal: { type: Number, required: true },
+  discount: { type: Number, default: 0 },
+  discounts: { type: [{ source: String, label: String, amount: Number, _id: false }], default: [] },
+  vatClass: { type: String, default: "vatable" },
+  returnedQuantity: { type: Number, default: 0 },
+}, { _id: false });
+
+const TenderSchema = new Schema({
+  method: { type: String, required: true },
+  amount: { type: Number, required: true },
+  reference: String,
+}, { _id: false });
+
+const DiscountSchema = new Schema({
+  type: { type: String, required: true },
+  value: { type: Number, required: true },
+  reason: String,
+}, { _id: false });
+
+const SeniorPwdSchema = new Schema({
+  kind: { type: String, required: true },
+  idNumber: { type: String, required: true },
+  name: { type: String, required: true },
+}, { _id: false });
+
+const TransactionSchema = new Schema({
+  receiptNumber: { type: String, required: true, unique: true },
+  sequence: { type: Number, required: true },
+  storeCode: { type: String, required: true },
+  cashierId: String,
+  cashierUsername: String,
+  shiftId: { type: String, index: true },
+  items: { type: [TransactionItemSchema], default: [] },
+  subtotal: { type: Number, required: true },
+  discountTotal: { type: Number, default: 0 },
+  saleDiscount: { type: DiscountSchema, default: undefined },
+  seniorPwd: { type: SeniorPwdSchema, default: undefined },
+  vatExemption: { type: Number, default: 0 },
+  total: { type: Number, required: true },
+  vatableSales: Number,
+  vatAmount: Number,
+  vatExemptSales: Number,
+  zeroRatedSales: Number,
+  tenders: { type: [TenderSchema], default: [] },
+  cashTendered: { type: Number, required: true },
+  change: { type: Number, required: true },
+  reprintCount: { type: Number, default: 0 },
+  lastReprintedAt: Date,
+  voidedAt: Date,
+  voidedBy: String,
+  revision: { type: Number, default: 0 },
+  createdAt: { type: Date, default: () => new Date(), index: true },
+}, { versionKey: false });
+const TransactionModel = model("Transaction", TransactionSchema);
+
+const CreditItemSchema = new Schema({
+  line: { type: Number, required: true },
+  productId: { type: String, required: true },
+  productName: { type: String, required: true },
+  quantity: { type: Number, required: true },
+  unitPrice: { type: Number, required: true },
+  lineTotal: { type: Number, required: true },
+  condition: { type: String, required: true },
+  restocked: { type: Boolean, default: false },
+}, { _id: false });
+
+const CreditNoteSchema = new Schema({
+  creditNumber: { type: String, required: true, unique: true },
+  sequence: { type: Number, required: true },
+  storeCode: { type: String, required: true },
+  kind: { type: String, required: true },
+  transactionId: { type: String, required: true, index: true },
+  receiptNumber: { type: String, required: true },
+  items: { type: [CreditItemSchema], default: [] },
+  total: { type: Number, required: true },
+  refunds: { type: [TenderSchema], default: undefined },
+  vatableSales: Number,
+  vatAmount: Number,
+  vatExemptSales: Number,
+  zeroRatedSales: Number,
+  reason: { type: String, required: true },
+  shiftId: String,
+  userId: String,
+  username: String,
+  createdAt: { type: Date, default: () => new Date(), index: true },
+}, { versionKey: false });
+const CreditNoteModel = model("CreditNote", CreditNoteSchema);
+
+const PromotionSchema = new Schema({
+  name: { type: String, required: true },
+  kind: { type: String, required: true },
+  productIds: { type: [String], default: [] },
+  category: String,
+  discountType: String,
+  discountValue: Number,
+  minQuantity: Number,
+  buyQuantity: Number,
+  freeQuantity: Number,
+  startsAt: { type: Date, required: true },
+  endsAt: { type: Date, required: true },
+  active: { type: Boolean, default: true },
+  createdBy: String,
+  createdAt: { type: Date, default: () => new Date() },
+}, { versionKey: false });
+PromotionSchema.index({ active: 1, startsAt: 1, endsAt: 1 });
+const PromotionModel = model("Promotion", PromotionSchema);
+
+const CashMovementSchema = new Schema({
+  type: { type: String, required: true },
+  amount: { type: Number, required: true },
+  reason: { type: String, required: true },
+  userId: String,
+  username: String,
+  createdAt: { type: Date, default: () => new Date() },
+}, { _id: false });
+
+// Every write to an open shift is conditional on status "open", so a closed shift stays as counted
+const ShiftSchema = new Schema({
+  shiftNumber: { type: Number, required: true },
+  storeCode: { type: String, required: true },
+  status: { type: String, default: "open" },
+  openedBy: String,
+  openedByUsername: String,
+  openedAt: { type: Date, default: () => new Date(), index: true },
+  openingFloat: { type: Number, required: true },
+  cashSales: { type: Number, default: 0 },
+  cashRefunds: { type: Number, default: 0 },
+  cashIn: { type: Number, default: 0 },
+  cashOut: { type: Number, default: 0 },
+  transactionCount: { type: Number, default: 0 },
+  cashMovements: { type: [CashMovementSchema], default: [] },
+  closedAt: Date,
+  closedBy: String,
+  closedByUsername: String,
+  denominations: { type: [{ denomination: Number, count: Number, _id: false }], default: undefined },
+  countedCash: Number,
+  expectedCash: Number,
+  overShort: Number,
+  closingNote: String,
+}, { versionKey: false });
+ShiftSchema.index({ storeCode: 1 }, { unique: true, partialFilterExpression: { status: "open" } });
+const ShiftModel = model("Shift", ShiftSchema);
+
+const ZReadingSchema = new Schema({
+  zNumber: { type: String, required: true, unique: true },
+  sequence: { type: Number, required: true },
+  storeCode: { type: String, required: true },
+  previousSequence: { type: Number, required: true },
+  periodStart: Date,
+  periodEnd: { type: Date, required: true },
+  beginningReceipt: String,
+  endingReceipt: String,
+  lastTransactionSequence: { type: Number, required: true },
+  lastCreditSequence: { type: Number, required: true },
+  transactionCount: { type: Number, required: true },
+  grossSales: { type: Number, required: true },
+  discountTotal: { type: Number, required: true },
+  discounts: { type: [{ source: String, total: Number, _id: false }], default: [] },
+  voidCount: { type: Number, required: true },
+  voidTotal: { type: Number, required: true },
+  returnCount: { type: Number, required: true },
+  returnTotal: { type: Number, required: true },
+  netSales: { type: Number, required: true },
+  vatableSales: { type: Number, required: true },
+  vatAmount: { type: Number, required: true },
+  vatExemptSales: { type: Number, required: true },
+  zeroRatedSales: { type: Number, required: true },
+  paymentMethods: { type: [{ method: String, total: Number, count: Number, _id: false }], default: [] },
+  refunds: { type: [{ method: String, total: Number, _id: false }], default: undefined },
+  previousGrandTotal: { type: Number, required: true },
+  grandTotal: { type: Number, required: true },
+  generatedBy: String,
+  generatedByUsername: String,
+  createdAt: { type: Date, default: () => new Date() },
+}, { versionKey: false });
+// Two readings can't both follow the same one
+ZReadingSchema.index({ storeCode: 1, previousSequence: 1 }, { unique: true });
+ZReadingSchema.index({ storeCode: 1, sequence: -1 });
+ZReadingSchema.pre(["updateOne", "updateMany", "findOneAndUpdate", "deleteOne", "deleteMany", "findOneAndDelete"], function () {
+  throw new Error("Z-readings are append-only");
+});
+const ZReadingModel = model("ZReading", ZReadingSchema);
+
+// Named sequences, e.g. receipt numbers per store
+const CounterSchema = new Schema({
+  _id: { type: String, required: true },
+  seq: { type: Number, default: 0 },
+}, { versionKey: false });
+const CounterModel = model("Counter", CounterSchema);
+
 const SessionSchema = new Schema({
   id: { type: String, unique: true, index: true },
-  userId: { type: String, required: true },
+  userId: { type: String, required: true, index: true },
+  userAgent: String,
+  ip: String,
+  rememberMe: { type: Boolean, default: false },
+  twoFactorPending: { type: Boolean, default: false },
+  impersonatorId: String,
+  impersonatorSessionId: String,
   expiresAt: { type: Date, required: true, index: true },
+  lastSeenAt: Date,
   createdAt: { type: Date, default: () => new Date() },
 }, { versionKey: false });
 SessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
 const SessionModel = model("Session", SessionSchema);
 
+const CustomRoleSchema = new Schema({
+  name: { type: String, required: true, unique: true },
+  label: { type: String, required: true },
+  permissions: { type: [String], default: [] },
+  createdAt: { type: Date, default: () => new Date() },
+  updatedAt: { type: Date, default: () => new Date() },
+}, { versionKey: false });
+const CustomRoleModel = model("CustomRole", CustomRoleSchema);
+
+const ApiTokenSchema = new Schema({
+  userId: { type: String, required: true, index: true },
+  name: { type: String, required: true },
+  tokenHash: { type: String, required: true, unique: true },
+  prefix: { type: String, required: true },
+  scopes: { type: [String], default: [] },
+  expiresAt: Date,
+  lastUsedAt: Date,
+  lastUsedIp: String,
+  createdAt: { type: Date, default: () => new Date() },
+}, { versionKey: false });
+const ApiTokenModel = model("ApiToken", ApiTokenSchema);
+
+const InvitationSchema = new Schema({
+  role: { type: String, required: true },
+  email: String,
+  nonce: { type: String, required: true },
+  createdBy: { type: String, required: true },
+  createdByUsername: { type: String, required: true },
+  expiresAt: { type: Date, required: true },
+  sendCount: { type: Number, default: 0 },
+  lastSentAt: Date,
+  usedAt: Date,
+  usedBy: String,
+  revokedAt: Date,
+  createdAt: { type: Date, default: () => new Date(), index: true },
+}, { versionKey: false });
+const InvitationModel = model("Invitation", InvitationSchema);
+
+const SecurityEventSchema = new Schema({
+  type: { type: String, required: true, index: true },
+  userId: String,
+  username: { type: String, index: true },
+  actorId: String,
+  actorUsername: String,
+  ip: String,
+  userAgent: String,
+  details: String,
+  createdAt: { type: Date, default: () => new Date(), index: true },
+}, { versionKey: false });
+SecurityEventSchema.pre(["updateOne", "updateMany", "findOneAndUpdate", "deleteOne", "deleteMany", "findOneAndDelete"], function () {
+  throw new Error("Security events are append-only");
+});
+const SecurityEventModel = model("SecurityEvent", SecurityEventSchema);
+
+const RateLimitHitSchema = new Schema({
+  key: { type: String, required: true },
+  at: { type: Date, required: true },
+  expiresAt: { type: Date, required: true },
+}, { versionKey: false });
+RateLimitHitSchema.index({ key: 1, at: 1 });
+RateLimitHitSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+const RateLimitHitModel = model("RateLimitHit", RateLimitHitSchema);
+
+const VerificationCodeSchema = new Schema({
+  purpose: { type: String, required: true },
+  userId: { type: String, required: true },
+  email: { type: String, required: true },
+  codeHash: { type: String, required: true },
+  attempts: { type: Number, default: 0 },
+  sendCount: { type: Number, default: 1 },
+  lastSentAt: { type: Date, required: true },
+  expiresAt: { type: Date, required: true },
+  consumedAt: { type: Date, default: null },
+  createdAt: { type: Date, default: () => new Date() },
+}, { versionKey: false });
+VerificationCodeSchema.index({ purpose: 1, userId: 1 }, { unique: true });
+VerificationCodeSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+const VerificationCodeModel = model("VerificationCode", VerificationCodeSchema);
+
 /* -------------------- MAPPERS -------------------- */
 function mapUser(doc: any): User {
   if (!doc) return undefined as any;
@@ -83,16 +437,34 @@ function mapUser(doc: any): User {
     id: doc._id.toString(),
     username: doc.username,
     password: doc.password,
+    passwordHistory: doc.passwordHistory ?? [],
+    passwordChangedAt: doc.passwordChangedAt ?? null,
+    mustChangePassword: doc.mustChangePassword ?? false,
     firstName: doc.firstName,
     lastName: doc.lastName,
     email: doc.email,
+    emailVerified: doc.emailVerified ?? true,
+    pendingEmail: doc.pendingEmail ?? null,
     phone: doc.phone,
-    role: doc.role,
+    // Older documents used "Admin"; every check compares lowercase role names
+    role: String(doc.role ?? "user").trim().toLowerCase(),
     supply: doc.supply,
     supplyQuantity: doc.supplyQuantity,
     loginAttempts: doc.loginAttempts ?? 0,
+    lockoutCount: doc.lockoutCount ?? 0,
     lastFailedLogin: doc.lastFailedLogin ?? null,
     cooldownUntil: doc.cooldownUntil ?? null,
+    isActive: doc.isActive ?? true,
+    approvalStatus: doc.approvalStatus ?? "approved",
+    rejectionReason: doc.rejectionReason ?? null,
+    reviewedBy: doc.reviewedBy ?? null,
+    reviewedAt: doc.reviewedAt ?? null,
+    twoFactorEnabled: doc.twoFactorEnabled ?? false,
+    twoFactorSecret: doc.twoFactorSecret ?? null,
+    twoFactorPendingSecret: doc.twoFactorPendingSecret ?? null,
+    twoFactorRecoveryCodes: doc.twoFactorRecoveryCodes ?? [],
+    twoFactorLastStep: doc.twoFactorLastStep ?? null,
+    twoFactorEnabledAt: doc.twoFactorEnabledAt ?? null,
     createdAt: doc.createdAt ?? new Date(),
   };
 }
@@ -107,56 +479,712 @@ function mapProduct(doc: any): Product {
     quantity: doc.quantity || 0,
     weighted: doc.weighted || false,
     category: doc.category || "Uncategorized",
+    vatClass: doc.vatClass || "vatable",
     createdAt: doc.createdAt || new Date(),
     updatedAt: doc.updatedAt || new Date(),
   };
 }
 
+function mapStockMovement(doc: any): StockMovement {
+  return {
+    id: doc._id.toString(),
+    productId: doc.productId,
+    productName: doc.productName,
+    delta: doc.delta,
+    balance: doc.balance,
+    type: doc.type,
+    reference: doc.reference ?? null,
+    note: doc.note ?? null,
+    userId: doc.userId ?? null,
+    username: doc.username ?? null,
+    createdAt: doc.createdAt,
+  };
+}
+
+function mapVat(doc: any, fallback: () => VatBreakdown): VatBreakdown {
+  if (doc.vatableSales === undefined || doc.vatableSales === null) return fallback();
+  return { vatableSales: doc.vatableSales, vatAmount: doc.vatAmount ?? 0, vatExemptSales: doc.vatExemptSales ?? 0, zeroRatedSales: doc.zeroRatedSales ?? 0 };
+}
+
+function mapTransaction(doc: any): Transaction {
+  return {
+    id: doc._id.toString(),
+    receiptNumber: doc.receiptNumber,
+    sequence: doc.sequence,
+    storeCode: doc.storeCode,
+    cashierId: doc.cashierId ?? null,
+    cashierUsername: doc.cashierUsername ?? null,
+    shiftId: doc.shiftId ?? null,
+    items: (doc.items ?? []).map((item: any) => ({
+      productId: item.productId,
+      productName: item.productName,
+      quantity: item.quantity,
+      unitPrice: item.unitPrice,
+      lineTotal: item.lineTotal,
+      discount: item.discount ?? 0,
+      discounts: (item.discounts ?? []).map((d: any) => ({ source: d.source, label: d.label, amount: d.amount })),
+      vatClass: item.vatClass ?? "vatable",
+      returnedQuantity: item.returnedQuantity ?? 0,
+    })),
+    subtotal: doc.subtotal,
+    discountTotal: doc.discountTotal ?? 0,
+    saleDiscount: doc.saleDiscount?.type ? { type: doc.saleDiscount.type, value: doc.saleDiscount.value, reason: doc.saleDiscount.reason ?? undefined } : null,
+    seniorPwd: doc.seniorPwd?.kind ? { kind: doc.seniorPwd.kind, idNumber: doc.seniorPwd.idNumber, name: doc.seniorPwd.name } : null,
+    vatExemption: doc.vatExemption ?? 0,
+    total: doc.total,
+    // Sales from before VAT classes were all VATable
+    ...mapVat(doc, () => vatBreakdown([{ vatClass: "vatable", amount: doc.total }])),
+    // Sales from before split tender were all cash
+    tenders: doc.tenders?.length
+      ? doc.tenders.map((tender: any) => ({ method: tender.method, amount: tender.amount, reference: tender.reference ?? null }))
+      : [{ method: "cash", amount: doc.total, reference: null }],
+    cashTendered: doc.cashTendered,
+    change: doc.change,
+    reprintCount: doc.reprintCount ?? 0,
+    lastReprintedAt: doc.lastReprintedAt ?? null,
+    voidedAt: doc.voidedAt ?? null,
+    voidedBy: doc.voidedBy ?? null,
+    revision: doc.revision ?? 0,
+    createdAt: doc.createdAt,
+  };
+}
+
+function mapCreditNote(doc: any): CreditNote {
+  return {
+    id: doc._id.toString(),
+    creditNumber: doc.creditNumber,
+    sequence: doc.sequence,
+    storeCode: doc.storeCode,
+    kind: doc.kind,
+    transactionId: doc.transactionId,
+    receiptNumber: doc.receiptNumber,
+    items: (doc.items ?? []).map((item: any) => ({
+      line: item.line,
+      productId: item.productId,
+      productName: item.productName,
+      quantity: item.quantity,
+      unitPrice: item.unitPrice,
+      lineTotal: item.lineTotal,
+      condition: item.condition,
+      restocked: item.restocked ?? false,
+    })),
+    total: doc.total,
+    // Credit notes from before refunds were split by tender were paid in cash
+    refunds: doc.refunds?.length
+      ? doc.refunds.map((tender: any) => ({ method: tender.method, amount: tender.amount, reference: tender.reference ?? null }))
+      : [{ method: "cash", amount: doc.total, reference: null }],
+    ...mapVat(doc, () => vatBreakdown([{ vatClass: "vatable", amount: doc.total }])),
+    reason: doc.reason,
+    shiftId: doc.shiftId ?? null,
+    userId: doc.userId ?? null,
+    username: doc.username ?? null,
+    createdAt: doc.createdAt,
+  };
+}
+
+function mapPromotion(doc: any): Promotion {
+  return {
+    id: doc._id.toString(),
+    name: doc.name,
+    kind: doc.kind,
+    productIds: doc.productIds ?? [],
+    category: doc.category ?? null,
+    discountType: doc.discountType ?? null,
+    discountValue: doc.discountValue ?? null,
+    minQuantity: doc.minQuantity ?? null,
+    buyQuantity: doc.buyQuantity ?? null,
+    freeQuantity: doc.freeQuantity ?? null,
+    startsAt: doc.startsAt,
+    endsAt: doc.endsAt,
+    active: doc.active ?? true,
+    createdBy: doc.createdBy ?? null,
+    createdAt: doc.createdAt,
+  };
+}
+
+function mapZReading(doc: any): ZReading {
+  return {
+    id: doc._id.toString(),
+    zNumber: doc.zNumber,
+    sequence: doc.sequence,
+    storeCode: doc.storeCode,
+    previousSequence: doc.previousSequence,
+    periodStart: doc.periodStart ?? null,
+    periodEnd: doc.periodEnd,
+    beginningReceipt: doc.beginningReceipt ?? null,
+    endingReceipt: doc.endingReceipt ?? null,
+    lastTransactionSequence: doc.lastTransactionSequence,
+    lastCreditSequence: doc.lastCreditSequence,
+    transactionCount: doc.transactionCount,
+    grossSales: doc.grossSales,
+    discountTotal: doc.discountTotal,
+    discounts: (doc.discounts ?? []).map((d: any) => ({ source: d.source, total: d.total })),
+    voidCount: doc.voidCount,
+    voidTotal: doc.voidTotal,
+    returnCount: doc.returnCount,
+    returnTotal: doc.returnTotal,
+    netSales: doc.netSales,
+    vatableSales: doc.vatableSales,
+    vatAmount: doc.vatAmount,
+    vatExemptSales: doc.vatExemptSales,
+    zeroRatedSales: doc.zeroRatedSales,
+    paymentMethods: (doc.paymentMethods ?? []).map((p: any) => ({ method: p.method, total: p.total, count: p.count })),
+    // Readings from before refunds were split by tender counted them all as cash
+    refunds: doc.refunds
+      ? doc.refunds.map((r: any) => ({ method: r.method, total: r.total }))
+      : paymentMethods.map((method) => ({ method, total: method === "cash" ? Math.round((doc.voidTotal + doc.returnTotal) * 100) / 100 : 0 })),
+    previousGrandTotal: doc.previousGrandTotal,
+    grandTotal: doc.grandTotal,
+    generatedBy: doc.generatedBy ?? null,
+    generatedByUsername: doc.generatedByUsername ?? null,
+    createdAt: doc.createdAt,
+  };
+}
+
+function mapShift(doc: any): Shift {
+  return {
+    id: doc._id.toString(),
+    shiftNumber: doc.shiftNumber,
+    storeCode: doc.storeCode,
+    status: doc.status,
+    openedBy: doc.openedBy ?? null,
+    openedByUsername: doc.openedByUsername ?? null,
+    openedAt: doc.openedAt,
+    openingFloat: doc.openingFloat,
+    cashSales: doc.cashSales ?? 0,
+    cashRefunds: doc.cashRefunds ?? 0,
+    cashIn: doc.cashIn ?? 0,
+    cashOut: doc.cashOut ?? 0,
+    transactionCount: doc.transactionCount ?? 0,
+    cashMovements: (doc.cashMovements ?? []).map((movement: any) => ({
+      type: movement.type,
+      amount: movement.amount,
+      reason: movement.reason,
+      userId: movement.userId ?? null,
+      username: movement.username ?? null,
+      createdAt: movement.createdAt,
+    })),
+    closedAt: doc.closedAt ?? null,
+    closedBy: doc.closedBy ?? null,
+    closedByUsername: doc.closedByUsername ?? null,
+    denominations: doc.denominations?.map((d: any) => ({ denomination: d.denomination, count: d.count })) ?? null,
+    countedCash: doc.countedCash ?? null,
+    expectedCash: doc.expectedCash ?? null,
+    overShort: doc.overShort ?? null,
+    closingNote: doc.closingNote ?? null,
+  };
+}
+
+function mapVerificationCode(doc: any): VerificationCode {
+  return {
+    id: doc._id.toString(),
+    purpose: doc.purpose,
+    userId: doc.userId,
+    email: doc.email,
+    codeHash: doc.codeHash,
+    attempts: doc.attempts ?? 0,
+    sendCount: doc.sendCount ?? 1,
+    lastSentAt: doc.lastSentAt,
+    expiresAt: doc.expiresAt,
+    consumedAt: doc.consumedAt ?? null,
+    createdAt: doc.createdAt,
+  };
+}
+
+function mapSecurityEvent(doc: any): SecurityEvent {
+  return {
+    id: doc._id.toString(),
+    type: doc.type,
+    userId: doc.userId ?? null,
+    username: doc.username ?? null,
+    actorId: doc.actorId ?? null,
+    actorUsername: doc.actorUsername ?? null,
+    ip: doc.ip ?? null,
+    userAgent: doc.userAgent ?? null,
+    details: doc.details ?? null,
+    createdAt: doc.createdAt,
+  };
+}
+
 function mapSession(doc: any): Session {
   return {
     id: doc.id,
+    // The cookie token (id) never leaves the server; clients refer to sessions by publicId
+    publicId: doc._id.toString(),
     userId: doc.userId,
+    userAgent: doc.userAgent ?? null,
+    ip: doc.ip ?? null,
+    rememberMe: doc.rememberMe ?? false,
+    twoFactorPending: doc.twoFactorPending ?? false,
+    impersonatorId: doc.impersonatorId ?? null,
+    impersonatorSessionId: doc.impersonatorSessionId ?? null,
     expiresAt: doc.expiresAt,
+    lastSeenAt: doc.lastSeenAt ?? doc.createdAt ?? null,
+    createdAt: doc.createdAt,
+  };
+}
+
+function mapCustomRole(doc: any): CustomRole {
+  return {
+    id: doc._id.toString(),
+    name: doc.name,
+    label: doc.label,
+    permissions: doc.permissions ?? [],
     createdAt: doc.createdAt,
+    updatedAt: doc.updatedAt,
+  };
+}
+
+function mapApiToken(doc: any): ApiToken {
+  return {
+    id: doc._id.toString(),
+    userId: doc.userId,
+    name: doc.name,
+    tokenHash: doc.tokenHash,
+    prefix: doc.prefix,
+    scopes: doc.scopes ?? [],
+    expiresAt: doc.expiresAt ?? null,
+    lastUsedAt: doc.lastUsedAt ?? null,
+    lastUsedIp: doc.lastUsedIp ?? null,
+    createdAt: doc.createdAt,
+  };
+}
+
+function mapInvitation(doc: any): Invitation {
+  return {
+    id: doc._id.toString(),
+    role: doc.role,
+    email: doc.email ?? null,
+    nonce: doc.nonce,
+    createdBy: doc.createdBy,
+    createdByUsername: doc.createdByUsername,
+    expiresAt: doc.expiresAt,
+    sendCount: doc.sendCount ?? 0,
+    lastSentAt: doc.lastSentAt ?? null,
+    usedAt: doc.usedAt ?? null,
+    usedBy: doc.usedBy ?? null,
+    revokedAt: doc.revokedAt ?? null,
+    createdAt: doc.createdAt,
+  };
+}
+
+/* -------------------- SESSION LIFETIMES -------------------- */
+export const SESSION_IDLE_TTL_MS = 24 * 60 * 60 * 1000; // sliding: 24h after last activity
+export const REMEMBER_ME_TTL_MS = 30 * 24 * 60 * 60 * 1000; // sliding: 30 days after last activity
+
+export const TWO_FACTOR_CHALLENGE_TTL_MS = 5 * 60 * 1000; // fixed: time to enter the second factor
+export const IMPERSONATION_TTL_MS = 30 * 60 * 1000; // fixed: how long an admin can "view as" before signing back in
+
+export function sessionLifetime(rememberMe: boolean | null | undefined) {
+  return rememberMe ? REMEMBER_ME_TTL_MS : SESSION_IDLE_TTL_MS;
+}
+
+function escapeRegex(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/* -------------------- STOCK LEDGER -------------------- */
+// Why a product's quantity changed and who changed it
+export type StockMovementSource = {
+  type: StockMovementType;
+  reference?: string | null;
+  note?: string | null;
+  userId?: string | null;
+  username?: string | null;
+};
+
+// Everything on a receipt except what storage assigns: number, id and time
+export type NewTransaction = Omit<Transaction, "id" | "receiptNumber" | "sequence" | "reprintCount" | "lastReprintedAt" | "voidedAt" | "voidedBy" | "revision" | "createdAt">;
+export type NewCreditNote = Omit<CreditNote, "id" | "creditNumber" | "sequence" | "createdAt">;
+export type NewShift = Pick<Shift, "storeCode" | "openedBy" | "openedByUsername" | "openingFloat">;
+export type ShiftClosing = Pick<Shift, "closedBy" | "closedByUsername" | "closingNote"> & { denominations: DenominationCount[] };
+
+export class InsufficientStockError extends HttpError {
+  constructor(public productId: string, public productName: string, public requested: number, public available: number) {
+    super(`Insufficient stock for ${productName}`, 409, { productId, available });
+  }
+}
+
+export class TransactionChangedError extends HttpError {
+  constructor() {
+    super("The transaction was changed by someone else; reload it and try again", 409);
+  }
+}
+
+export class ShiftClosedError extends HttpError {
+  constructor() {
+    super("The shift has been closed; open a new shift to continue", 409);
+  }
+}
+
+async function recordStockMovement(product: any, delta: number, balance: number, source: StockMovementSource, session?: ClientSession) {
+  if (delta === 0) return;
+  await StockMovementModel.create([{ ...source, productId: product.id, productName: product.name, delta, balance }], { session });
+}
+
+// A decrement only matches while enough stock is left, so two cashiers can't both sell the last unit
+async function moveStock(id: string, delta: number, source: StockMovementSource, session?: ClientSession) {
+  const filter = delta < 0 ? { id, quantity: { $gte: -delta } } : { id };
+  const doc = await ProductModel.findOneAndUpdate(filter, { $inc: { quantity: delta }, $set: { updatedAt: new Date() } }, { new: true, session }).lean();
+  if (!doc) {
+    const product = await ProductModel.findOne({ id }).session(session ?? null).lean();
+    if (!product) return undefined;
+    throw new InsufficientStockError(product.id, product.name, -delta, product.quantity ?? 0);
+  }
+  await recordStockMovement(doc, delta, doc.quantity, source, session);
+  return mapProduct(doc);
+}
+
+// Transactions need a replica set or mongos; a standalone server gets the compensation path
+let transactionsSupported: Promise<boolean> | undefined;
+function supportsTransactions() {
+  transactionsSupported ??= mongoose.connection.db!.admin().command({ hello: 1 })
+    .then((hello) => Boolean(hello.setName) || hello.msg === "isdbgrid")
+    .catch(() => false);
+  return transactionsSupported;
+}
+
+type Undo = (() => Promise<unknown>)[];
+
+/**
+ * Runs `work` in a Mongo transaction when the deployment has them, so a
+ * failure discards everything. Otherwise `work` pushes a step onto `undo`
+ * after each write, and those run newest first on failure.
+ */
+async function runAtomically<T>(label: string, work: (session?: ClientSession, undo?: Undo) => Promise<T>) {
+  if (await supportsTransactions()) {
+    const session = await mongoose.startSession();
+    try {
+      return await session.withTransaction(() => work(session));
+    } finally {
+      await session.endSession();
+    }
+  }
+  const undo: Undo = [];
+  try {
+    return await work(undefined, undo);
+  } catch (err) {
+    for (const step of undo.reverse()) await step().catch((undoErr) => console.error(`${label} compensation failed:`, undoErr));
+    throw err;
+  }
+}
+
+/** A store's receipt number, e.g. MAIN-00000042 */
+export function formatReceiptNumber(storeCode: string, sequence: number) {
+  return `${storeCode}-${String(sequence).padStart(8, "0")}`;
+}
+
+/** A store's credit note number, e.g. MAIN-CN-00000007 */
+export function formatCreditNumber(storeCode: string, sequence: number) {
+  return `${storeCode}-CN-${String(sequence).padStart(8, "0")}`;
+}
+
+async function nextSequence(key: string, session?: ClientSession) {
+  const doc = await CounterModel.findOneAndUpdate({ _id: key }, { $inc: { seq: 1 } }, { new: true, upsert: true, session }).lean();
+  return doc!.seq;
+}
+
+// The last write of a checkout or credit that can be refused: a shift closed meanwhile fails it
+async function addToShift(shiftId: string | null, totals: Partial<Record<"cashSales" | "cashRefunds" | "transactionCount", number>>, session?: ClientSession, undo?: Undo) {
+  if (!shiftId) return;
+  const res = await ShiftModel.updateOne({ _id: shiftId, status: "open" }, { $inc: totals }, { session });
+  if (res.matchedCount !== 1) throw new ShiftClosedError();
+  const reverse = Object.fromEntries(Object.entries(totals).map(([field, amount]) => [field, -amount]));
+  undo?.push(() => ShiftModel.updateOne({ _id: shiftId }, { $inc: reverse }));
+}
+
+/**
+ * Deducts each line, writes the sales rows and the shift totals, then
+ * numbers and stores the receipt. The number is taken last, after every
+ * write that can be refused, so a rejected checkout never burns one.
+ */
+async function applyCheckout(receipt: NewTransaction, session?: ClientSession, undo?: Undo) {
+  const transactionId = new mongoose.Types.ObjectId();
+  const reference = transactionId.toString();
+  const actor = { userId: receipt.cashierId, username: receipt.cashierUsername };
+
+  for (const item of receipt.items) {
+    const product = await moveStock(item.productId, -item.quantity, { ...actor, type: "sale", reference }, session);
+    if (!product) throw new Error("Product not found");
+    undo?.push(() => moveStock(item.productId, item.quantity, { ...actor, type: "adjustment", reference, note: "Checkout rolled back" }));
+  }
+
+  const createdAt = new Date();
+  undo?.push(() => SaleModel.deleteMany({ transactionId: reference }));
+  await SaleModel.create(
+    receipt.items.map((item) => ({ productId: item.productId, productName: item.productName, quantitySold: item.quantity, totalPrice: item.lineTotal, transactionId: reference, createdAt })),
+    { session },
+  );
+  const cashSales = receipt.tenders.filter((tender) => tender.method === "cash").reduce((sum, tender) => sum + tender.amount, 0);
+  await addToShift(receipt.shiftId, { cashSales, transactionCount: 1 }, session, undo);
+
+  // Only the insert follows, so a number is lost only if the database fails right then
+  const counter = `receipt:${receipt.storeCode}`;
+  const sequence = await nextSequence(counter, session);
+  undo?.push(() => CounterModel.updateOne({ _id: counter, seq: sequence }, { $inc: { seq: -1 } }));
+  const receiptNumber = formatReceiptNumber(receipt.storeCode, sequence);
+  const [doc] = await TransactionModel.create([{ ...receipt, _id: transactionId, receiptNumber, sequence, createdAt }], { session });
+  return mapTransaction(doc);
+}
+
+/**
+ * Records what was given back on the transaction (only if it is still at the
+ * revision the caller checked), restocks resellable lines and nets them out
+ * of the sales rows, then numbers and stores the credit note last.
+ */
+async function applyCredit(transaction: Transaction, credit: NewCreditNote, session?: ClientSession, undo?: Undo) {
+  const creditId = new mongoose.Types.ObjectId();
+  const reference = creditId.toString();
+  const actor = { userId: credit.userId, username: credit.username };
+
+  const items = transaction.items.map((item, line) => ({
+    ...item,
+    returnedQuantity: item.returnedQuantity + credit.items.filter((c) => c.line === line).reduce((sum, c) => sum + c.quantity, 0),
+  }));
+  const update: Record<string, any> = { items };
+  if (credit.kind === "void") Object.assign(update, { voidedAt: new Date(), voidedBy: credit.username });
+  const res = await TransactionModel.updateOne({ _id: transaction.id, revision: transaction.revision, voidedAt: null }, { $set: update, $inc: { revision: 1 } }, { session });
+  if (res.modifiedCount !== 1) throw new TransactionChangedError();
+  undo?.push(() => TransactionModel.updateOne({ _id: transaction.id }, { $set: { items: transaction.items, voidedAt: transaction.voidedAt, voidedBy: transaction.voidedBy }, $inc: { revision: 1 } }));
+
+  const creditItems: CreditItem[] = [];
+  for (const item of credit.items) {
+    // A product deleted since the sale has no stock to go back to
+    const product = item.restocked ? await moveStock(item.productId, item.quantity, { ...actor, type: "return", reference }, session) : undefined;
+    if (product) undo?.push(() => moveStock(item.productId, -item.quantity, { ...actor, type: "adjustment", reference, note: "Return rolled back" }));
+    creditItems.push({ ...item, restocked: !!product });
+  }
+
+  const createdAt = new Date();
+  undo?.push(() => SaleModel.deleteMany({ creditId: reference }));
+  await SaleModel.create(
+    creditItems.map((item) => ({ productId: item.productId, productName: item.productName, quantitySold: -item.quantity, totalPrice: -item.lineTotal, transactionId: transaction.id, creditId: reference, createdAt })),
+    { session },
+  );
+  const cashRefunds = credit.refunds.filter((tender) => tender.method === "cash").reduce((sum, tender) => sum + tender.amount, 0);
+  await addToShift(credit.shiftId, { cashRefunds }, session, undo);
+
+  const counter = `credit:${credit.storeCode}`;
+  const sequence = await nextSequence(counter, session);
+  undo?.push(() => CounterModel.updateOne({ _id: counter, seq: sequence }, { $inc: { seq: -1 } }));
+  const creditNumber = formatCreditNumber(credit.storeCode, sequence);
+  const [doc] = await CreditNoteModel.create([{ ...credit, items: creditItems, _id: creditId, creditNumber, sequence, createdAt }], { session });
+  return mapCreditNote(doc);
+}
+
+// Longer than a checkout can hold a number before storing it (Mongo aborts transactions after 60s)
+const IN_FLIGHT_MS = 2 * 60 * 1000;
+
+/**
+ * The documents numbered without a gap after `after`. A missing number
+ * may belong to a sale still being stored, so everything from it on waits
+ * for the next reading; once the document after it is older than
+ * IN_FLIGHT_MS the number was lost to a failed write and is skipped.
+ */
+export function unbroken<T extends { sequence: number; createdAt: Date }>(rows: T[], after: number) {
+  const settled = Date.now() - IN_FLIGHT_MS;
+  let next = after + 1;
+  const result: T[] = [];
+  for (const row of rows) {
+    if (row.sequence !== next && row.createdAt.getTime() > settled) break;
+    result.push(row);
+    next = row.sequence + 1;
+  }
+  return result;
+}
+
+/**
+ * The figures for every receipt and credit note numbered since the last
+ * Z-reading. Ranges go by number rather than time, so a sale is in exactly
+ * one Z-reading however the clock moves.
+ */
+async function readingSinceLastZ(storeCode: string, session?: ClientSession): Promise<SalesReading> {
+  const previous = await ZReadingModel.findOne({ storeCode }, null, { session }).sort({ sequence: -1 }).lean();
+  const afterTransaction = previous?.lastTransactionSequence ?? 0;
+  const afterCredit = previous?.lastCreditSequence ?? 0;
+  const transactions = unbroken((await TransactionModel.find({ storeCode, sequence: { $gt: afterTransaction } }, null, { session }).sort({ sequence: 1 }).lean()).map(mapTransaction), afterTransaction);
+  const credits = unbroken((await CreditNoteModel.find({ storeCode, sequence: { $gt: afterCredit } }, null, { session }).sort({ sequence: 1 }).lean()).map(mapCreditNote), afterCredit);
+
+  const round = (amount: number) => Math.round(amount * 100) / 100;
+  const sum = <T>(rows: T[], value: (row: T) => number) => round(rows.reduce((total, row) => total + value(row), 0));
+  const voids = credits.filter((credit) => credit.kind === "void");
+  const returns = credits.filter((credit) => credit.kind === "return");
+  const discounts = transactions.flatMap((t) => t.items.flatMap((item) => item.discounts));
+  const tenders = transactions.flatMap((t) => t.tenders);
+  const refunds = credits.flatMap((c) => c.refunds);
+  const vat = (field: keyof VatBreakdown) => round(sum(transactions, (t) => t[field]) - sum(credits, (c) => c[field]));
+  const netSales = round(sum(transactions, (t) => t.total) - sum(credits, (c) => c.total));
+  const previousGrandTotal = previous?.grandTotal ?? 0;
+  const first = transactions[0];
+  const last = transactions[transactions.length - 1];
+
+  return {
+    storeCode,
+    previousSequence: previous?.sequence ?? 0,
+    periodStart: previous?.periodEnd ?? first?.createdAt ?? null,
+    periodEnd: new Date(),
+    beginningReceipt: first?.receiptNumber ?? null,
+    endingReceipt: last?.receiptNumber ?? null,
+    lastTransactionSequence: last?.sequence ?? afterTransaction,
+    lastCreditSequence: credits[credits.length - 1]?.sequence ?? afterCredit,
+    transactionCount: transactions.length,
+    grossSales: sum(transactions, (t) => t.subtotal),
+    discountTotal: sum(transactions, (t) => t.discountTotal),
+    discounts: discountSources.map((source) => ({ source, total: sum(discounts.filter((d) => d.source === source), (d) => d.amount) })),
+    voidCount: voids.length,
+    voidTotal: sum(voids, (c) => c.total),
+    returnCount: returns.length,
+    returnTotal: sum(returns, (c) => c.total),
+    netSales,
+    vatableSales: vat("vatableSales"),
+    vatAmount: vat("vatAmount"),
+    vatExemptSales: vat("vatExemptSales"),
+    zeroRatedSales: vat("zeroRatedSales"),
+    paymentMethods: paymentMethods.map((method) => {
+      const rows = tenders.filter((tender) => tender.method === method);
+      return { method, total: sum(rows, (tender) => tender.amount), count: rows.length };
+    }),
+    refunds: paymentMethods.map((method) => ({ method, total: sum(refunds.filter((tender) => tender.method === method), (tender) => tender.amount) })),
+    previousGrandTotal,
+    grandTotal: round(previousGrandTotal + netSales),
   };
 }
 
 /* -------------------- STORAGE CLASS -------------------- */
 class MongoStorage {
   /* USERS */
-  async getUser(id: string) { const doc = await UserModel.findById(id).lean(); return doc ? mapUser(doc) : undefined; }
+  async getUser(id: string) { if (!/^[0-9a-fA-F]{24}$/.test(id)) return undefined; const doc = await UserModel.findById(id).lean(); return doc ? mapUser(doc) : undefined; }
   async getUserByUsername(username: string) { const doc = await UserModel.findOne({ username }).lean(); return doc ? mapUser(doc) : undefined; }
-  async createUser(user: InsertUser) { const hashed = await bcrypt.hash(user.password, 10); const doc = await UserModel.create({ ...user, password: hashed }); return mapUser(doc); }
-  async registerUser(userData: Omit<RegisterRequest, "confirmPassword">) { if (await UserModel.exists({ username: userData.username })) throw new Error("Username already exists"); const hashed = await bcrypt.hash(userData.password, 10); const doc = await UserModel.create({ ...userData, password: hashed }); return mapUser(doc); }
+  async createUser(user: InsertUser, options: { mustChangePassword?: boolean } = {}) { if (await UserModel.exists({ username: user.username })) throw new HttpError("Username already exists", 409); const hashed = await bcrypt.hash(user.password, 10); const doc = await UserModel.create({ ...user, password: hashed, passwordChangedAt: new Date(), mustChangePassword: options.mustChangePassword ?? false }); return mapUser(doc); }
+  async registerUser(userData: Omit<RegisterRequest, "confirmPassword" | "invitationToken">, approvalStatus: ApprovalStatus = "approved", emailVerified = false) { if (await UserModel.exists({ username: userData.username })) throw new HttpError("Username already exists", 409); const hashed = await bcrypt.hash(userData.password, 10); const doc = await UserModel.create({ ...userData, password: hashed, approvalStatus, emailVerified }); return mapUser(doc); }
+  async getUnverifiedUserByEmail(email: string) { const doc = await UserModel.findOne({ email, emailVerified: false }).sort({ createdAt: -1 }).lean(); return doc ? mapUser(doc) : undefined; }
+  async markEmailVerified(id: string, email: string) { if (!/^[0-9a-fA-F]{24}$/.test(id)) return; await UserModel.updateOne({ _id: id, email, emailVerified: false }, { emailVerified: true }); }
+  async setPendingEmail(id: string, pendingEmail: string | null) { const doc = await UserModel.findByIdAndUpdate(id, { pendingEmail }, { new: true }).lean(); return doc ? mapUser(doc) : undefined; }
+  // Only swaps in the address that was actually confirmed, in case it changed meanwhile
+  async applyPendingEmail(id: string, email: string) { const doc = await UserModel.findOneAndUpdate({ _id: id, pendingEmail: email }, { email, emailVerified: true, pendingEmail: null }, { new: true }).lean(); return doc ? mapUser(doc) : undefined; }
   async updateUser(id: string, updates: Partial<User>) { const doc = await UserModel.findByIdAndUpdate(id, updates, { new: true }).lean(); return doc ? mapUser(doc) : undefined; }
-  async getAllUsers() { const docs = await UserModel.find({ role: { $in: ["staff", "supplier"] } }).lean(); return docs.map(mapUser); }
-  async updateUserPassword(username: string, hashed: string) { await UserModel.updateOne({ username }, { password: hashed }); }
-  async unlockUserAccount(username: string) { await UserModel.updateOne({ username }, { loginAttempts: 0, cooldownUntil: null }); }
-  async incrementLoginAttempts(username: string) { await UserModel.updateOne({ username }, { $inc: { loginAttempts: 1 }, $set: { lastFailedLogin: new Date() } }); }
-  async resetLoginAttempts(username: string) { await UserModel.updateOne({ username }, { loginAttempts: 0, cooldownUntil: null, lastFailedLogin: null }); }
+  async getAllUsers(excludeRoles: string[] = ["admin"]) { const docs = await UserModel.find({ role: { $not: new RegExp(`^(${excludeRoles.join("|")})$`, "i") }, approvalStatus: { $nin: ["pending", "rejected"] } }).sort({ createdAt: -1 }).lean(); return docs.map(mapUser); }
+  async countUsersWithRole(role: string) { return UserModel.countDocuments({ role: new RegExp(`^${role}$`, "i") }); }
+  async getUsersByApprovalStatus(status: ApprovalStatus) { const docs = await UserModel.find({ approvalStatus: status }).sort({ createdAt: 1 }).lean(); return docs.map(mapUser); }
+  async setApprovalStatus(id: string, approvalStatus: ApprovalStatus, reviewedBy: string, rejectionReason?: string) { const doc = await UserModel.findByIdAndUpdate(id, { approvalStatus, reviewedBy, reviewedAt: new Date(), rejectionReason: rejectionReason ?? null }, { new: true }).lean(); return doc ? mapUser(doc) : undefined; }
+  async setUserActive(id: string, isActive: boolean) { const doc = await UserModel.findByIdAndUpdate(id, { isActive }, { new: true }).lean(); return doc ? mapUser(doc) : undefined; }
+  // The replaced hash joins the history, trimmed to `historySize` entries
+  async updateUserPassword(username: string, hashed: string, options: { previousHash?: string; historySize?: number; mustChangePassword?: boolean } = {}) { const update: Record<string, any> = { $set: { password: hashed, passwordChangedAt: new Date(), mustChangePassword: options.mustChangePassword ?? false } }; if (options.previousHash && options.historySize) update.$push = { passwordHistory: { $each: [options.previousHash], $position: 0, $slice: options.historySize } }; await UserModel.updateOne({ username }, update); }
+  async unlockUserAccount(username: string) { await UserModel.updateOne({ username }, { loginAttempts: 0, lockoutCount: 0, cooldownUntil: null }); }
+  async incrementLoginAttempts(username: string) { const doc = await UserModel.findOneAndUpdate({ username }, { $inc: { loginAttempts: 1 }, $set: { lastFailedLogin: new Date() } }, { new: true }).lean(); return doc?.loginAttempts ?? 0; }
+  async resetLoginAttempts(username: string) { await UserModel.updateOne({ username }, { loginAttempts: 0, lockoutCount: 0, cooldownUntil: null, lastFailedLogin: null }); }
+  async lockAccount(username: string, cooldownUntil: Date) { await UserModel.updateOne({ username }, { $set: { cooldownUntil, loginAttempts: 0 }, $inc: { lockoutCount: 1 } }); }
   async setCooldown(username: string, cooldownUntil: Date | null) { await UserModel.updateOne({ username }, { cooldownUntil }); }
   async clearCooldown(username: string) { await UserModel.updateOne({ username }, { cooldownUntil: null }); }
 
+  /* TWO-FACTOR */
+  async setTwoFactorPendingSecret(id: string, secret: string) { await UserModel.updateOne({ _id: id }, { twoFactorPendingSecret: secret }); }
+  async enableTwoFactor(id: string, secret: string, recoveryCodeHashes: string[], step: number) { const doc = await UserModel.findByIdAndUpdate(id, { twoFactorEnabled: true, twoFactorSecret: secret, twoFactorPendingSecret: null, twoFactorRecoveryCodes: recoveryCodeHashes, twoFactorLastStep: step, twoFactorEnabledAt: new Date() }, { new: true }).lean(); return doc ? mapUser(doc) : undefined; }
+  async disableTwoFactor(id: string) { const doc = await UserModel.findByIdAndUpdate(id, { twoFactorEnabled: false, twoFactorSecret: null, twoFactorPendingSecret: null, twoFactorRecoveryCodes: [], twoFactorLastStep: null, twoFactorEnabledAt: null }, { new: true }).lean(); return doc ? mapUser(doc) : undefined; }
+  async setTwoFactorRecoveryCodes(id: string, recoveryCodeHashes: string[]) { await UserModel.updateOne({ _id: id }, { twoFactorRecoveryCodes: recoveryCodeHashes }); }
+  // Atomic so the same authenticator code (or an older one) can't be replayed
+  async consumeTwoFactorStep(id: string, step: number) { const res = await UserModel.updateOne({ _id: id, $or: [{ twoFactorLastStep: null }, { twoFactorLastStep: { $lt: step } }] }, { twoFactorLastStep: step }); return res.modifiedCount === 1; }
+  async consumeRecoveryCode(id: string, codeHash: string) { const res = await UserModel.updateOne({ _id: id, twoFactorRecoveryCodes: codeHash }, { $pull: { twoFactorRecoveryCodes: codeHash } }); return res.modifiedCount === 1; }
+
   /* PRODUCTS */
   async getAllProducts() { const docs = await ProductModel.find({}).lean(); return docs.map(mapProduct); }
   async getProductByManualId(id: string) { let doc = await ProductModel.findOne({ id }).lean(); if (!doc && /^[0-9a-fA-F]{24}$/.test(id)) doc = await ProductModel.findById(id).lean(); return doc ? mapProduct(doc) : undefined; }
   async getProduct(id: string) { const doc = await ProductModel.findOne({ id }).lean(); return doc ? mapProduct(doc) : undefined; }
-  async createProduct(productData: InsertProduct) { const id = productData.id ?? randomUUID(); const doc = await ProductModel.create({ ...productData, id, createdAt: new Date(), updatedAt: new Date() }); return mapProduct(doc); }
-  async updateProduct(id: string, updates: UpdateProduct) { const doc = await ProductModel.findOneAndUpdate({ id }, { ...updates, updatedAt: new Date() }, { new: true }).lean(); return doc ? mapProduct(doc) : undefined; }
+  // Quantity changes are recorded in the stock ledger (see moveStock)
+  async createProduct(productData: InsertProduct, actor: Omit<StockMovementSource, "type"> = {}) { const id = productData.id ?? randomUUID(); const doc = await ProductModel.create({ ...productData, id, createdAt: new Date(), updatedAt: new Date() }); await recordStockMovement(doc, doc.quantity ?? 0, doc.quantity ?? 0, { note: "Opening stock", ...actor, type: "receipt" }); return mapProduct(doc); }
+  async updateProduct(id: string, updates: UpdateProduct, actor: Omit<StockMovementSource, "type"> = {}) { const before = await ProductModel.findOneAndUpdate({ id }, { ...updates, updatedAt: new Date() }).lean(); if (!before) return undefined; if (updates.quantity !== undefined) await recordStockMovement(before, updates.quantity - (before.quantity ?? 0), updates.quantity, { ...actor, type: "manual_edit" }); return this.getProduct(id); }
   async deleteProduct(id: string) { const res = await ProductModel.deleteOne({ id }); return res.deletedCount === 1; }
-  async deductProductStock(id: string, quantity: number) {
-    const product = await ProductModel.findOne({ id });
-    if (!product) throw new Error("Product not found");
-    product.quantity = Math.max(0, (product.quantity ?? 0) - quantity);
-    product.updatedAt = new Date();
-    await product.save();
-    await SaleModel.create({
-      productId: product.id,
-      productName: product.name,
-      quantitySold: quantity,
-      totalPrice: (product.price ?? 0) * quantity,
-      createdAt: new Date(),
-    });
+  async adjustProductStock(id: string, delta: number, source: StockMovementSource) { return moveStock(id, delta, source); }
+  // All lines or none: throws InsufficientStockError for the first line that can't be filled
+  async checkout(receipt: NewTransaction) { return runAtomically("Checkout", (session, undo) => applyCheckout(receipt, session, undo)); }
+  // Throws TransactionChangedError when `transaction` is no longer current
+  async issueCreditNote(transaction: Transaction, credit: NewCreditNote) { return runAtomically("Credit note", (session, undo) => applyCredit(transaction, credit, session, undo)); }
+  async getCreditNotes(transactionId: string) { const docs = await CreditNoteModel.find({ transactionId }).sort({ createdAt: 1 }).lean(); return docs.map(mapCreditNote); }
+  async getTransaction(id: string) { if (!/^[0-9a-fA-F]{24}$/.test(id)) return undefined; const doc = await TransactionModel.findById(id).lean(); return doc ? mapTransaction(doc) : undefined; }
+  async getTransactionByReceiptNumber(receiptNumber: string) { const doc = await TransactionModel.findOne({ receiptNumber }).lean(); return doc ? mapTransaction(doc) : undefined; }
+  async markTransactionReprinted(id: string) { if (!/^[0-9a-fA-F]{24}$/.test(id)) return undefined; const doc = await TransactionModel.findByIdAndUpdate(id, { $inc: { reprintCount: 1 }, $set: { lastReprintedAt: new Date() } }, { new: true }).lean(); return doc ? mapTransaction(doc) : undefined; }
+  async getTransactions(query: Omit<TransactionQuery, "page" | "pageSize"> = {}, page = 1, pageSize = 50) {
+    const filter: Record<string, any> = {};
+    if (query.receiptNumber) filter.receiptNumber = new RegExp(escapeRegex(query.receiptNumber), "i");
+    if (query.cashier) filter.cashierUsername = new RegExp(escapeRegex(query.cashier), "i");
+    if (query.product) filter.$or = [{ "items.productId": query.product }, { "items.productName": new RegExp(escapeRegex(query.product), "i") }];
+    if (query.from || query.to) filter.createdAt = { ...(query.from && { $gte: query.from }), ...(query.to && { $lte: query.to }) };
+    const [docs, total] = await Promise.all([
+      TransactionModel.find(filter).sort({ createdAt: -1, _id: -1 }).skip((page - 1) * pageSize).limit(pageSize).lean(),
+      TransactionModel.countDocuments(filter),
+    ]);
+    return { transactions: docs.map(mapTransaction), total };
+  }
+  async getStockMovements(productId: string, query: Omit<StockMovementQuery, "page" | "pageSize"> = {}, page = 1, pageSize = 100) {
+    const filter: Record<string, any> = { productId };
+    if (query.type) filter.type = query.type;
+    const [docs, total] = await Promise.all([
+      StockMovementModel.find(filter).sort({ createdAt: -1, _id: -1 }).skip((page - 1) * pageSize).limit(pageSize).lean(),
+      StockMovementModel.countDocuments(filter),
+    ]);
+    return { movements: docs.map(mapStockMovement), total };
+  }
+
+  /* PROMOTIONS */
+  async createPromotion(promotion: CreatePromotionRequest, createdBy: string) { const doc = await PromotionModel.create({ ...promotion, createdBy }); return mapPromotion(doc); }
+  async getPromotions() { const docs = await PromotionModel.find({}).sort({ startsAt: -1, _id: -1 }).lean(); return docs.map(mapPromotion); }
+  // The ones checkout applies at `at`
+  async getActivePromotions(at = new Date()) { const docs = await PromotionModel.find({ active: true, startsAt: { $lte: at }, endsAt: { $gt: at } }).lean(); return docs.map(mapPromotion); }
+  async endPromotion(id: string) { if (!/^[0-9a-fA-F]{24}$/.test(id)) return undefined; const doc = await PromotionModel.findByIdAndUpdate(id, { active: false }, { new: true }).lean(); return doc ? mapPromotion(doc) : undefined; }
+
+  /* CASH DRAWER SHIFTS */
+  // Undefined when the store already has an open shift
+  async openShift(shift: NewShift) { if (await ShiftModel.exists({ storeCode: shift.storeCode, status: "open" })) return undefined; const shiftNumber = await nextSequence(`shift:${shift.storeCode}`); try { const doc = await ShiftModel.create({ ...shift, shiftNumber, status: "open", openedAt: new Date() }); return mapShift(doc); } catch (err: any) { if (err?.code === 11000) return undefined; throw err; } }
+  async getOpenShift(storeCode: string) { const doc = await ShiftModel.findOne({ storeCode, status: "open" }).lean(); return doc ? mapShift(doc) : undefined; }
+  async getShift(id: string) { if (!/^[0-9a-fA-F]{24}$/.test(id)) return undefined; const doc = await ShiftModel.findById(id).lean(); return doc ? mapShift(doc) : undefined; }
+  async getShifts(query: Omit<ShiftQuery, "page" | "pageSize"> = {}, page = 1, pageSize = 50) {
+    const filter: Record<string, any> = {};
+    if (query.status) filter.status = query.status;
+    const [docs, total] = await Promise.all([
+      ShiftModel.find(filter).sort({ openedAt: -1, _id: -1 }).skip((page - 1) * pageSize).limit(pageSize).lean(),
+      ShiftModel.countDocuments(filter),
+    ]);
+    return { shifts: docs.map(mapShift), total };
+  }
+  // Undefined when the shift is closed (or doesn't exist)
+  async recordCashMovement(id: string, movement: Omit<CashMovement, "createdAt">) { if (!/^[0-9a-fA-F]{24}$/.test(id)) return undefined; const doc = await ShiftModel.findOneAndUpdate({ _id: id, status: "open" }, { $push: { cashMovements: { ...movement, createdAt: new Date() } }, $inc: { [movement.type === "in" ? "cashIn" : "cashOut"]: movement.amount } }, { new: true }).lean(); return doc ? mapShift(doc) : undefined; }
+  // Closing freezes the running totals first; expected cash and over/short are worked out from the frozen figures
+  async closeShift(id: string, closing: ShiftClosing) {
+    if (!/^[0-9a-fA-F]{24}$/.test(id)) return undefined;
+    const countedCash = Math.round(closing.denominations.reduce((sum, d) => sum + d.denomination * d.count, 0) * 100) / 100;
+    const closed = await ShiftModel.findOneAndUpdate({ _id: id, status: "open" }, { $set: { ...closing, countedCash, status: "closed", closedAt: new Date() } }, { new: true }).lean();
+    if (!closed) return undefined;
+    const expectedCash = expectedDrawerCash(mapShift(closed));
+    const doc = await ShiftModel.findByIdAndUpdate(id, { $set: { expectedCash, overShort: Math.round((countedCash - expectedCash) * 100) / 100 } }, { new: true }).lean();
+    return mapShift(doc);
+  }
+
+  /* X- AND Z-READINGS (Z-readings are append-only) */
+  async getXReading(storeCode: string) { return readingSinceLastZ(storeCode); }
+  // Undefined when another Z-reading was generated from the same point meanwhile
+  async createZReading(storeCode: string, generatedBy: Pick<ZReading, "generatedBy" | "generatedByUsername">) {
+    try {
+      return await runAtomically("Z-reading", async (session) => {
+        const reading = await readingSinceLastZ(storeCode, session);
+        // Numbered after the reading it follows: a second reading racing for the same number
+        // fails the unique index instead of burning one
+        const sequence = reading.previousSequence + 1;
+        const zNumber = `${storeCode}-Z-${String(sequence).padStart(6, "0")}`;
+        const [doc] = await ZReadingModel.create([{ ...reading, ...generatedBy, zNumber, sequence, createdAt: reading.periodEnd }], { session });
+        return mapZReading(doc);
+      });
+    } catch (err: any) {
+      if (err?.code === 11000) return undefined;
+      throw err;
+    }
+  }
+  async getZReading(id: string) { if (!/^[0-9a-fA-F]{24}$/.test(id)) return undefined; const doc = await ZReadingModel.findById(id).lean(); return doc ? mapZReading(doc) : undefined; }
+  async getZReadings(page = 1, pageSize = 50) {
+    const [docs, total] = await Promise.all([
+      ZReadingModel.find({}).sort({ createdAt: -1, _id: -1 }).skip((page - 1) * pageSize).limit(pageSize).lean(),
+      ZReadingModel.countDocuments({}),
+    ]);
+    return { readings: docs.map(mapZReading), total };
   }
 
   /* REPORTS */
@@ -168,20 +1196,167 @@ class MongoStorage {
 
     const sales = await SaleModel.find({ createdAt: { $gte: startDate } }).lean();
     const totalProductsSold = sales.reduce((sum, s) => sum + s.quantitySold, 0);
+    // Voids and returns add negative rows, so these are net figures
     const totalSales = sales.reduce((sum, s) => sum + s.totalPrice, 0);
+    const totalRefunds = -sales.filter((s) => s.totalPrice < 0).reduce((sum, s) => sum + s.totalPrice, 0);
+    // Gross takings per tender, and what went back out through each
+    const tenders = await TransactionModel.aggregate([
+      { $match: { createdAt: { $gte: startDate } } },
+      // As in mapTransaction, sales from before split tender count as cash
+      { $project: { tenders: { $cond: [{ $gt: [{ $size: { $ifNull: ["$tenders", []] } }, 0] }, "$tenders", [{ method: "cash", amount: "$total" }]] } } },
+      { $unwind: "$tenders" },
+      { $group: { _id: "$tenders.method", total: { $sum: "$tenders.amount" }, count: { $sum: 1 } } },
+    ]);
+    const refunds = await CreditNoteModel.aggregate([
+      { $match: { createdAt: { $gte: startDate } } },
+      // As in mapCreditNote, credit notes from before refunds were split by tender were paid in cash
+      { $project: { refunds: { $cond: [{ $gt: [{ $size: { $ifNull: ["$refunds", []] } }, 0] }, "$refunds", [{ method: "cash", amount: "$total" }]] } } },
+      { $unwind: "$refunds" },
+      { $group: { _id: "$refunds.method", total: { $sum: "$refunds.amount" } } },
+    ]);
+    const discounts = await TransactionModel.aggregate([
+      { $match: { createdAt: { $gte: startDate } } },
+      { $unwind: "$items" },
+      { $unwind: "$items.discounts" },
+      { $group: { _id: "$items.discounts.source", total: { $sum: "$items.discounts.amount" } } },
+    ]);
     const lowStockProducts = await ProductModel.find({ quantity: { $lt: 10 } }).lean();
     return {
       totalProductsSold,
       totalSales,
+      totalRefunds,
+      paymentMethods: paymentMethods.map((method) => {
+        const row = tenders.find((t) => t._id === method);
+        return { method, total: Math.round((row?.total ?? 0) * 100) / 100, count: row?.count ?? 0 };
+      }),
+      refunds: paymentMethods.map((method) => ({ method, total: Math.round((refunds.find((r) => r._id === method)?.total ?? 0) * 100) / 100 })),
+      totalDiscounts: Math.round(discounts.reduce((sum, d) => sum + d.total, 0) * 100) / 100,
+      discounts: discountSources.map((source) => ({ source, total: Math.round((discounts.find((d) => d._id === source)?.total ?? 0) * 100) / 100 })),
       lowStockProducts: lowStockProducts.map(mapProduct),
       timestamp: new Date().toLocaleString(),
     };
   }
 
+  // Sales less credit notes, by the day or month they were issued in (server time)
+  async getVatReport({ period, year, month }: VatReportQuery) {
+    const from = period === "daily" ? new Date(year, month! - 1, 1) : new Date(year, 0, 1);
+    const to = period === "daily" ? new Date(year, month!, 1) : new Date(year + 1, 0, 1);
+    const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    // As in mapVat, documents from before VAT classes count as all VATable
+    const exclusive = { $divide: ["$total", 1 + VAT_RATE] };
+    const pipeline = [
+      { $match: { createdAt: { $gte: from, $lt: to } } },
+      {
+        $group: {
+          _id: { $dateToString: { format: period === "daily" ? "%Y-%m-%d" : "%Y-%m", date: "$createdAt", timezone } },
+          count: { $sum: 1 },
+          total: { $sum: "$total" },
+          vatableSales: { $sum: { $ifNull: ["$vatableSales", exclusive] } },
+          vatAmount: { $sum: { $ifNull: ["$vatAmount", { $subtract: ["$total", exclusive] }] } },
+          vatExemptSales: { $sum: { $ifNull: ["$vatExemptSales", 0] } },
+          zeroRatedSales: { $sum: { $ifNull: ["$zeroRatedSales", 0] } },
+        },
+      },
+    ];
+    const [sales, credits] = await Promise.all([TransactionModel.aggregate(pipeline), CreditNoteModel.aggregate(pipeline)]);
+    const round = (amount: number) => Math.round(amount * 100) / 100;
+    const net = (key: string, field: "vatableSales" | "vatAmount" | "vatExemptSales" | "zeroRatedSales") =>
+      round((sales.find((r) => r._id === key)?.[field] ?? 0) - (credits.find((r) => r._id === key)?.[field] ?? 0));
+    const keys = Array.from(new Set([...sales, ...credits].map((r) => r._id as string))).sort();
+    const rows = keys.map((key) => {
+      const sale = sales.find((r) => r._id === key);
+      const credit = credits.find((r) => r._id === key);
+      return {
+        date: key,
+        transactions: sale?.count ?? 0,
+        grossSales: round(sale?.total ?? 0),
+        credits: round(credit?.total ?? 0),
+        netSales: round((sale?.total ?? 0) - (credit?.total ?? 0)),
+        vatableSales: net(key, "vatableSales"),
+        vatAmount: net(key, "vatAmount"),
+        vatExemptSales: net(key, "vatExemptSales"),
+        zeroRatedSales: net(key, "zeroRatedSales"),
+      };
+    });
+    const sum = (field: Exclude<keyof (typeof rows)[number], "date">) => round(rows.reduce((total, row) => total + row[field], 0));
+    return {
+      period,
+      from,
+      to,
+      rows,
+      totals: {
+        transactions: sum("transactions"),
+        grossSales: sum("grossSales"),
+        credits: sum("credits"),
+        netSales: sum("netSales"),
+        vatableSales: sum("vatableSales"),
+        vatAmount: sum("vatAmount"),
+        vatExemptSales: sum("vatExemptSales"),
+        zeroRatedSales: sum("zeroRatedSales"),
+      },
+    };
+  }
+
   /* SESSIONS */
-  async createSession(userId: string) { const id = randomUUID(); const expiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000); const doc = await SessionModel.create({ id, userId, expiresAt }); return mapSession(doc); }
+  async createSession(userId: string, meta: { userAgent?: string; ip?: string; rememberMe?: boolean; twoFactorPending?: boolean; impersonatorId?: string; impersonatorSessionId?: string } = {}) { const id = randomUUID(); const now = new Date(); const expiresAt = new Date(now.getTime() + (meta.twoFactorPending ? TWO_FACTOR_CHALLENGE_TTL_MS : meta.impersonatorId ? IMPERSONATION_TTL_MS : sessionLifetime(meta.rememberMe))); const doc = await SessionModel.create({ id, userId, ...meta, expiresAt, lastSeenAt: now }); return mapSession(doc); }
   async getSession(sessionId: string) { const doc = await SessionModel.findOne({ id: sessionId }).lean(); return doc ? mapSession(doc) : undefined; }
+  async touchSession(sessionId: string, rememberMe: boolean) { const now = new Date(); const doc = await SessionModel.findOneAndUpdate({ id: sessionId }, { lastSeenAt: now, expiresAt: new Date(now.getTime() + sessionLifetime(rememberMe)) }, { new: true }).lean(); return doc ? mapSession(doc) : undefined; }
+  async getUserSessions(userId: string) { const docs = await SessionModel.find({ userId, twoFactorPending: { $ne: true }, impersonatorId: null, expiresAt: { $gt: new Date() } }).sort({ lastSeenAt: -1 }).lean(); return docs.map(mapSession); }
   async deleteSession(sessionId: string) { const res = await SessionModel.deleteOne({ id: sessionId }); return res.deletedCount === 1; }
+  async deleteUserSession(userId: string, publicId: string) { if (!/^[0-9a-fA-F]{24}$/.test(publicId)) return false; const res = await SessionModel.deleteOne({ _id: publicId, userId }); return res.deletedCount === 1; }
+  async deleteUserSessions(userId: string, exceptSessionId?: string) { const filter: Record<string, unknown> = { userId }; if (exceptSessionId) filter.id = { $ne: exceptSessionId }; const res = await SessionModel.deleteMany(filter); return res.deletedCount; }
+
+  /* CUSTOM ROLES */
+  async getCustomRoles() { const docs = await CustomRoleModel.find({}).sort({ name: 1 }).lean(); return docs.map(mapCustomRole); }
+  async getCustomRole(name: string) { const doc = await CustomRoleModel.findOne({ name }).lean(); return doc ? mapCustomRole(doc) : undefined; }
+  async createCustomRole(role: { name: string; label: string; permissions: Permission[] }) { if (await CustomRoleModel.exists({ name: role.name })) throw new HttpError("Role already exists", 409); const doc = await CustomRoleModel.create(role); return mapCustomRole(doc); }
+  async updateCustomRole(name: string, updates: { label: string; permissions: Permission[] }) { const doc = await CustomRoleModel.findOneAndUpdate({ name }, { ...updates, updatedAt: new Date() }, { new: true }).lean(); return doc ? mapCustomRole(doc) : undefined; }
+  async deleteCustomRole(name: string) { const res = await CustomRoleModel.deleteOne({ name }); return res.deletedCount === 1; }
+
+  /* API TOKENS */
+  async createApiToken(token: { userId: string; name: string; tokenHash: string; prefix: string; scopes: ApiTokenScope[]; expiresAt: Date | null }) { const doc = await ApiTokenModel.create(token); return mapApiToken(doc); }
+  async getApiTokenByHash(tokenHash: string) { const doc = await ApiTokenModel.findOne({ tokenHash }).lean(); return doc ? mapApiToken(doc) : undefined; }
+  async getUserApiTokens(userId: string) { const docs = await ApiTokenModel.find({ userId }).sort({ createdAt: -1 }).lean(); return docs.map(mapApiToken); }
+  async touchApiToken(id: string, ip: string | undefined) { await ApiTokenModel.updateOne({ _id: id }, { lastUsedAt: new Date(), lastUsedIp: ip }); }
+  async deleteUserApiToken(userId: string, id: string) { if (!/^[0-9a-fA-F]{24}$/.test(id)) return undefined; const doc = await ApiTokenModel.findOneAndDelete({ _id: id, userId }).lean(); return doc ? mapApiToken(doc) : undefined; }
+
+  /* INVITATIONS */
+  async createInvitation(invitation: { role: string; email: string | null; nonce: string; createdBy: string; createdByUsername: string; expiresAt: Date }) { const doc = await InvitationModel.create(invitation); return mapInvitation(doc); }
+  async getInvitation(id: string) { if (!/^[0-9a-fA-F]{24}$/.test(id)) return undefined; const doc = await InvitationModel.findById(id).lean(); return doc ? mapInvitation(doc) : undefined; }
+  async getInvitations() { const docs = await InvitationModel.find({}).sort({ createdAt: -1 }).lean(); return docs.map(mapInvitation); }
+  async updateInvitation(id: string, updates: Partial<Pick<Invitation, "nonce" | "expiresAt" | "revokedAt">>) { const doc = await InvitationModel.findOneAndUpdate({ _id: id, usedAt: null }, updates, { new: true }).lean(); return doc ? mapInvitation(doc) : undefined; }
+  async markInvitationSent(id: string) { await InvitationModel.updateOne({ _id: id }, { $inc: { sendCount: 1 }, $set: { lastSentAt: new Date() } }); }
+  // Atomic so two registrations can't redeem the same link
+  async claimInvitation(id: string, nonce: string) { const doc = await InvitationModel.findOneAndUpdate({ _id: id, nonce, usedAt: null, revokedAt: null, expiresAt: { $gt: new Date() } }, { usedAt: new Date() }, { new: true }).lean(); return doc ? mapInvitation(doc) : undefined; }
+  async releaseInvitation(id: string) { await InvitationModel.updateOne({ _id: id, usedBy: null }, { usedAt: null }); }
+  async setInvitationUsedBy(id: string, userId: string) { await InvitationModel.updateOne({ _id: id }, { usedBy: userId }); }
+
+  /* SECURITY EVENTS (append-only: no update or delete) */
+  async logSecurityEvent(event: Omit<SecurityEvent, "id" | "createdAt">) { const doc = await SecurityEventModel.create(event); return mapSecurityEvent(doc); }
+  async getSecurityEvents(query: Omit<SecurityEventQuery, "page" | "pageSize">, page = 1, pageSize = 50) {
+    const filter: Record<string, any> = {};
+    if (query.type) filter.type = query.type;
+    if (query.username) filter.username = query.username;
+    if (query.ip) filter.ip = query.ip;
+    if (query.from || query.to) filter.createdAt = { ...(query.from && { $gte: query.from }), ...(query.to && { $lte: query.to }) };
+    const [docs, total] = await Promise.all([
+      SecurityEventModel.find(filter).sort({ createdAt: -1 }).skip((page - 1) * pageSize).limit(pageSize).lean(),
+      SecurityEventModel.countDocuments(filter),
+    ]);
+    return { events: docs.map(mapSecurityEvent), total };
+  }
+
+  /* RATE LIMITING */
+  async countRateLimitHits(key: string, since: Date) { const [count, oldest] = await Promise.all([RateLimitHitModel.countDocuments({ key, at: { $gt: since } }), RateLimitHitModel.findOne({ key, at: { $gt: since } }).sort({ at: 1 }).lean()]); return { count, oldest: oldest?.at }; }
+  async addRateLimitHit(key: string, at: Date, expiresAt: Date) { await RateLimitHitModel.create({ key, at, expiresAt }); }
+  async removeRateLimitHit(key: string, at: Date) { await RateLimitHitModel.deleteOne({ key, at }); }
+  async clearRateLimitHits(key: string) { await RateLimitHitModel.deleteMany({ key }); }
+
+  /* VERIFICATION CODES */
+  async getVerificationCode(purpose: VerificationPurpose, userId: string) { const doc = await VerificationCodeModel.findOne({ purpose, userId }).lean(); return doc ? mapVerificationCode(doc) : undefined; }
+  async saveVerificationCode(purpose: VerificationPurpose, userId: string, email: string, codeHash: string, expiresAt: Date, sendCount: number) { const doc = await VerificationCodeModel.findOneAndUpdate({ purpose, userId }, { email, codeHash, expiresAt, sendCount, attempts: 0, lastSentAt: new Date(), consumedAt: null }, { upsert: true, new: true, setDefaultsOnInsert: true }).lean(); return mapVerificationCode(doc); }
+  async incrementVerificationAttempts(purpose: VerificationPurpose, userId: string) { const doc = await VerificationCodeModel.findOneAndUpdate({ purpose, userId }, { $inc: { attempts: 1 } }, { new: true }).lean(); return doc ? mapVerificationCode(doc) : undefined; }
+  async markVerificationCodeConsumed(purpose: VerificationPurpose, userId: string) { const result = await VerificationCodeModel.updateOne({ purpose, userId, consumedAt: null }, { consumedAt: new Date() }); return result.modifiedCount > 0; }
 }
 
 export const storage = new MongoStorage();
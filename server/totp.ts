@@ -0,0 +1,89 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+
+/**
+ * RFC 6238 time-based one-time passwords (SHA-1, 6 digits, 30 second
+ * steps), the defaults every authenticator app understands.
+ */
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+export function base32Encode(buffer: Buffer) {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return output;
+}
+
+export function base32Decode(input: string) {
+  const clean = input.toUpperCase().replace(/[\s=-]/g, "");
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error("Invalid base32 secret");
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+/** A new random 160-bit secret, base32 encoded. */
+export function generateTotpSecret() {
+  return base32Encode(randomBytes(20));
+}
+
+function hotp(secret: string, counter: number) {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+  const hmac = createHmac("sha1", base32Decode(secret)).update(message).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** DIGITS).padStart(DIGITS, "0");
+}
+
+export function currentTotpStep(now = Date.now()) {
+  return Math.floor(now / 1000 / STEP_SECONDS);
+}
+
+/**
+ * Checks `code` against the current step and `window` steps either side
+ * (to absorb clock drift). Returns the matching step so callers can refuse
+ * to accept the same code twice, or null when nothing matches.
+ */
+export function verifyTotp(secret: string, code: string, window = 1, now = Date.now()) {
+  if (!/^[0-9]{6}$/.test(code)) return null;
+  const step = currentTotpStep(now);
+  for (let offset = -window; offset <= window; offset++) {
+    const expected = hotp(secret, step + offset);
+    if (timingSafeEqual(Buffer.from(expected), Buffer.from(code))) return step + offset;
+  }
+  return null;
+}
+
+/** The otpauth:// URI authenticator apps import (usually via QR code). */
+export function totpUri(secret: string, accountName: string, issuer: string) {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: "SHA1",
+    digits: String(DIGITS),
+    period: String(STEP_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params}`;
+}
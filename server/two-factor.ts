@@ -0,0 +1,185 @@
+import express, { Request, Response } from "express";
+import { createHash, randomBytes } from "crypto";
+import dotenv from "dotenv";
+import QRCode from "qrcode";
+import { sendError } from "./errors.js";
+import { storage } from "./storage.js";
+import { recordSecurityEvent } from "./audit.js";
+import { normalizeRole } from "./middleware.js";
+import { generateTotpSecret, totpUri, verifyTotp } from "./totp.js";
+import {
+  twoFactorCodeSchema,
+  twoFactorVerifySchema,
+  twoFactorRoles,
+  type TwoFactorVerifyRequest,
+  type User,
+} from "../shared/schema.js";
+
+dotenv.config();
+
+/* -------------------- POLICY -------------------- */
+
+/**
+ * 2FA is optional for every account. Admin and staff roles listed in
+ * TWO_FACTOR_REQUIRED_ROLES (comma separated, e.g. "admin,staff") must
+ * enroll before they can use anything else.
+ *
+ * Env: TWO_FACTOR_REQUIRED_ROLES, TWO_FACTOR_ISSUER
+ */
+const requiredRoles = (process.env.TWO_FACTOR_REQUIRED_ROLES ?? "")
+  .split(",")
+  .map((role) => role.trim().toLowerCase())
+  .filter((role) => (twoFactorRoles as readonly string[]).includes(role));
+
+const ISSUER = process.env.TWO_FACTOR_ISSUER || "BLCM Hardware";
+const RECOVERY_CODE_COUNT = 10;
+
+export function isTwoFactorRequired(user: User) {
+  return requiredRoles.includes(normalizeRole(user.role));
+}
+
+/** Required by role but not set up yet: the account may only enroll. */
+export function mustEnrollTwoFactor(user: User) {
+  return isTwoFactorRequired(user) && !user.twoFactorEnabled;
+}
+
+/* -------------------- RECOVERY CODES -------------------- */
+
+// Recovery codes are random, so a fast hash is enough (unlike passwords)
+function hashRecoveryCode(code: string) {
+  const normalized = code.toLowerCase().replace(/[^a-z0-9]/g, "");
+  return createHash("sha256").update(normalized).digest("hex");
+}
+
+function generateRecoveryCodes() {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = randomBytes(5).toString("hex");
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+  return { codes, hashes: codes.map(hashRecoveryCode) };
+}
+
+/* -------------------- VERIFICATION -------------------- */
+
+/**
+ * Checks an authenticator code or a recovery code for an enrolled user and
+ * burns it. Returns which factor matched, or null.
+ */
+export async function verifySecondFactor(user: User, input: TwoFactorVerifyRequest) {
+  if (!user.twoFactorEnabled || !user.twoFactorSecret) return null;
+
+  if (input.code) {
+    const step = verifyTotp(user.twoFactorSecret, input.code);
+    if (step === null) return null;
+    return (await storage.consumeTwoFactorStep(user.id, step)) ? "totp" : null;
+  }
+  if (input.recoveryCode) {
+    const used = await storage.consumeRecoveryCode(user.id, hashRecoveryCode(input.recoveryCode));
+    return used ? "recovery_code" : null;
+  }
+  return null;
+}
+
+/* -------------------- ROUTER -------------------- */
+
+/**
+ * Self-service enrollment. Mounted under /api/2fa behind requireAuth
+ * in routes.ts.
+ */
+const router = express.Router();
+
+// -------------------- STATUS --------------------
+router.get("/", (req: Request, res: Response) => {
+  const user = req.user!;
+  res.json({
+    enabled: user.twoFactorEnabled,
+    required: isTwoFactorRequired(user),
+    enabledAt: user.twoFactorEnabledAt,
+    recoveryCodesRemaining: user.twoFactorRecoveryCodes.length,
+  });
+});
+
+// -------------------- START ENROLLMENT --------------------
+router.post("/setup", async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+    if (user.twoFactorEnabled) {
+      return res.status(400).json({ message: "Two-factor authentication is already enabled" });
+    }
+
+    const secret = generateTotpSecret();
+    await storage.setTwoFactorPendingSecret(user.id, secret);
+    const otpauthUri = totpUri(secret, user.username, ISSUER);
+    res.json({ secret, otpauthUri, qrCode: await QRCode.toDataURL(otpauthUri) });
+  } catch (err) {
+    sendError(res, err, "Failed to start two-factor setup");
+  }
+});
+
+// -------------------- CONFIRM ENROLLMENT --------------------
+router.post("/enable", async (req: Request, res: Response) => {
+  try {
+    const { code } = twoFactorCodeSchema.parse(req.body);
+    const user = req.user!;
+    if (user.twoFactorEnabled) {
+      return res.status(400).json({ message: "Two-factor authentication is already enabled" });
+    }
+    if (!user.twoFactorPendingSecret) {
+      return res.status(400).json({ message: "Start two-factor setup first" });
+    }
+
+    const step = verifyTotp(user.twoFactorPendingSecret, code);
+    if (step === null) return res.status(400).json({ message: "Invalid authenticator code" });
+
+    const { codes, hashes } = generateRecoveryCodes();
+    await storage.enableTwoFactor(user.id, user.twoFactorPendingSecret, hashes, step);
+    await recordSecurityEvent(req, "two_factor_enabled", { userId: user.id, username: user.username });
+    // Shown once; only hashes are stored
+    res.json({ message: "Two-factor authentication enabled", recoveryCodes: codes });
+  } catch (err) {
+    sendError(res, err, "Failed to enable two-factor authentication");
+  }
+});
+
+// -------------------- NEW RECOVERY CODES --------------------
+router.post("/recovery-codes", async (req: Request, res: Response) => {
+  try {
+    const input = twoFactorVerifySchema.parse(req.body);
+    const user = req.user!;
+    if (!(await verifySecondFactor(user, input))) {
+      return res.status(400).json({ message: "Invalid authentication code" });
+    }
+
+    const { codes, hashes } = generateRecoveryCodes();
+    await storage.setTwoFactorRecoveryCodes(user.id, hashes);
+    await recordSecurityEvent(req, "two_factor_recovery_codes_regenerated", {
+      userId: user.id,
+      username: user.username,
+    });
+    res.json({ recoveryCodes: codes });
+  } catch (err) {
+    sendError(res, err, "Failed to generate recovery codes");
+  }
+});
+
+// -------------------- DISABLE --------------------
+router.post("/disable", async (req: Request, res: Response) => {
+  try {
+    const input = twoFactorVerifySchema.parse(req.body);
+    const user = req.user!;
+    if (isTwoFactorRequired(user)) {
+      return res.status(400).json({ message: "Two-factor authentication is required for your role" });
+    }
+    if (!(await verifySecondFactor(user, input))) {
+      return res.status(400).json({ message: "Invalid authentication code" });
+    }
+
+    await storage.disableTwoFactor(user.id);
+    await recordSecurityEvent(req, "two_factor_disabled", { userId: user.id, username: user.username });
+    res.json({ message: "Two-factor authentication disabled" });
+  } catch (err) {
+    sendError(res, err, "Failed to disable two-factor authentication");
+  }
+});
+
+export default router;
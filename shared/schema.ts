@@ -7,6 +7,8 @@ import {
   timestamp,
   integer,
   boolean,
+  doublePrecision,
+  jsonb,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { string, z } from "zod";
@@ -18,16 +20,36 @@ export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
+  // Hashes of earlier passwords, newest first, for the reuse check
+  passwordHistory: text("password_history").array().notNull().default(sql`'{}'`),
+  passwordChangedAt: timestamp("password_changed_at"),
+  // Set by an admin reset; login only reaches the password change until it is cleared
+  mustChangePassword: boolean("must_change_password").notNull().default(false),
   firstName: text("first_name"),
   lastName: text("last_name"),
   email: text("email"),
+  emailVerified: boolean("email_verified").notNull().default(false),
+  // Requested new address; replaces email once its confirmation code is entered
+  pendingEmail: text("pending_email"),
   phone: text("phone"),
-  role: text("role").notNull().default("Admin"),
+  role: text("role").notNull().default("user"),
   supply: text("supply"),
   supplyQuantity: integer("supply_quantity"),
   loginAttempts: integer("login_attempts").default(0),
+  lockoutCount: integer("lockout_count").default(0),
   lastFailedLogin: timestamp("last_failed_login"),
   cooldownUntil: timestamp("cooldown_until"),
+  isActive: boolean("is_active").notNull().default(true),
+  approvalStatus: text("approval_status").notNull().default("approved"),
+  rejectionReason: text("rejection_reason"),
+  reviewedBy: varchar("reviewed_by"),
+  reviewedAt: timestamp("reviewed_at"),
+  twoFactorEnabled: boolean("two_factor_enabled").notNull().default(false),
+  twoFactorSecret: text("two_factor_secret"),
+  twoFactorPendingSecret: text("two_factor_pending_secret"),
+  twoFactorRecoveryCodes: text("two_factor_recovery_codes").array().notNull().default(sql`'{}'`),
+  twoFactorLastStep: integer("two_factor_last_step"),
+  twoFactorEnabledAt: timestamp("two_factor_enabled_at"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -36,11 +58,107 @@ export const users = pgTable("users", {
 ======================== */
 export const sessions = pgTable("sessions", {
   id: varchar("id").primaryKey(),
+  publicId: varchar("public_id").notNull(),
   userId: varchar("user_id").notNull().references(() => users.id),
+  userAgent: text("user_agent"),
+  ip: text("ip"),
+  rememberMe: boolean("remember_me").notNull().default(false),
+  // Password checked, second factor still outstanding; never authenticates a request
+  twoFactorPending: boolean("two_factor_pending").notNull().default(false),
+  // "View as" sessions: the admin acting as userId, and the session to return them to
+  impersonatorId: varchar("impersonator_id"),
+  impersonatorSessionId: varchar("impersonator_session_id"),
   expiresAt: timestamp("expires_at").notNull(),
+  lastSeenAt: timestamp("last_seen_at"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+/* ========================
+   CUSTOM ROLES TABLE
+======================== */
+export const customRoles = pgTable("custom_roles", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  // Lowercase slug stored on users.role
+  name: text("name").notNull().unique(),
+  label: text("label").notNull(),
+  permissions: text("permissions").array().notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+/* ========================
+   API TOKENS TABLE
+======================== */
+export const apiTokens = pgTable("api_tokens", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  name: text("name").notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  // First characters of the token, so users can tell tokens apart
+  prefix: text("prefix").notNull(),
+  scopes: text("scopes").array().notNull(),
+  expiresAt: timestamp("expires_at"),
+  lastUsedAt: timestamp("last_used_at"),
+  lastUsedIp: text("last_used_ip"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+/* ========================
+   INVITATIONS TABLE
+======================== */
+export const invitations = pgTable("invitations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  role: text("role").notNull(),
+  // When set, the account must be registered with this address
+  email: text("email"),
+  // Signed into the link; rotating it on resend kills the previous link
+  nonce: text("nonce").notNull(),
+  createdBy: varchar("created_by").notNull().references(() => users.id),
+  createdByUsername: text("created_by_username").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  sendCount: integer("send_count").notNull().default(0),
+  lastSentAt: timestamp("last_sent_at"),
+  usedAt: timestamp("used_at"),
+  usedBy: varchar("used_by"),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+/* ========================
+   VERIFICATION CODES TABLE
+======================== */
+export const verificationCodes = pgTable("verification_codes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  purpose: text("purpose").notNull(),
+  userId: varchar("user_id").notNull(),
+  // The address the code was sent to
+  email: text("email").notNull(),
+  codeHash: text("code_hash").notNull(),
+  attempts: integer("attempts").notNull().default(0),
+  sendCount: integer("send_count").notNull().default(1),
+  lastSentAt: timestamp("last_sent_at").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  // Used or burned; kept until it expires so the send count still applies
+  consumedAt: timestamp("consumed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+/* ========================
+   SECURITY EVENTS TABLE (append-only)
+======================== */
+export const securityEvents = pgTable("security_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  type: text("type").notNull(),
+  userId: varchar("user_id"),
+  username: text("username"),
+  actorId: varchar("actor_id"),
+  actorUsername: text("actor_username"),
+  ip: text("ip"),
+  userAgent: text("user_agent"),
+  details: text("details"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
 /* ========================
    PRODUCTS TABLE
 ======================== */
@@ -52,24 +170,250 @@ export const products = pgTable("products", {
   quantity: integer("quantity").notNull().default(0),
   weighted: boolean("weighted").default(false),
   category: text("category").notNull().default("Uncategorized"), // ✅ new column
+  // Prices are VAT-inclusive; this says whether they carry 12% VAT at all
+  vatClass: text("vat_class").$type<VatClass>().notNull().default("vatable"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+/* ========================
+   STOCK MOVEMENTS TABLE (append-only)
+======================== */
+// Every change to a product's quantity, with the balance it left behind
+export const stockMovements = pgTable("stock_movements", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  productId: varchar("product_id").notNull(),
+  productName: text("product_name").notNull(),
+  delta: integer("delta").notNull(),
+  balance: integer("balance").notNull(),
+  type: text("type").notNull(),
+  // The sale, receipt or other document behind the movement, when there is one
+  reference: text("reference"),
+  note: text("note"),
+  userId: varchar("user_id"),
+  username: text("username"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+/* ========================
+   SALES TRANSACTIONS TABLE
+======================== */
+// One per checkout; the receipt is rendered from this document
+export const transactions = pgTable("transactions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  // Gap-free per store, e.g. MAIN-00000042
+  receiptNumber: text("receipt_number").notNull().unique(),
+  sequence: integer("sequence").notNull(),
+  storeCode: text("store_code").notNull(),
+  cashierId: varchar("cashier_id"),
+  cashierUsername: text("cashier_username"),
+  // The drawer shift the cash went into
+  shiftId: varchar("shift_id"),
+  items: jsonb("items").$type<TransactionItem[]>().notNull(),
+  // Before any discount; total is what was charged
+  subtotal: doublePrecision("subtotal").notNull(),
+  discountTotal: doublePrecision("discount_total").notNull().default(0),
+  // The sale-wide discount as given, already spread over the lines' discounts
+  saleDiscount: jsonb("sale_discount").$type<DiscountRequest>(),
+  // Senior citizen / PWD customer the statutory discount was given to
+  seniorPwd: jsonb("senior_pwd").$type<SeniorPwd>(),
+  // VAT waived for a senior citizen / PWD sale
+  vatExemption: doublePrecision("vat_exemption").notNull().default(0),
+  total: doublePrecision("total").notNull(),
+  // The total split for the BIR: VATable sales + VAT amount + exempt + zero-rated = total
+  vatableSales: doublePrecision("vatable_sales").notNull().default(0),
+  vatAmount: doublePrecision("vat_amount").notNull().default(0),
+  vatExemptSales: doublePrecision("vat_exempt_sales").notNull().default(0),
+  zeroRatedSales: doublePrecision("zero_rated_sales").notNull().default(0),
+  // How the total was paid; tender amounts add up to the total
+  tenders: jsonb("tenders").$type<Tender[]>().notNull(),
+  // Cash handed over for the cash tender, and the change given from it
+  cashTendered: doublePrecision("cash_tendered").notNull(),
+  change: doublePrecision("change").notNull(),
+  // Copies printed or exported after the original
+  reprintCount: integer("reprint_count").notNull().default(0),
+  lastReprintedAt: timestamp("last_reprinted_at"),
+  voidedAt: timestamp("voided_at"),
+  voidedBy: text("voided_by"),
+  // Bumped by every void or return so two can't be applied from the same state
+  revision: integer("revision").notNull().default(0),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+/* ========================
+   CREDIT NOTES TABLE
+======================== */
+// What a void or return gave back, numbered like receipts
+export const creditNotes = pgTable("credit_notes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  // Gap-free per store, e.g. MAIN-CN-00000007
+  creditNumber: text("credit_number").notNull().unique(),
+  sequence: integer("sequence").notNull(),
+  storeCode: text("store_code").notNull(),
+  kind: text("kind").notNull(),
+  transactionId: varchar("transaction_id").notNull(),
+  receiptNumber: text("receipt_number").notNull(),
+  items: jsonb("items").$type<CreditItem[]>().notNull(),
+  total: doublePrecision("total").notNull(),
+  // How `total` was paid back: through the sale's own tenders, cash last
+  refunds: jsonb("refunds").$type<Tender[]>().notNull(),
+  // The same split as on the sale, for the part credited
+  vatableSales: doublePrecision("vatable_sales").notNull().default(0),
+  vatAmount: doublePrecision("vat_amount").notNull().default(0),
+  vatExemptSales: doublePrecision("vat_exempt_sales").notNull().default(0),
+  zeroRatedSales: doublePrecision("zero_rated_sales").notNull().default(0),
+  reason: text("reason").notNull(),
+  // The drawer shift the refund was paid from
+  shiftId: varchar("shift_id"),
+  userId: varchar("user_id"),
+  username: text("username"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+/* ========================
+   PROMOTIONS TABLE
+======================== */
+// Applied automatically at checkout while active and within their dates
+export const promotions = pgTable("promotions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  kind: text("kind").notNull(),
+  // What it applies to: these products, or else everything in the category
+  productIds: jsonb("product_ids").$type<string[]>().notNull(),
+  category: text("category"),
+  discountType: text("discount_type"),
+  discountValue: doublePrecision("discount_value"),
+  minQuantity: integer("min_quantity"),
+  buyQuantity: integer("buy_quantity"),
+  freeQuantity: integer("free_quantity"),
+  startsAt: timestamp("starts_at").notNull(),
+  endsAt: timestamp("ends_at").notNull(),
+  active: boolean("active").notNull().default(true),
+  createdBy: text("created_by"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+/* ========================
+   CASH DRAWER SHIFTS TABLE
+======================== */
+// One drawer per store, so at most one open shift per store at a time
+export const shifts = pgTable("shifts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  shiftNumber: integer("shift_number").notNull(),
+  storeCode: text("store_code").notNull(),
+  status: text("status").notNull().default("open"),
+  openedBy: varchar("opened_by"),
+  openedByUsername: text("opened_by_username"),
+  openedAt: timestamp("opened_at").notNull().defaultNow(),
+  openingFloat: doublePrecision("opening_float").notNull(),
+  // Running totals kept by checkouts, refunds and cash movements; frozen on close
+  cashSales: doublePrecision("cash_sales").notNull().default(0),
+  cashRefunds: doublePrecision("cash_refunds").notNull().default(0),
+  cashIn: doublePrecision("cash_in").notNull().default(0),
+  cashOut: doublePrecision("cash_out").notNull().default(0),
+  transactionCount: integer("transaction_count").notNull().default(0),
+  cashMovements: jsonb("cash_movements").$type<CashMovement[]>().notNull(),
+  closedAt: timestamp("closed_at"),
+  closedBy: varchar("closed_by"),
+  closedByUsername: text("closed_by_username"),
+  denominations: jsonb("denominations").$type<DenominationCount[]>(),
+  countedCash: doublePrecision("counted_cash"),
+  expectedCash: doublePrecision("expected_cash"),
+  // Counted minus expected: positive is over, negative is short
+  overShort: doublePrecision("over_short"),
+  closingNote: text("closing_note"),
+});
+
+/* ========================
+   Z-READINGS TABLE (append-only)
+======================== */
+// End-of-day readings. Each covers every receipt and credit note numbered
+// since the one before, so no sale is ever read twice or missed.
+export const zReadings = pgTable("z_readings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  // Gap-free per store, e.g. MAIN-Z-000012
+  zNumber: text("z_number").notNull().unique(),
+  sequence: integer("sequence").notNull(),
+  storeCode: text("store_code").notNull(),
+  // The reading this one follows (0 for the first); unique per store
+  previousSequence: integer("previous_sequence").notNull(),
+  periodStart: timestamp("period_start"),
+  periodEnd: timestamp("period_end").notNull(),
+  beginningReceipt: text("beginning_receipt"),
+  endingReceipt: text("ending_receipt"),
+  lastTransactionSequence: integer("last_transaction_sequence").notNull(),
+  lastCreditSequence: integer("last_credit_sequence").notNull(),
+  transactionCount: integer("transaction_count").notNull(),
+  // Before discounts, voids and returns
+  grossSales: doublePrecision("gross_sales").notNull(),
+  discountTotal: doublePrecision("discount_total").notNull(),
+  discounts: jsonb("discounts").$type<Array<{ source: DiscountSource; total: number }>>().notNull(),
+  voidCount: integer("void_count").notNull(),
+  voidTotal: doublePrecision("void_total").notNull(),
+  returnCount: integer("return_count").notNull(),
+  returnTotal: doublePrecision("return_total").notNull(),
+  netSales: doublePrecision("net_sales").notNull(),
+  // Net of voids and returns
+  vatableSales: doublePrecision("vatable_sales").notNull(),
+  vatAmount: doublePrecision("vat_amount").notNull(),
+  vatExemptSales: doublePrecision("vat_exempt_sales").notNull(),
+  zeroRatedSales: doublePrecision("zero_rated_sales").notNull(),
+  // Takings per tender, before refunds
+  paymentMethods: jsonb("payment_methods").$type<Array<{ method: PaymentMethod; total: number; count: number }>>().notNull(),
+  // Refunds per tender they were paid back through
+  refunds: jsonb("refunds").$type<Array<{ method: PaymentMethod; total: number }>>().notNull(),
+  // Net sales accumulated over every reading; never resets
+  previousGrandTotal: doublePrecision("previous_grand_total").notNull(),
+  grandTotal: doublePrecision("grand_total").notNull(),
+  generatedBy: varchar("generated_by"),
+  generatedByUsername: text("generated_by_username"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
 /* ========================
    USER SCHEMAS
 ======================== */
+export const userRoles = ["user", "staff", "admin", "supplier"] as const;
+
+// Self-registrations with these roles wait for an admin before they can log in
+export const privilegedRoles = ["staff", "admin", "supplier"] as const;
+// Roles anyone can pick on the public register page; everything else needs an invitation
+export const selfRegistrationRoles = ["user", "supplier"] as const;
+export const approvalStatuses = ["approved", "pending", "rejected"] as const;
+
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
   createdAt: true,
   loginAttempts: true,
+  lockoutCount: true,
   lastFailedLogin: true,
   cooldownUntil: true,
+  isActive: true,
+  emailVerified: true,
+  pendingEmail: true,
+  passwordHistory: true,
+  passwordChangedAt: true,
+  mustChangePassword: true,
+  approvalStatus: true,
+  rejectionReason: true,
+  reviewedBy: true,
+  reviewedAt: true,
+  twoFactorEnabled: true,
+  twoFactorSecret: true,
+  twoFactorPendingSecret: true,
+  twoFactorRecoveryCodes: true,
+  twoFactorLastStep: true,
+  twoFactorEnabledAt: true,
 });
 
+// Shape only; the real rules (length, character classes, blocklist, reuse)
+// are enforced server-side by server/password-policy.ts
+export const passwordSchema = z.string().min(1, "Password is required").max(128, "Password is too long");
+
 export const loginSchema = z.object({
   username: z.string().min(1, "Username is required"),
   password: z.string().min(1, "Password is required"),
+  rememberMe: z.boolean().optional(),
 });
 
 export const registerSchema = z
@@ -77,19 +421,15 @@ export const registerSchema = z
     firstName: z.string().min(1, "First name is required"),
     lastName: z.string().min(1, "Last name is required"),
     username: z.string().min(1, "Username is required"),
-    password: z
-      .string()
-      .min(8, "Password must be at least 8 characters")
-      .regex(
-        /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])/,
-        "Password must include uppercase, lowercase, number, and special character"
-      ),
+    password: passwordSchema,
     confirmPassword: z.string(),
     email: z.string().email("Invalid email address"),
     phone: z.string().regex(/^[0-9]{11}$/, "Phone number must be 11 digits"),
-    role: z.enum(["user", "staff", "admin", "supplier"]).default("user"),
+    // Checked against selfRegistrationRoles, or replaced by the invitation's role
+    role: z.string().trim().toLowerCase().default("user"),
     supply: z.string().optional(),
     supplyQuantity: z.coerce.number().positive().optional(),
+    invitationToken: z.string().optional(),
   })
   .refine((data) => data.password === data.confirmPassword, {
     message: "Passwords do not match",
@@ -111,15 +451,251 @@ export const registerSchema = z
 export const updateProfileSchema = z.object({
   firstName: z.string().optional(),
   lastName: z.string().optional(),
+  // A changed address only takes effect once confirmed (see verifyEmailChangeSchema)
   email: z.string().email().optional(),
   phone: z.string().regex(/^[0-9]{11}$/).optional(),
   supply: z.string().optional(),
   supplyQuantity: z.number().positive().optional(),
 });
 
+export const verifyEmailChangeSchema = z.object({
+  code: z.string().regex(/^[0-9]{6}$/, "Code must be 6 digits"),
+});
+
+export const changePasswordSchema = z
+  .object({
+    currentPassword: z.string().min(1, "Current password is required"),
+    newPassword: passwordSchema,
+    confirmPassword: z.string(),
+  })
+  .refine((data) => data.newPassword === data.confirmPassword, {
+    message: "Passwords do not match",
+    path: ["confirmPassword"],
+  })
+  .refine((data) => data.newPassword !== data.currentPassword, {
+    message: "New password must be different from the current one",
+    path: ["newPassword"],
+  });
+
+/* ========================
+   PERMISSION CATALOG
+======================== */
+export const permissionCatalog = {
+  "product.view": "View products and stock levels",
+  "product.create": "Add products",
+  "product.edit": "Edit product details and prices",
+  "product.delete": "Delete products",
+  "product.adjust_stock": "Deduct or adjust stock",
+  "order.place": "Place orders",
+  "sale.create": "Ring up sales at the POS",
+  "sale.void": "Void sales and process returns",
+  "sale.discount": "Give line and sale discounts at the POS",
+  "promotion.manage": "Create and end promotions",
+  "report.view_financials": "View sales totals and reports",
+  "report.z_reading": "Generate the end-of-day Z-reading",
+  "account.manage": "Create and manage staff accounts",
+  "account.approve": "Approve or reject registrations",
+  "account.impersonate": "View the app as another account (read-only)",
+  "role.manage": "Create and edit custom roles",
+  "security_log.view": "View and export the security log",
+} as const;
+
+export type Permission = keyof typeof permissionCatalog;
+export const permissions = Object.keys(permissionCatalog) as Permission[];
+
+// Built-in roles are fixed; admins add anything else as a custom role
+export const builtInRolePermissions: Record<UserRole, readonly Permission[]> = {
+  admin: permissions,
+  staff: [
+    "product.view",
+    "product.create",
+    "product.edit",
+    "product.adjust_stock",
+    "sale.create",
+    "sale.discount",
+    "report.view_financials",
+  ],
+  supplier: ["product.view", "product.create", "product.edit"],
+  user: ["product.view", "order.place"],
+};
+
+export function isBuiltInRole(role: string): role is UserRole {
+  return (userRoles as readonly string[]).includes(role);
+}
+
+/* ========================
+   ADMIN ACCOUNT SCHEMAS
+======================== */
+export const adminCreateAccountSchema = z.object({
+  username: z.string().min(1, "Username is required"),
+  password: passwordSchema,
+  firstName: z.string().optional(),
+  lastName: z.string().optional(),
+  email: z.string().email("Invalid email address").optional(),
+  phone: z.string().regex(/^[0-9]{11}$/, "Phone number must be 11 digits").optional(),
+  role: z.string().trim().toLowerCase().min(1, "Role is required"),
+  supply: z.string().optional(),
+  supplyQuantity: z.coerce.number().positive().optional(),
+});
+
+export const adminUpdateRoleSchema = z.object({
+  role: z.string().trim().toLowerCase().min(1, "Role is required"),
+});
+
+export const customRoleSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .regex(/^[a-z][a-z0-9_-]{1,30}$/, "Use 2-31 lowercase letters, digits, - or _")
+    .refine((name) => !isBuiltInRole(name), "That name is reserved for a built-in role"),
+  label: z.string().trim().min(1, "Label is required").max(60),
+  permissions: z.array(z.enum(permissions as [Permission, ...Permission[]])),
+});
+
+export const updateCustomRoleSchema = customRoleSchema.omit({ name: true });
+
+export const adminRejectAccountSchema = z.object({
+  reason: z.string().max(500).optional(),
+});
+
+export const adminResetPasswordSchema = z.object({
+  username: z.string().min(1, "Username is required"),
+  newPassword: passwordSchema,
+});
+
+/* ========================
+   VERIFICATION SCHEMAS
+======================== */
+export const verificationPurposes = ["email_verification", "password_reset", "email_change"] as const;
+
+export const sendCodeSchema = z.object({
+  email: z.string().email("Invalid email address"),
+});
+
+export const verifyCodeSchema = z.object({
+  email: z.string().email("Invalid email address"),
+  code: z.string().regex(/^[0-9]{6}$/, "Code must be 6 digits"),
+});
+
+export const forgotPasswordSchema = z.object({
+  username: z.string().min(1, "Username is required"),
+});
+
+export const resetPasswordSchema = z
+  .object({
+    username: z.string().min(1, "Username is required"),
+    code: z.string().regex(/^[0-9]{6}$/, "Code must be 6 digits"),
+    newPassword: passwordSchema,
+    confirmPassword: z.string(),
+  })
+  .refine((data) => data.newPassword === data.confirmPassword, {
+    message: "Passwords do not match",
+    path: ["confirmPassword"],
+  });
+
+/* ========================
+   TWO-FACTOR SCHEMAS
+======================== */
+// Roles TWO_FACTOR_REQUIRED_ROLES can make 2FA mandatory for; any account may enroll
+export const twoFactorRoles = ["admin", "staff"] as const;
+
+export const twoFactorCodeSchema = z.object({
+  code: z.string().regex(/^[0-9]{6}$/, "Code must be 6 digits"),
+});
+
+// Second login step, or disabling 2FA: an authenticator code or a recovery code
+export const twoFactorVerifySchema = z
+  .object({
+    code: z.string().regex(/^[0-9]{6}$/, "Code must be 6 digits").optional(),
+    recoveryCode: z.string().min(1).max(32).optional(),
+  })
+  .refine((data) => !!data.code !== !!data.recoveryCode, {
+    message: "Provide either an authenticator code or a recovery code",
+    path: ["code"],
+  });
+
+/* ========================
+   API TOKEN SCHEMAS
+======================== */
+export const apiTokenScopes = ["products:read", "sales:write", "reports:read"] as const;
+
+export const createApiTokenSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  scopes: z.array(z.enum(apiTokenScopes)).min(1, "Pick at least one scope"),
+  // Omitted means the token never expires
+  expiresInDays: z.coerce.number().int().min(1).max(365).optional(),
+});
+
+/* ========================
+   INVITATION SCHEMAS
+======================== */
+export const invitationStatuses = ["pending", "expired", "used", "revoked"] as const;
+
+export const createInvitationSchema = z.object({
+  role: z.string().trim().toLowerCase().min(1, "Role is required"),
+  email: z.string().trim().toLowerCase().email("Invalid email address").optional().or(z.literal("")),
+  expiresInDays: z.coerce.number().int().min(1).max(30).default(7),
+});
+
+/* ========================
+   SECURITY EVENT SCHEMAS
+======================== */
+export const securityEventTypes = [
+  "login_success",
+  "login_failure",
+  "account_locked",
+  "logout",
+  "password_reset",
+  "password_changed",
+  "email_change_requested",
+  "email_changed",
+  "role_changed",
+  "session_revoked",
+  "account_created",
+  "account_approved",
+  "account_rejected",
+  "account_deactivated",
+  "account_reactivated",
+  "account_unlocked",
+  "two_factor_enabled",
+  "two_factor_disabled",
+  "two_factor_reset",
+  "two_factor_recovery_codes_regenerated",
+  "api_token_created",
+  "api_token_revoked",
+  "custom_role_created",
+  "custom_role_updated",
+  "custom_role_deleted",
+  "invitation_created",
+  "invitation_resent",
+  "invitation_revoked",
+  "invitation_redeemed",
+  "impersonation_started",
+  "impersonation_stopped",
+] as const;
+
+export const securityEventQuerySchema = z.object({
+  type: z.enum(securityEventTypes).optional(),
+  username: z.string().optional(),
+  ip: z.string().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(200).default(50),
+});
+
 /* ========================
    PRODUCT SCHEMAS
 ======================== */
+// Zero-rated sales carry VAT at 0% (e.g. export sales); exempt sales carry none
+export const vatClasses = ["vatable", "exempt", "zero_rated"] as const;
+export const vatClassLabels: Record<(typeof vatClasses)[number], string> = {
+  vatable: "VATable (12%)",
+  exempt: "VAT-exempt",
+  zero_rated: "Zero-rated",
+};
+
 export const insertProductSchema = createInsertSchema(products)
   .omit({ id: true, createdAt: true, updatedAt: true })
   .extend({
@@ -130,8 +706,233 @@ export const insertProductSchema = createInsertSchema(products)
     quantity: z.number().min(0, "Quantity must be non-negative"),
     weighted: z.boolean().default(false),
     category: z.string().min(1, "Category is required").default("Uncategorized"),
+    vatClass: z.enum(vatClasses).default("vatable"),
+  });
+
+export const paymentMethods = ["cash", "gcash", "maya", "bank_transfer", "card"] as const;
+
+export const paymentMethodLabels: Record<(typeof paymentMethods)[number], string> = {
+  cash: "Cash",
+  gcash: "GCash",
+  maya: "Maya",
+  bank_transfer: "Bank Transfer",
+  card: "Card",
+};
+
+// For cash, `amount` is what the customer handed over; change comes out of it
+export const tenderSchema = z
+  .object({
+    method: z.enum(paymentMethods),
+    amount: z.number().positive("Tender amount must be positive"),
+    reference: z.string().trim().max(100).optional(),
+  })
+  .refine((tender) => tender.method === "cash" || !!tender.reference, {
+    message: "A reference number is required for non-cash payments",
+    path: ["reference"],
+  });
+
+export const VAT_RATE = 0.12;
+// RA 9994 / RA 10754: 20% off the VAT-exclusive price, and no VAT
+export const SENIOR_PWD_DISCOUNT_RATE = 0.2;
+
+export const discountTypes = ["percent", "fixed"] as const;
+export const seniorPwdKinds = ["senior", "pwd"] as const;
+// Where a discount on a receipt line came from
+export const discountSources = ["promotion", "line", "sale", "vat_exemption", "senior", "pwd"] as const;
+export const discountSourceLabels: Record<(typeof discountSources)[number], string> = {
+  promotion: "Promotions",
+  line: "Line discounts",
+  sale: "Sale discounts",
+  vat_exemption: "SC/PWD VAT exemption",
+  senior: "Senior citizen 20%",
+  pwd: "PWD 20%",
+};
+
+// A manual discount; `fixed` is pesos off the line (or the whole sale)
+export const discountSchema = z
+  .object({
+    type: z.enum(discountTypes),
+    value: z.number().positive("Discount must be positive"),
+    reason: z.string().trim().max(200).optional(),
+  })
+  .refine((discount) => discount.type !== "percent" || discount.value <= 100, {
+    message: "A percentage discount can't be more than 100",
+    path: ["value"],
+  });
+
+export const seniorPwdSchema = z.object({
+  kind: z.enum(seniorPwdKinds),
+  idNumber: z.string().trim().min(1, "ID number is required").max(50),
+  name: z.string().trim().min(1, "Customer name is required").max(100),
+});
+
+// POST /api/sales/quote: prices a cart without selling it
+export const quoteSchema = z.object({
+  items: z
+    .array(
+      z.object({
+        id: z.string().min(1, "Product ID is required"),
+        quantity: z.number().positive("Quantity must be positive"),
+        discount: discountSchema.optional(),
+      }),
+    )
+    .min(1, "No sale items provided"),
+  discount: discountSchema.optional(),
+  // Replaces every other discount; the statutory discount doesn't stack
+  seniorPwd: seniorPwdSchema.optional(),
+});
+
+// POST /api/sales: every line is deducted, or none is
+export const checkoutSchema = quoteSchema.extend({
+  tenders: z.array(tenderSchema).min(1, "Add at least one payment").optional(),
+  // Without tenders, one cash tender of this amount; defaults to the exact total (e.g. API sales)
+  cashTendered: z.number().min(0, "Cash tendered must be non-negative").optional(),
+});
+
+// Transaction history filters; text filters match case-insensitively anywhere in the value
+export const transactionQuerySchema = z.object({
+  receiptNumber: z.string().trim().optional(),
+  cashier: z.string().trim().optional(),
+  // Product ID (exact) or name (partial)
+  product: z.string().trim().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+// Daily rows cover one month; monthly rows cover one year
+export const vatReportPeriods = ["daily", "monthly"] as const;
+
+export const vatReportQuerySchema = z
+  .object({
+    period: z.enum(vatReportPeriods).default("daily"),
+    year: z.coerce.number().int().min(2000).max(9999),
+    month: z.coerce.number().int().min(1).max(12).optional(),
+  })
+  .refine((query) => query.period === "monthly" || query.month !== undefined, {
+    message: "Month is required for a daily report",
+    path: ["month"],
+  });
+
+export const creditKinds = ["void", "return"] as const;
+// Only resellable returns go back into stock
+export const returnConditions = ["resellable", "damaged", "defective"] as const;
+
+const creditReasonSchema = z.string().trim().min(1, "A reason is required").max(200);
+
+export const voidTransactionSchema = z.object({
+  reason: creditReasonSchema,
+});
+
+export const returnTransactionSchema = z.object({
+  reason: creditReasonSchema,
+  items: z
+    .array(
+      z.object({
+        // Index into the transaction's items
+        line: z.number().int().min(0),
+        quantity: z.number().positive("Quantity must be positive"),
+        condition: z.enum(returnConditions),
+      }),
+    )
+    .min(1, "Choose at least one item to return"),
+});
+
+export const promotionKinds = ["category_sale", "quantity_break", "buy_x_get_y"] as const;
+
+export const promotionKindLabels: Record<(typeof promotionKinds)[number], string> = {
+  category_sale: "Category sale",
+  quantity_break: "Quantity break",
+  buy_x_get_y: "Buy X get Y",
+};
+
+export const createPromotionSchema = z
+  .object({
+    name: z.string().trim().min(1, "Name is required").max(100),
+    kind: z.enum(promotionKinds),
+    productIds: z.array(z.string().trim().min(1)).default([]),
+    category: z.string().trim().optional(),
+    discountType: z.enum(discountTypes).optional(),
+    discountValue: z.number().positive("Discount must be positive").optional(),
+    minQuantity: z.number().int().min(2, "Minimum quantity must be at least 2").optional(),
+    buyQuantity: z.number().int().min(1).optional(),
+    freeQuantity: z.number().int().min(1).optional(),
+    startsAt: z.coerce.date(),
+    endsAt: z.coerce.date(),
+  })
+  .superRefine((promotion, ctx) => {
+    const issue = (path: string, message: string) => ctx.addIssue({ code: z.ZodIssueCode.custom, path: [path], message });
+    if (promotion.endsAt <= promotion.startsAt) issue("endsAt", "End must be after the start");
+    if (!promotion.productIds.length && !promotion.category) issue("productIds", "Choose products or a category");
+    if (promotion.kind === "category_sale" && !promotion.category) issue("category", "Category is required");
+    if (promotion.kind === "buy_x_get_y") {
+      if (!promotion.buyQuantity) issue("buyQuantity", "Buy quantity is required");
+      if (!promotion.freeQuantity) issue("freeQuantity", "Free quantity is required");
+      return;
+    }
+    if (promotion.kind === "quantity_break" && !promotion.minQuantity) issue("minQuantity", "Minimum quantity is required");
+    if (!promotion.discountType || !promotion.discountValue) issue("discountValue", "Discount is required");
+    if (promotion.discountType === "percent" && (promotion.discountValue ?? 0) > 100) {
+      issue("discountValue", "A percentage discount can't be more than 100");
+    }
   });
 
+export const shiftStatuses = ["open", "closed"] as const;
+export const cashMovementTypes = ["in", "out"] as const;
+// Philippine bills and coins, largest first
+export const cashDenominations = [1000, 500, 200, 100, 50, 20, 10, 5, 1, 0.25] as const;
+
+export const openShiftSchema = z.object({
+  openingFloat: z.number().min(0, "Opening float must be non-negative"),
+});
+
+// Petty cash, supplier COD payments and the like
+export const cashMovementSchema = z.object({
+  type: z.enum(cashMovementTypes),
+  amount: z.number().positive("Amount must be positive"),
+  reason: z.string().trim().min(1, "A reason is required").max(200),
+});
+
+export const closeShiftSchema = z.object({
+  counts: z
+    .array(
+      z.object({
+        denomination: z
+          .number()
+          .refine((value) => (cashDenominations as readonly number[]).includes(value), "Unknown denomination"),
+        count: z.number().int().min(0, "Count must be non-negative"),
+      }),
+    )
+    .refine((counts) => new Set(counts.map((c) => c.denomination)).size === counts.length, "Each denomination once"),
+  note: z.string().trim().max(500).optional(),
+});
+
+export const shiftQuerySchema = z.object({
+  status: z.enum(shiftStatuses).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export const zReadingQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+// What should be in the drawer: the float plus everything the shift took in, less what it paid out
+export function expectedDrawerCash(shift: Pick<Shift, "openingFloat" | "cashSales" | "cashRefunds" | "cashIn" | "cashOut">) {
+  const cash = shift.openingFloat + shift.cashSales - shift.cashRefunds + shift.cashIn - shift.cashOut;
+  return Math.round(cash * 100) / 100;
+}
+
+export const stockMovementTypes = ["sale", "manual_edit", "receipt", "adjustment", "return"] as const;
+
+export const stockMovementQuerySchema = z.object({
+  type: z.enum(stockMovementTypes).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(500).default(100),
+});
+
 export const updateProductSchema = z.object({
   name: z.string().min(1, "Product name is required").optional(),
   description: z.string().optional(),
@@ -139,6 +940,7 @@ export const updateProductSchema = z.object({
   quantity: z.number().min(0, "Quantity must be non-negative").optional(),
   weighted: z.boolean().optional(),
   category: z.string().optional(),
+  vatClass: z.enum(vatClasses).optional(),
 });
 
 /* ========================
@@ -146,10 +948,118 @@ export const updateProductSchema = z.object({
 ======================== */
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+// What the API returns for a user: no password hash or 2FA secrets
+export type SafeUser = Omit<
+  User,
+  | "password"
+  | "passwordHistory"
+  | "twoFactorSecret"
+  | "twoFactorPendingSecret"
+  | "twoFactorRecoveryCodes"
+  | "twoFactorLastStep"
+> & {
+  twoFactorSetupRequired: boolean;
+};
+// The signed-in user as /api/me describes them
+export type CurrentUser = SafeUser & {
+  permissions: Permission[];
+  // Set while an admin is viewing the app as this user
+  impersonatedBy: { id: string; username: string } | null;
+};
 export type Session = typeof sessions.$inferSelect;
+export type ApiToken = typeof apiTokens.$inferSelect;
+export type CustomRole = typeof customRoles.$inferSelect;
+export type CustomRoleRequest = z.infer<typeof customRoleSchema>;
+export type ApiTokenScope = (typeof apiTokenScopes)[number];
+export type CreateApiTokenRequest = z.infer<typeof createApiTokenSchema>;
+export type Invitation = typeof invitations.$inferSelect;
+export type InvitationStatus = (typeof invitationStatuses)[number];
+export type CreateInvitationRequest = z.infer<typeof createInvitationSchema>;
+export type VerificationCode = typeof verificationCodes.$inferSelect;
+export type SecurityEvent = typeof securityEvents.$inferSelect;
+export type SecurityEventType = (typeof securityEventTypes)[number];
+export type SecurityEventQuery = z.infer<typeof securityEventQuerySchema>;
+export type VerificationPurpose = (typeof verificationPurposes)[number];
 export type Product = typeof products.$inferSelect;
+export type VatClass = (typeof vatClasses)[number];
+export type VatBreakdown = Pick<Transaction, "vatableSales" | "vatAmount" | "vatExemptSales" | "zeroRatedSales">;
+export type VatReportPeriod = (typeof vatReportPeriods)[number];
+export type VatReportQuery = z.infer<typeof vatReportQuerySchema>;
 export type InsertProduct = z.infer<typeof insertProductSchema>;
 export type UpdateProduct = z.infer<typeof updateProductSchema>;
+export type CheckoutRequest = z.infer<typeof checkoutSchema>;
+export type QuoteRequest = z.infer<typeof quoteSchema>;
+export type DiscountType = (typeof discountTypes)[number];
+export type DiscountRequest = z.infer<typeof discountSchema>;
+export type SeniorPwd = z.infer<typeof seniorPwdSchema>;
+export type DiscountSource = (typeof discountSources)[number];
+export type AppliedDiscount = { source: DiscountSource; label: string; amount: number };
+export type Promotion = typeof promotions.$inferSelect;
+export type PromotionKind = (typeof promotionKinds)[number];
+export type CreatePromotionRequest = z.infer<typeof createPromotionSchema>;
+export type Transaction = typeof transactions.$inferSelect;
+export type TransactionQuery = z.infer<typeof transactionQuerySchema>;
+export type TransactionItem = {
+  productId: string;
+  productName: string;
+  quantity: number;
+  unitPrice: number;
+  // After every discount, including the line's share of a sale discount
+  lineTotal: number;
+  discount: number;
+  discounts: AppliedDiscount[];
+  vatClass: VatClass;
+  // Given back through voids and returns
+  returnedQuantity: number;
+};
+export type PaymentMethod = (typeof paymentMethods)[number];
+// As stored: `amount` is the part of the total this tender paid
+export type Tender = {
+  method: PaymentMethod;
+  amount: number;
+  reference: string | null;
+};
+export type TenderRequest = z.infer<typeof tenderSchema>;
+export type CreditNote = typeof creditNotes.$inferSelect;
+export type CreditKind = (typeof creditKinds)[number];
+export type ReturnCondition = (typeof returnConditions)[number];
+export type CreditItem = {
+  line: number;
+  productId: string;
+  productName: string;
+  quantity: number;
+  unitPrice: number;
+  lineTotal: number;
+  condition: ReturnCondition;
+  restocked: boolean;
+};
+export type ReturnTransactionRequest = z.infer<typeof returnTransactionSchema>;
+export type Shift = typeof shifts.$inferSelect;
+export type ShiftStatus = (typeof shiftStatuses)[number];
+export type ShiftQuery = z.infer<typeof shiftQuerySchema>;
+export type CashMovementType = (typeof cashMovementTypes)[number];
+export type CashMovement = {
+  type: CashMovementType;
+  amount: number;
+  reason: string;
+  userId: string | null;
+  username: string | null;
+  createdAt: Date;
+};
+export type DenominationCount = { denomination: number; count: number };
+export type CloseShiftRequest = z.infer<typeof closeShiftSchema>;
+export type ZReading = typeof zReadings.$inferSelect;
+// An X-reading is a Z-reading's figures for the sales so far, without closing the day
+export type SalesReading = Omit<ZReading, "id" | "zNumber" | "sequence" | "generatedBy" | "generatedByUsername" | "createdAt">;
+export type StockMovement = typeof stockMovements.$inferSelect;
+export type StockMovementType = (typeof stockMovementTypes)[number];
+export type StockMovementQuery = z.infer<typeof stockMovementQuerySchema>;
 export type LoginRequest = z.infer<typeof loginSchema>;
 export type RegisterRequest = z.infer<typeof registerSchema>;
 export type UpdateProfileRequest = z.infer<typeof updateProfileSchema>;
+export type ChangePasswordRequest = z.infer<typeof changePasswordSchema>;
+export type UserRole = (typeof userRoles)[number];
+export type ApprovalStatus = (typeof approvalStatuses)[number];
+export type TwoFactorVerifyRequest = z.infer<typeof twoFactorVerifySchema>;
+export type AdminCreateAccountRequest = z.infer<typeof adminCreateAccountSchema>;
+export type AdminResetPasswordRequest = z.infer<typeof adminResetPasswordSchema>;